@@ -0,0 +1,112 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod";
+import { GriphookClient } from "./client.js";
+import { AmountInput, formatUnits, parseAmountInput, parseUnits } from "./amounts.js";
+import { interceptTools } from "./intercept.js";
+import { DEFAULT_DECIMALS } from "./tokens.js";
+import { TokenSource, getToolMetadata } from "./toolMetadata.js";
+import { FlowToken, resolveTokenSource, tokenLabel } from "./valueFlow.js";
+
+export const amountInputSchema = z.union([
+  z.string(),
+  z.object({
+    amount: z.string().describe("Decimal amount, e.g. \"1.5\""),
+    unit: z.enum(["token", "base"]).default("token").describe("token: human units using the token's decimals; base: raw base units"),
+  }),
+]);
+
+const FORMAT_HINT = "Base units (\"1500000000000000000\") or a token amount (\"1.5 USDST\", or { amount: \"1.5\", unit: \"token\" })";
+
+export type ConvertedAmount = {
+  field: string;
+  /** Base-unit integer string sent to the backend. */
+  raw: string;
+  /** The same amount in token units. */
+  formatted: string;
+  token: FlowToken;
+};
+
+/**
+ * Convert one amount input to base units using the token's decimals. Human amounts
+ * are rejected when the decimals are unknown or the symbol does not match the token.
+ */
+export function convertAmount(field: string, input: AmountInput, token: FlowToken): ConvertedAmount {
+  const parsed = parseAmountInput(input);
+  if (parsed.kind === "base") {
+    return { field, raw: parsed.value.toString(), formatted: formatUnits(parsed.value, token.decimals), token };
+  }
+
+  if (token.decimalsAssumed) {
+    throw new Error(`cannot convert '${parsed.amount}' because the decimals of ${tokenLabel(token)} are unknown; pass base units instead`);
+  }
+  if (parsed.symbol && token.symbol && parsed.symbol.toLowerCase() !== token.symbol.toLowerCase()) {
+    throw new Error(`amount is in ${parsed.symbol} but this field is denominated in ${token.symbol}`);
+  }
+  const value = parseUnits(parsed.amount, token.decimals);
+  return { field, raw: value.toString(), formatted: formatUnits(value, token.decimals), token };
+}
+
+function describeAmounts(amounts: ConvertedAmount[]): string {
+  const lines = amounts.map(({ field, raw, formatted, token }) =>
+    `- ${field}: ${formatted}${token.symbol ? ` ${token.symbol}` : ""} (${raw} base units)`);
+  return `**Amounts**\n${lines.join("\n")}`;
+}
+
+/**
+ * Let every amount input listed in toolMetadata accept human-readable values as well as
+ * base units. Conversion happens before any other wrapper or handler sees the input, and
+ * the result lists each amount both raw and formatted.
+ */
+export function withAmounts(server: McpServer, client: GriphookClient): McpServer {
+  return interceptTools(server, (name, { config, handler }) => {
+    const fields = getToolMetadata(name).amounts;
+    if (!fields) return { config, handler };
+
+    const shape = config.inputSchema.shape as Record<string, z.ZodType>;
+    const overrides: Record<string, z.ZodType> = {};
+    for (const field of Object.keys(fields)) {
+      const original = shape[field];
+      if (!original) continue;
+      const description = original.description ? `${original.description}. ${FORMAT_HINT}` : FORMAT_HINT;
+      const schema = amountInputSchema.describe(description);
+      overrides[field] = original.isOptional() ? schema.optional() : schema;
+    }
+
+    return {
+      config: { ...config, inputSchema: config.inputSchema.extend(overrides) },
+      handler: async (input, extra) => {
+        const converted: Record<string, unknown> = { ...input };
+        const amounts: ConvertedAmount[] = [];
+        const tokens = new Map<TokenSource, Promise<FlowToken | undefined>>();
+
+        for (const [field, source] of Object.entries(fields)) {
+          const value = input[field] as AmountInput | undefined;
+          if (value === undefined) continue;
+
+          if (!tokens.has(source)) tokens.set(source, resolveTokenSource(client, source, input));
+          const resolved = await tokens.get(source);
+          const token = resolved ?? { decimals: DEFAULT_DECIMALS, decimalsAssumed: true };
+          let amount: ConvertedAmount;
+          try {
+            // An optional token field (strato.cdp.position's asset) may simply be missing; say so
+            // rather than blaming unknown decimals.
+            if (!resolved && "field" in source && parseAmountInput(value).kind === "token") {
+              throw new Error(`${source.field} is required to convert a token amount`);
+            }
+            amount = convertAmount(field, value, token);
+          } catch (err) {
+            throw new McpError(ErrorCode.InvalidParams, `${field}: ${err instanceof Error ? err.message : String(err)}`);
+          }
+          converted[field] = amount.raw;
+          // Without known decimals a formatted value would be a guess, so only list it when known.
+          if (!token.decimalsAssumed) amounts.push(amount);
+        }
+
+        const result = await handler(converted, extra);
+        if (amounts.length === 0) return result;
+        return { ...result, content: [...result.content, { type: "text", text: describeAmounts(amounts) }] };
+      },
+    };
+  });
+}
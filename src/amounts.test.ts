@@ -0,0 +1,67 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as z from "zod";
+import { formatUnits, parseAmountInput, parseUnits } from "./amounts.js";
+import { convertAmount, withAmounts } from "./amountInputs.js";
+import { GriphookClient } from "./client.js";
+import { ToolHandler } from "./intercept.js";
+
+const USDST = { address: "aaaa000000000000000000000000000000000001", symbol: "USDST", decimals: 18 };
+const USDC = { address: "bbbb000000000000000000000000000000000002", symbol: "USDC", decimals: 6 };
+
+test("converts between decimal strings and base units exactly", () => {
+  assert.equal(parseUnits("1.5", 18), 1_500_000_000_000_000_000n);
+  assert.equal(parseUnits("0.000000000000000001", 18), 1n);
+  assert.equal(parseUnits(".25", 6), 250_000n);
+  assert.equal(parseUnits("1.500000", 2), 150n);
+  assert.throws(() => parseUnits("1.0000001", 6), /more than 6 decimal places/);
+  assert.throws(() => parseUnits("1e18", 18), /Invalid decimal amount/);
+
+  assert.equal(formatUnits(1_500_000_000_000_000_000n, 18), "1.5");
+  assert.equal(formatUnits(123_456_789_012_345_678_901_234_567n, 18), "123456789.012345678901234567");
+  assert.equal(formatUnits(0n, 18), "0");
+});
+
+test("classifies amount inputs", () => {
+  assert.deepEqual(parseAmountInput("1500000000000000000"), { kind: "base", value: 1_500_000_000_000_000_000n });
+  assert.deepEqual(parseAmountInput("1.5 USDST"), { kind: "token", amount: "1.5", symbol: "USDST" });
+  assert.deepEqual(parseAmountInput("1.5"), { kind: "token", amount: "1.5" });
+  assert.deepEqual(parseAmountInput("100 wei"), { kind: "base", value: 100n });
+  assert.deepEqual(parseAmountInput({ amount: "2", unit: "token" }), { kind: "token", amount: "2" });
+  assert.deepEqual(parseAmountInput({ amount: "2", unit: "base" }), { kind: "base", value: 2n });
+  assert.throws(() => parseAmountInput("1.5 wei"), /must be an integer/);
+  assert.throws(() => parseAmountInput("-1 USDST"), /Invalid amount/);
+});
+
+test("converts amounts with the token's decimals", () => {
+  assert.deepEqual(convertAmount("value", "1.5 usdst", USDST), {
+    field: "value", raw: "1500000000000000000", formatted: "1.5", token: USDST,
+  });
+  assert.equal(convertAmount("amountIn", { amount: "2.5", unit: "token" }, USDC).raw, "2500000");
+  assert.equal(convertAmount("amountIn", "2500000", USDC).formatted, "2.5");
+  assert.throws(() => convertAmount("value", "1.5 ETHST", USDST), /denominated in USDST/);
+  assert.throws(() => convertAmount("value", "1.5", { ...USDST, decimalsAssumed: true }), /decimals .* are unknown/);
+});
+
+test("asks for the token field before converting a token amount", async () => {
+  let registered: ToolHandler | undefined;
+  const collector = {
+    registerTool(_name: string, _config: unknown, handler: ToolHandler) {
+      registered = handler;
+    },
+  } as unknown as McpServer;
+  const inputs: Record<string, unknown>[] = [];
+  withAmounts(collector, {} as GriphookClient).registerTool(
+    "strato.cdp.position",
+    { inputSchema: z.object({ asset: z.string().optional(), deposit: z.string().optional() }) },
+    async (input) => {
+      inputs.push(input);
+      return { content: [] };
+    },
+  );
+
+  await assert.rejects(registered!({ deposit: "1.5" }, undefined), /deposit: asset is required to convert a token amount/);
+  await registered!({ deposit: "1500" }, undefined);
+  assert.deepEqual(inputs, [{ deposit: "1500" }]);
+});
@@ -0,0 +1,93 @@
+/**
+ * Exact conversion between human-readable decimal strings and base-unit integers.
+ * All arithmetic is done with bigint so no precision is lost at 18 decimals.
+ */
+
+export function parseUnits(value: string, decimals: number): bigint {
+  const trimmed = value.trim();
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(trimmed);
+  if (!match || (match[1] === "" && (match[2] ?? "") === "")) {
+    throw new Error(`Invalid decimal amount '${value}'`);
+  }
+  const whole = match[1] || "0";
+  const fraction = match[2] ?? "";
+  if (fraction.length > decimals && /[1-9]/.test(fraction.slice(decimals))) {
+    throw new Error(`Amount '${value}' has more than ${decimals} decimal places`);
+  }
+  const paddedFraction = fraction.slice(0, decimals).padEnd(decimals, "0");
+  return BigInt(whole) * 10n ** BigInt(decimals) + BigInt(paddedFraction || "0");
+}
+
+export function formatUnits(value: bigint, decimals: number): string {
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const base = 10n ** BigInt(decimals);
+  const whole = abs / base;
+  const fraction = (abs % base).toString().padStart(decimals, "0").replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/** Fixed-point value rounded down to a number of decimal places. */
+export function formatFixed(value: bigint, decimals: number, places: number): string {
+  const step = 10n ** BigInt(Math.max(decimals - places, 0));
+  return formatUnits((value / step) * step, decimals);
+}
+
+/** Read a base-unit integer from a backend value (integer string or safe integer). */
+export function readBaseUnits(value: unknown): bigint | undefined {
+  if (typeof value === "string" && /^\d+$/.test(value)) return BigInt(value);
+  if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) return BigInt(value);
+  return undefined;
+}
+
+/** First of several backend field names that holds a base-unit integer. */
+export function firstBaseUnits(record: Record<string, unknown>, keys: string[]): bigint | undefined {
+  for (const key of keys) {
+    const value = readBaseUnits(record[key]);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Amount input accepted by tools: a base-unit integer string ("1500000000000000000"),
+ * a human amount with an optional symbol ("1.5 USDST", "1.5"), or an explicit object.
+ */
+export type AmountInput = string | { amount: string; unit?: "token" | "base" };
+
+export type ParsedAmount =
+  | { kind: "base"; value: bigint }
+  | { kind: "token"; amount: string; symbol?: string };
+
+const AMOUNT_PATTERN = /^(\d+(?:\.\d+)?|\.\d+)(?:\s*([A-Za-z][A-Za-z0-9._-]*))?$/;
+const BASE_UNIT_SUFFIXES = new Set(["wei", "base"]);
+
+/**
+ * Classify an amount input. Bare integers stay base units for backward compatibility;
+ * decimals, token symbols and { unit: "token" } are human amounts.
+ */
+export function parseAmountInput(input: AmountInput): ParsedAmount {
+  if (typeof input !== "string") {
+    const amount = input.amount.trim();
+    if (input.unit === "base") {
+      if (!/^\d+$/.test(amount)) throw new Error(`Base-unit amount must be an integer, got '${input.amount}'`);
+      return { kind: "base", value: BigInt(amount) };
+    }
+    if (!/^(\d+(?:\.\d+)?|\.\d+)$/.test(amount)) throw new Error(`Invalid token amount '${input.amount}'`);
+    return { kind: "token", amount };
+  }
+
+  const match = AMOUNT_PATTERN.exec(input.trim());
+  if (!match) {
+    throw new Error(`Invalid amount '${input}'. Use base units ("1500000000000000000") or a token amount ("1.5 USDST").`);
+  }
+  const [, amount, unit] = match;
+  if (unit && BASE_UNIT_SUFFIXES.has(unit.toLowerCase())) {
+    if (!/^\d+$/.test(amount)) throw new Error(`Base-unit amount must be an integer, got '${input}'`);
+    return { kind: "base", value: BigInt(amount) };
+  }
+  if (!unit && /^\d+$/.test(amount)) {
+    return { kind: "base", value: BigInt(amount) };
+  }
+  return unit ? { kind: "token", amount, symbol: unit } : { kind: "token", amount };
+}
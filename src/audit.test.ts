@@ -0,0 +1,74 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AuditEntry, AuditLog, auditStatus, filterAuditEntries, findTxHashes, parseAuditTime, readAuditLog, redactInput } from "./audit.js";
+import { toContent } from "./content.js";
+
+const HASH = `0x${"ab".repeat(32)}`;
+
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+  return {
+    time: "2026-01-01T00:00:00.000Z",
+    user: "local",
+    session: "cli",
+    tool: "strato.tokens",
+    input: {},
+    backend: [],
+    status: "ok",
+    durationMs: 1,
+    ...overrides,
+  };
+}
+
+test("redacts secrets but keeps token addresses and amounts", () => {
+  assert.deepEqual(
+    redactInput({ stratoToken: "USDST", amount: "2.5", confirmationToken: "abc", nested: [{ apiKey: "k", to: "0x1" }] }),
+    { stratoToken: "USDST", amount: "2.5", confirmationToken: "[redacted]", nested: [{ apiKey: "[redacted]", to: "0x1" }] },
+  );
+});
+
+test("reads the outcome and transaction hashes from results", () => {
+  assert.equal(auditStatus({ content: [], isError: true }), "error");
+  assert.equal(auditStatus(toContent({ tool: "x", dryRun: true }, "Dry run")), "dryRun");
+  assert.equal(auditStatus({ content: [], structuredContent: { confirmationRequired: true } }), "confirmationRequired");
+  assert.equal(auditStatus(toContent({ status: "INITIATED" })), "ok");
+  assert.deepEqual(findTxHashes([{ request: { txHash: HASH, id: HASH.slice(2) }, receipt: { transactionHash: HASH } }]), [HASH]);
+});
+
+test("rotates the log by size and reads rotated files oldest first", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "griphook-audit-"));
+  try {
+    const file = path.join(dir, "audit.jsonl");
+    const log = new AuditLog({ file, maxBytes: 400, maxFiles: 2 });
+    // Each entry is about 180 bytes, so every file holds two. Appends are queued in call order.
+    await Promise.all(Array.from({ length: 10 }, (_, index) => log.append(entry({ tool: `strato.tool${index}` }))));
+    assert.ok(fs.existsSync(`${file}.2`));
+    assert.ok(!fs.existsSync(`${file}.3`));
+    assert.deepEqual(readAuditLog(file, 2).map((logged) => logged.tool), [4, 5, 6, 7, 8, 9].map((index) => `strato.tool${index}`));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("filters by user, tool prefix, status and time", () => {
+  const entries = [
+    entry({ user: "sub-1", userName: "Alice", tool: "strato.lending.borrow", time: "2026-01-01T10:00:00Z" }),
+    entry({ user: "sub-2", userName: "bob", tool: "strato.lending", status: "error", time: "2026-01-01T11:00:00Z" }),
+    entry({ user: "sub-1", userName: "Alice", tool: "strato.lendingx", time: "2026-01-01T12:00:00Z" }),
+  ];
+  const tools = (filter: Parameters<typeof filterAuditEntries>[1]) => filterAuditEntries(entries, filter).map((found) => found.tool);
+  assert.deepEqual(tools({ user: "alice" }), ["strato.lending.borrow", "strato.lendingx"]);
+  assert.deepEqual(tools({ user: "sub-2" }), ["strato.lending"]);
+  assert.deepEqual(tools({ tool: "strato.lending" }), ["strato.lending.borrow", "strato.lending"]);
+  assert.deepEqual(tools({ status: "error" }), ["strato.lending"]);
+  assert.deepEqual(tools({ since: new Date("2026-01-01T10:30:00Z"), until: new Date("2026-01-01T11:30:00Z") }), ["strato.lending"]);
+});
+
+test("parses relative and absolute times", () => {
+  const now = Date.parse("2026-01-02T00:00:00Z");
+  assert.equal(parseAuditTime("24h", now).toISOString(), "2026-01-01T00:00:00.000Z");
+  assert.equal(parseAuditTime("2026-01-01T00:00:00Z").getTime(), Date.parse("2026-01-01T00:00:00Z"));
+  assert.throws(() => parseAuditTime("yesterday"), /Invalid time/);
+});
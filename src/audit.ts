@@ -0,0 +1,288 @@
+import fs from "fs";
+import path from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { GriphookClient } from "./client.js";
+import { AuditConfig, GriphookConfig, loadConfig } from "./config.js";
+import { resultPayload } from "./content.js";
+import { interceptTools } from "./intercept.js";
+import { readTimestamp } from "./oracle.js";
+import { RecordedRequest, collectBackendCalls, requestContext } from "./requestContext.js";
+
+export type AuditStatus = "ok" | "error" | "dryRun" | "confirmationRequired";
+
+/** One line of the audit log. */
+export type AuditEntry = {
+  time: string;
+  /** Token subject in hosted mode, "local" for stdio and CLI calls. */
+  user: string;
+  /** preferred_username or email from the token claims, when known. */
+  userName?: string;
+  /** MCP session id; "stdio" for stdio sessions and "cli" for direct CLI calls. */
+  session: string;
+  tool: string;
+  /** Tool input as sent by the caller, with secrets replaced by "[redacted]". */
+  input: unknown;
+  /** Backend requests made by the call, as "METHOD /path". */
+  backend: string[];
+  status: AuditStatus;
+  error?: string;
+  txHashes?: string[];
+  durationMs: number;
+};
+
+export type AuditFilter = {
+  /** Matches the user or the user name, ignoring case. */
+  user?: string;
+  /** Matches the tool or, for a prefix such as "strato.lending", every tool under it. */
+  tool?: string;
+  status?: AuditStatus;
+  since?: Date;
+  until?: Date;
+};
+
+const REDACTED = "[redacted]";
+const SECRET_KEY = /secret|password|passphrase|private|mnemonic|seed|api_?key|authorization|access_?token|refresh_?token|confirmation_?token|signature/i;
+const TX_HASH = /^(0x)?[0-9a-fA-F]{64}$/;
+const MAX_STRING = 1000;
+
+/** Replace secret-looking fields and shorten very long strings. */
+export function redactInput(value: unknown, key?: string): unknown {
+  if (key !== undefined && SECRET_KEY.test(key) && value !== undefined && value !== null) return REDACTED;
+  if (typeof value === "string") return value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}...` : value;
+  if (Array.isArray(value)) return value.map((item) => redactInput(item));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([field, entry]) => [field, redactInput(entry, field)]));
+  }
+  return value;
+}
+
+/** Transaction hashes anywhere in value, found under keys containing "hash". */
+export function findTxHashes(value: unknown, found = new Set<string>(), depth = 0): string[] {
+  if (depth > 8 || !value || typeof value !== "object") return [...found];
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry === "string" && /hash/i.test(key) && TX_HASH.test(entry)) found.add(entry);
+    else findTxHashes(entry, found, depth + 1);
+  }
+  return [...found];
+}
+
+export function auditStatus(result: CallToolResult): AuditStatus {
+  if (result.isError) return "error";
+  for (const payload of resultPayload(result)) {
+    const record = payload as Record<string, unknown> | null;
+    if (record?.dryRun === true) return "dryRun";
+    if (record?.confirmationRequired === true) return "confirmationRequired";
+  }
+  return "ok";
+}
+
+/**
+ * Append-only JSONL file. When the next line would push the file past maxBytes it is
+ * renamed to <file>.1 (older files shift up to <file>.<maxFiles>, the oldest is dropped).
+ * Writes are asynchronous and queued, so concurrent calls neither block the event loop
+ * nor interleave with a rotation.
+ */
+export class AuditLog {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private config: { file: string; maxBytes: number; maxFiles: number }) {}
+
+  /** Resolves once the entry is written; failures are logged, never thrown. */
+  append(entry: AuditEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    this.queue = this.queue.then(() => this.write(line)).catch((err) => {
+      console.error(`[audit] Failed to write ${this.config.file}: ${err instanceof Error ? err.message : err}`);
+    });
+    return this.queue;
+  }
+
+  private async write(line: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.config.file), { recursive: true, mode: 0o700 });
+    await this.rotate(Buffer.byteLength(line));
+    await fs.promises.appendFile(this.config.file, line, { mode: 0o600 });
+  }
+
+  private async rotate(incoming: number): Promise<void> {
+    const { file, maxBytes, maxFiles } = this.config;
+    const size = await fs.promises.stat(file).then((stats) => stats.size, () => undefined);
+    if (size === undefined || size + incoming <= maxBytes) return;
+    for (let index = maxFiles - 1; index >= 1; index -= 1) {
+      await fs.promises.rename(`${file}.${index}`, `${file}.${index + 1}`).catch(() => undefined);
+    }
+    await fs.promises.rename(file, `${file}.1`);
+  }
+}
+
+/** Entries of the log and its rotated files, oldest first. Malformed lines are skipped. */
+export function readAuditLog(file: string, maxFiles: number): AuditEntry[] {
+  const files = [...Array.from({ length: maxFiles }, (_, index) => `${file}.${maxFiles - index}`), file];
+  const entries: AuditEntry[] = [];
+  for (const name of files) {
+    if (!fs.existsSync(name)) continue;
+    for (const line of fs.readFileSync(name, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // Partially written line
+      }
+    }
+  }
+  return entries;
+}
+
+export function filterAuditEntries(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  const user = filter.user?.toLowerCase();
+  return entries.filter((entry) => {
+    if (user && entry.user.toLowerCase() !== user && entry.userName?.toLowerCase() !== user) return false;
+    if (filter.tool && entry.tool !== filter.tool && !entry.tool.startsWith(`${filter.tool}.`)) return false;
+    if (filter.status && entry.status !== filter.status) return false;
+    const time = Date.parse(entry.time);
+    if (filter.since && !(time >= filter.since.getTime())) return false;
+    if (filter.until && !(time <= filter.until.getTime())) return false;
+    return true;
+  });
+}
+
+/** An ISO date, a unix timestamp, or a duration before now such as 30m, 24h or 7d. */
+export function parseAuditTime(value: string, now = Date.now()): Date {
+  const relative = /^(\d+)([smhd])$/.exec(value.trim());
+  if (relative) {
+    const unitMs = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as "s" | "m" | "h" | "d"];
+    return new Date(now - Number(relative[1]) * unitMs);
+  }
+  const time = readTimestamp(value.trim());
+  if (!time) throw new Error(`Invalid time '${value}'. Use an ISO date, a unix timestamp or a duration like 24h.`);
+  return time;
+}
+
+async function localUserName(client: GriphookClient): Promise<string | undefined> {
+  try {
+    return await client.getUsername();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Record every tool call in the audit log (GRIPHOOK_AUDIT_LOG): who called it, from which
+ * session, the redacted input, the backend requests it made and how it ended. Wraps the
+ * server directly, so it sees the caller's input and the final result of every other wrapper.
+ */
+export function withAudit(server: McpServer, client: GriphookClient, config: GriphookConfig): McpServer {
+  const { file, maxBytes, maxFiles } = config.audit;
+  if (!file) return server;
+  const log = new AuditLog({ file, maxBytes, maxFiles });
+  // The local login does not change while the server runs, so look its name up once.
+  let localName: Promise<string | undefined> | undefined;
+
+  return interceptTools(server, (tool, registration) => {
+    const { handler } = registration;
+    return {
+      config: registration.config,
+      handler: async (input, extra) => {
+        const started = Date.now();
+        const calls: RecordedRequest[] = [];
+        let result: CallToolResult | undefined;
+        let failure: unknown;
+        try {
+          result = await collectBackendCalls(calls, () => handler(input, extra));
+        } catch (err) {
+          failure = err;
+        }
+
+        const context = requestContext.getStore();
+        const txHashes = result ? findTxHashes(resultPayload(result)) : [];
+        await log.append({
+          time: new Date(started).toISOString(),
+          user: context?.user ?? "local",
+          userName: context?.user ? context.userName : await (localName ??= localUserName(client)),
+          session: extra ? extra.sessionId ?? "stdio" : "cli",
+          tool,
+          input: redactInput(input),
+          backend: calls.map((call) => `${call.method.toUpperCase()} ${call.path}`),
+          status: result ? auditStatus(result) : "error",
+          ...(failure !== undefined ? { error: failure instanceof Error ? failure.message : String(failure) } : {}),
+          ...(txHashes.length > 0 ? { txHashes } : {}),
+          durationMs: Date.now() - started,
+        });
+
+        if (!result) throw failure;
+        return result;
+      },
+    };
+  });
+}
+
+function printUsage(): void {
+  console.log(`
+Usage: griphook audit [options]
+
+Options:
+  --user <id|name>     Calls by this user (token subject or user name)
+  --tool <name>        Calls to this tool, or to every tool under a prefix (strato.lending)
+  --status <status>    ok, error, dryRun or confirmationRequired
+  --since <time>       ISO date, unix timestamp or duration before now (30m, 24h, 7d)
+  --until <time>       Same formats as --since
+  --limit <n>          Show the most recent n matches (default 50)
+  --json               Print matching entries as JSON lines
+`);
+}
+
+/**
+ * `griphook audit`: query the audit log by user, tool, status and time.
+ */
+export async function auditCommand(argv: string[], config: AuditConfig = loadConfig().audit): Promise<void> {
+  const options: Record<string, string> = {};
+  let jsonOutput = false;
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === "--help" || arg === "-h") return printUsage();
+    if (arg === "--json") {
+      jsonOutput = true;
+      continue;
+    }
+    const match = /^--(user|tool|status|since|until|limit)(?:=(.*))?$/.exec(arg);
+    if (!match) throw new Error(`Unknown option '${arg}'. Run 'griphook audit --help'.`);
+    const value = match[2] ?? argv[++index];
+    if (value === undefined) throw new Error(`Missing value after --${match[1]}.`);
+    options[match[1]] = value;
+  }
+
+  if (!config.file) {
+    throw new Error("The audit log is disabled (GRIPHOOK_AUDIT_LOG=off).");
+  }
+  const statuses: AuditStatus[] = ["ok", "error", "dryRun", "confirmationRequired"];
+  if (options.status && !statuses.includes(options.status as AuditStatus)) {
+    throw new Error(`Invalid status '${options.status}'. Expected one of: ${statuses.join(", ")}.`);
+  }
+  const limit = options.limit === undefined ? 50 : Number(options.limit);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error(`Invalid limit '${options.limit}'. Expected a positive integer.`);
+  }
+
+  const matches = filterAuditEntries(readAuditLog(config.file, config.maxFiles), {
+    user: options.user,
+    tool: options.tool,
+    status: options.status as AuditStatus | undefined,
+    since: options.since ? parseAuditTime(options.since) : undefined,
+    until: options.until ? parseAuditTime(options.until) : undefined,
+  }).slice(-limit);
+
+  if (jsonOutput) {
+    for (const entry of matches) console.log(JSON.stringify(entry));
+    return;
+  }
+  if (matches.length === 0) {
+    console.log(`No matching entries in ${config.file}`);
+    return;
+  }
+  for (const entry of matches) {
+    const user = entry.userName ? `${entry.userName} (${entry.user})` : entry.user;
+    const details = [entry.error?.replace(/\s*\n\s*/g, " "), ...(entry.txHashes ?? []).map((hash) => `tx ${hash}`)]
+      .filter(Boolean)
+      .join("; ");
+    console.log(`${entry.time}  ${user}  ${entry.tool}  ${entry.status}${details ? `  ${details}` : ""}`);
+  }
+}
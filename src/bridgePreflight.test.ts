@@ -0,0 +1,72 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { GriphookClient } from "./client.js";
+import { estimateBridgeFee, preflightWithdrawal, readBridgeNetworks, readBridgeRoutes } from "./bridgePreflight.js";
+
+const USDST = "aaaa000000000000000000000000000000000001";
+const USDCST = "dddd000000000000000000000000000000000004";
+const RECIPIENT = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+const E18 = 10n ** 18n;
+
+function fakeClient(responses: Record<string, unknown>): GriphookClient {
+  return {
+    async request(_method: string, path: string) {
+      if (!(path in responses)) throw new Error(`unexpected ${path}`);
+      return responses[path];
+    },
+  } as unknown as GriphookClient;
+}
+
+const backend = {
+  "/bridge/networkConfigs": [{ chainId: "1", chainName: "Ethereum", chainInfo: { enabled: true } }, { chainId: "8453", enabled: false }],
+  "/bridge/bridgeableTokens/1": [
+    { stratoToken: USDST, stratoTokenSymbol: "USDST" },
+    { stratoToken: USDCST, stratoTokenSymbol: "USDCST", maxPerWithdrawal: (1000n * E18).toString(), minAmount: (10n * E18).toString(), withdrawalFee: E18.toString(), feeBps: "50" },
+  ],
+  "/tokens/balance": [{ address: USDST, balance: (500n * E18).toString() }],
+  [`/tokens/${USDST}`]: { address: USDST, _symbol: "USDST", customDecimals: 18 },
+};
+
+test("reads networks and routes with limits and fees", () => {
+  assert.deepEqual(readBridgeNetworks(backend["/bridge/networkConfigs"]), [
+    { chainId: "1", name: "Ethereum", enabled: true },
+    { chainId: "8453", enabled: false },
+  ]);
+  const [, route] = readBridgeRoutes(backend["/bridge/bridgeableTokens/1"]);
+  assert.equal(route.maxAmount, 1000n * E18);
+  assert.equal(estimateBridgeFee(route, 100n * E18), E18 + E18 / 2n);
+  assert.equal(estimateBridgeFee({ stratoToken: USDST, enabled: true }, E18), undefined);
+});
+
+test("passes a valid withdrawal and reports the expected fee", async () => {
+  const result = await preflightWithdrawal(fakeClient(backend), {
+    externalChainId: "1",
+    stratoToken: USDST,
+    stratoTokenAmount: (100n * E18).toString(),
+    externalRecipient: RECIPIENT,
+    targetStratoToken: USDCST,
+  });
+  assert.equal(result.ok, true, JSON.stringify(result.checks));
+  assert.deepEqual(result.fees, { estimated: "1.5", raw: (E18 + E18 / 2n).toString(), flat: "1", feeBps: "50", receive: "98.5" });
+});
+
+test("fails on disabled chains, unbridgeable tokens, bad checksums and amounts out of range", async () => {
+  const failures = async (input: Partial<Parameters<typeof preflightWithdrawal>[1]>, responses: Record<string, unknown> = {}) => {
+    const result = await preflightWithdrawal(fakeClient({ ...backend, "/bridge/bridgeableTokens/8453": [], ...responses }), {
+      externalChainId: "1",
+      stratoToken: USDST,
+      stratoTokenAmount: (100n * E18).toString(),
+      externalRecipient: RECIPIENT,
+      targetStratoToken: USDCST,
+      ...input,
+    });
+    return result.checks.filter((check) => check.status === "failed").map((check) => check.check);
+  };
+  assert.deepEqual(await failures({ externalChainId: "8453" }), ["chain enabled", "token bridgeable", "token bridgeable"]);
+  assert.deepEqual(await failures({ targetStratoToken: "eeee000000000000000000000000000000000005" }), ["token bridgeable"]);
+  // Both the withdrawn token and the target must be bridgeable.
+  assert.deepEqual(await failures({}, { "/bridge/bridgeableTokens/1": backend["/bridge/bridgeableTokens/1"].slice(1) }), ["token bridgeable"]);
+  assert.deepEqual(await failures({ externalRecipient: RECIPIENT.toLowerCase() }), ["recipient address"]);
+  assert.deepEqual(await failures({ stratoTokenAmount: (600n * E18).toString() }), ["sufficient balance"]);
+  assert.deepEqual(await failures({ stratoTokenAmount: (5n * E18).toString() }), ["withdrawal limits"]);
+});
@@ -0,0 +1,203 @@
+import { GriphookClient, safeFetch } from "./client.js";
+import { formatUnits, readBaseUnits } from "./amounts.js";
+import { DryRunCheck, findBalance } from "./dryRun.js";
+import { isChecksumAddress, toChecksumAddress } from "./keccak.js";
+import { fetchTokenInfo, normalizeAddress, readRecords, readTokenAddress } from "./tokens.js";
+
+const BPS = 10_000n;
+
+export type BridgeNetwork = { chainId: string; name?: string; enabled: boolean };
+
+export type BridgeRoute = {
+  stratoToken: string;
+  symbol?: string;
+  enabled: boolean;
+  /** Base units of the STRATO token; undefined when the backend sets no limit (0 also means none). */
+  minAmount?: bigint;
+  maxAmount?: bigint;
+  flatFee?: bigint;
+  feeBps?: bigint;
+};
+
+/** Enabled unless an enabled/isEnabled/active flag says otherwise (or disabled is set). */
+function readEnabled(record: Record<string, unknown>): boolean {
+  for (const key of ["enabled", "isEnabled", "active"]) {
+    const value = record[key];
+    if (typeof value === "boolean") return value;
+    if (value === "true" || value === "false") return value === "true";
+  }
+  return record.disabled !== true;
+}
+
+function firstAmount(record: Record<string, unknown>, keys: string[]): bigint | undefined {
+  for (const key of keys) {
+    const value = readBaseUnits(record[key]);
+    if (value !== undefined) return value === 0n ? undefined : value;
+  }
+  return undefined;
+}
+
+/** Networks of a /bridge/networkConfigs response. Fields nested under chainInfo are flattened. */
+export function readBridgeNetworks(data: unknown): BridgeNetwork[] {
+  const networks: BridgeNetwork[] = [];
+  for (const entry of readRecords(data)) {
+    const record = { ...entry, ...(entry.chainInfo && typeof entry.chainInfo === "object" ? entry.chainInfo as Record<string, unknown> : {}) };
+    const chainId = record.chainId ?? record.externalChainId ?? record.id;
+    if (typeof chainId !== "string" && typeof chainId !== "number") continue;
+    const name = record.chainName ?? record.name ?? record.networkName;
+    networks.push({ chainId: String(chainId), ...(typeof name === "string" ? { name } : {}), enabled: readEnabled(record) });
+  }
+  return networks;
+}
+
+/** Tokens of a /bridge/bridgeableTokens/{chainId} response with their limits and fees. */
+export function readBridgeRoutes(data: unknown): BridgeRoute[] {
+  const routes: BridgeRoute[] = [];
+  for (const record of readRecords(data)) {
+    const address = readTokenAddress(record.stratoToken ?? record.stratoTokenAddress ?? record.token ?? record.address);
+    if (!address) continue;
+    const symbol = record.stratoTokenSymbol ?? record.symbol ?? (record.stratoToken as { _symbol?: unknown } | undefined)?._symbol;
+    const feeBps = firstAmount(record, ["feeBps", "feeBasisPoints"]);
+    routes.push({
+      stratoToken: normalizeAddress(address),
+      ...(typeof symbol === "string" ? { symbol } : {}),
+      enabled: readEnabled(record),
+      minAmount: firstAmount(record, ["minAmount", "minPerWithdrawal", "minWithdrawal"]),
+      maxAmount: firstAmount(record, ["maxPerWithdrawal", "maxAmount", "maxWithdrawal"]),
+      flatFee: firstAmount(record, ["withdrawalFee", "bridgeFee", "fee"]),
+      ...(feeBps !== undefined ? { feeBps } : {}),
+    });
+  }
+  return routes;
+}
+
+/** Fee of a withdrawal: the flat fee plus feeBps of the amount. Undefined when the route reports neither. */
+export function estimateBridgeFee(route: BridgeRoute, amount: bigint): bigint | undefined {
+  if (route.flatFee === undefined && route.feeBps === undefined) return undefined;
+  return (route.flatFee ?? 0n) + (amount * (route.feeBps ?? 0n)) / BPS;
+}
+
+/** Recipient check: a 0x address whose letter case matches its EIP-55 checksum. */
+export function checkRecipient(recipient: string): DryRunCheck {
+  const check = "recipient address";
+  if (!/^0x[0-9a-fA-F]{40}$/.test(recipient)) {
+    return { check, status: "failed", detail: `${recipient} is not a 0x-prefixed 20-byte EVM address` };
+  }
+  if (!isChecksumAddress(recipient)) {
+    return { check, status: "failed", detail: `${recipient} is not EIP-55 checksummed (expected ${toChecksumAddress(recipient)}); confirm the address with its owner` };
+  }
+  return { check, status: "ok", detail: recipient };
+}
+
+export type WithdrawalInput = {
+  externalChainId: string;
+  stratoToken: string;
+  stratoTokenAmount: string;
+  externalRecipient: string;
+  targetStratoToken?: string;
+};
+
+export type WithdrawalPreflight = {
+  /** True when no check failed. */
+  ok: boolean;
+  checks: DryRunCheck[];
+  network?: BridgeNetwork;
+  /** The bridgeable token the withdrawal leaves through: targetStratoToken, else stratoToken. */
+  route?: { stratoToken: string; symbol?: string; minAmount: string | null; maxAmount: string | null };
+  /** Null when the backend reports no fee for the route. */
+  fees: { estimated: string; raw: string; flat: string | null; feeBps: string | null; receive: string } | null;
+};
+
+/**
+ * Check a withdrawal before it is submitted: the chain is enabled in /bridge/networkConfigs,
+ * stratoToken and targetStratoToken (when given) are both bridgeable to it, the recipient is a
+ * checksummed EVM address, and the amount fits the balance and the route's min/max.
+ * Also estimates the fee from the route. Checks whose data the backend does not provide
+ * are reported as warnings.
+ */
+export async function preflightWithdrawal(client: GriphookClient, input: WithdrawalInput): Promise<WithdrawalPreflight> {
+  const checks: DryRunCheck[] = [checkRecipient(input.externalRecipient)];
+  const amount = readBaseUnits(input.stratoTokenAmount);
+  const [networksData, routesData, balances, info] = await Promise.all([
+    safeFetch(client, "get", "/bridge/networkConfigs"),
+    safeFetch(client, "get", `/bridge/bridgeableTokens/${input.externalChainId}`),
+    safeFetch(client, "get", "/tokens/balance"),
+    fetchTokenInfo(client, input.stratoToken),
+  ]);
+  const decimals = info?.decimals ?? 18;
+  const result: WithdrawalPreflight = { ok: true, checks, fees: null };
+
+  if (networksData === undefined) {
+    checks.push({ check: "chain enabled", status: "warning", detail: "/bridge/networkConfigs is not available" });
+  } else {
+    const networks = readBridgeNetworks(networksData);
+    const network = networks.find((candidate) => candidate.chainId === String(input.externalChainId));
+    if (network) result.network = network;
+    checks.push(!network
+      ? { check: "chain enabled", status: "failed", detail: `Chain ${input.externalChainId} is not configured; known chains: ${networks.map((entry) => entry.chainId).join(", ") || "none"}` }
+      : !network.enabled
+      ? { check: "chain enabled", status: "failed", detail: `Chain ${network.name ?? network.chainId} is disabled` }
+      : { check: "chain enabled", status: "ok", detail: network.name ?? network.chainId });
+  }
+
+  let route: BridgeRoute | undefined;
+  if (routesData === undefined) {
+    checks.push({ check: "token bridgeable", status: "warning", detail: `/bridge/bridgeableTokens/${input.externalChainId} is not available` });
+  } else {
+    const routes = readBridgeRoutes(routesData);
+    const listed = routes.map((entry) => entry.symbol ?? entry.stratoToken).join(", ") || "none";
+    const tokens: Array<[string, string]> = [["stratoToken", input.stratoToken]];
+    if (input.targetStratoToken) tokens.push(["targetStratoToken", input.targetStratoToken]);
+    for (const [field, token] of tokens) {
+      // The last match is the route the withdrawal leaves through.
+      route = routes.find((entry) => entry.stratoToken === normalizeAddress(token));
+      checks.push(!route
+        ? { check: "token bridgeable", status: "failed", detail: `${field} ${token} is not bridgeable to chain ${input.externalChainId}; bridgeable: ${listed}` }
+        : !route.enabled
+        ? { check: "token bridgeable", status: "failed", detail: `${route.symbol ?? token} is disabled for chain ${input.externalChainId}` }
+        : { check: "token bridgeable", status: "ok", detail: route.symbol ?? route.stratoToken });
+    }
+  }
+
+  if (amount === undefined || amount === 0n) {
+    checks.push({ check: "amount", status: "failed", detail: `stratoTokenAmount must be a positive base-unit amount, got ${JSON.stringify(input.stratoTokenAmount)}` });
+  } else {
+    const available = findBalance(balances, input.stratoToken);
+    checks.push(available === undefined
+      ? { check: "sufficient balance", status: "warning", detail: `No balance found for token ${input.stratoToken}` }
+      : amount > available
+      ? { check: "sufficient balance", status: "failed", detail: `Requested ${formatUnits(amount, decimals)} exceeds balance ${formatUnits(available, decimals)}` }
+      : { check: "sufficient balance", status: "ok", detail: `${formatUnits(amount, decimals)} <= ${formatUnits(available, decimals)}` });
+
+    if (route?.minAmount !== undefined && amount < route.minAmount) {
+      checks.push({ check: "withdrawal limits", status: "failed", detail: `Minimum withdrawal is ${formatUnits(route.minAmount, decimals)}` });
+    } else if (route?.maxAmount !== undefined && amount > route.maxAmount) {
+      checks.push({ check: "withdrawal limits", status: "failed", detail: `Maximum withdrawal is ${formatUnits(route.maxAmount, decimals)}` });
+    } else if (route) {
+      checks.push({ check: "withdrawal limits", status: "ok", detail: "within the route's limits" });
+    }
+
+    const fee = route && estimateBridgeFee(route, amount);
+    if (fee !== undefined && route) {
+      result.fees = {
+        estimated: formatUnits(fee, decimals),
+        raw: fee.toString(),
+        flat: route.flatFee === undefined ? null : formatUnits(route.flatFee, decimals),
+        feeBps: route.feeBps === undefined ? null : route.feeBps.toString(),
+        receive: formatUnits(amount > fee ? amount - fee : 0n, decimals),
+      };
+      if (fee >= amount) checks.push({ check: "fees", status: "failed", detail: `The fee ${result.fees.estimated} is not less than the amount` });
+    }
+  }
+
+  if (route) {
+    result.route = {
+      stratoToken: route.stratoToken,
+      ...(route.symbol ? { symbol: route.symbol } : {}),
+      minAmount: route.minAmount === undefined ? null : formatUnits(route.minAmount, decimals),
+      maxAmount: route.maxAmount === undefined ? null : formatUnits(route.maxAmount, decimals),
+    };
+  }
+  result.ok = checks.every((check) => check.status !== "failed");
+  return result;
+}
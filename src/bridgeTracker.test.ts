@@ -0,0 +1,66 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { GriphookClient } from "./client.js";
+import { bridgeStage, findBridgeTransaction, trackBridgeTransaction, waitForBridgeTransaction } from "./bridgeTracker.js";
+
+test("maps backend statuses and contract states to lifecycle stages", () => {
+  assert.equal(bridgeStage("INITIATED", "withdrawal"), "requested");
+  assert.equal(bridgeStage("PENDING_REVIEW", "withdrawal"), "pendingApproval");
+  assert.equal(bridgeStage("Completed", "deposit"), "finalized");
+  assert.equal(bridgeStage("aborted", "deposit"), "failed");
+  assert.equal(bridgeStage("2", "withdrawal"), "pendingApproval");
+  assert.equal(bridgeStage("2", "deposit"), "finalized");
+  assert.equal(bridgeStage("mystery", "deposit"), "unknown");
+  assert.equal(bridgeStage(undefined, "deposit"), "unknown");
+});
+
+test("matches request ids and hashes with or without 0x", () => {
+  const rows = [{ withdrawalId: "7", status: "INITIATED" }, { depositId: "8", externalTxHash: "0xABCD", status: "COMPLETED" }];
+  assert.equal(findBridgeTransaction(rows, "7"), rows[0]);
+  assert.equal(findBridgeTransaction(rows, "abcd"), rows[1]);
+  assert.equal(findBridgeTransaction(rows, "0x1234"), undefined);
+});
+
+test("searches both transaction lists and waits until the transaction is final", async () => {
+  const statuses = ["INITIATED", "PENDING_REVIEW", "COMPLETED"];
+  const paths: string[] = [];
+  const client = {
+    async request(_method: string, path: string) {
+      paths.push(path);
+      return path.endsWith("/withdrawal") ? { data: [{ withdrawalId: "7", status: statuses.shift() ?? "COMPLETED" }] } : [];
+    },
+  } as unknown as GriphookClient;
+
+  const first = await trackBridgeTransaction(client, "7");
+  assert.deepEqual(paths, ["/bridge/transactions/deposit", "/bridge/transactions/withdrawal"]);
+  assert.equal(first?.stage, "requested");
+
+  const progress: string[] = [];
+  const done = await waitForBridgeTransaction(client, "7", "withdrawal", {
+    timeoutMs: 1000,
+    intervalMs: 1,
+    onProgress: async (tracked) => { progress.push(tracked?.stage ?? "missing"); },
+  });
+  assert.deepEqual(progress, ["pendingApproval"]);
+  assert.equal(done.tracked?.stage, "finalized");
+  assert.equal(done.timedOut, false);
+
+  const missing = await waitForBridgeTransaction(client, "9", "deposit", { timeoutMs: 5, intervalMs: 1 });
+  assert.equal(missing.tracked, undefined);
+  assert.equal(missing.timedOut, true);
+});
+
+test("reports an id found among both deposits and withdrawals as ambiguous", async () => {
+  const client = {
+    async request(_method: string, path: string) {
+      return path.endsWith("/withdrawal")
+        ? [{ withdrawalId: "7", status: "INITIATED" }]
+        : [{ id: 7, status: "COMPLETED" }, { depositId: "8", externalTxHash: "0xABCD", status: "COMPLETED" }];
+    },
+  } as unknown as GriphookClient;
+
+  await assert.rejects(trackBridgeTransaction(client, "7"), /matches both a deposit and a withdrawal/);
+  assert.equal((await trackBridgeTransaction(client, "7", "withdrawal"))?.stage, "requested");
+  assert.equal((await trackBridgeTransaction(client, "7", "deposit"))?.stage, "finalized");
+  assert.equal((await trackBridgeTransaction(client, "0xabcd"))?.txType, "deposit");
+});
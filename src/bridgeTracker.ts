@@ -0,0 +1,159 @@
+import { GriphookClient, safeFetch } from "./client.js";
+import { readRecords, readString } from "./tokens.js";
+
+export const BRIDGE_TX_TYPES = ["deposit", "withdrawal"] as const;
+export type BridgeTxType = (typeof BRIDGE_TX_TYPES)[number];
+
+/** Lifecycle of a bridge transaction; "unknown" when the backend status is not recognized. */
+export const BRIDGE_STAGES = ["requested", "pendingApproval", "finalized", "failed", "unknown"] as const;
+export type BridgeStage = (typeof BRIDGE_STAGES)[number];
+
+/** Rows fetched per request while searching, and the most rows searched per type. */
+const PAGE_SIZE = 100;
+const MAX_SEARCHED = 1000;
+
+const ID_KEYS = ["withdrawalId", "depositId", "requestId", "id", "externalTxHash", "txHash", "transactionHash", "stratoTxHash", "hash"];
+const STATUS_KEYS = ["status", "bridgeStatus", "state"];
+
+const STAGE_WORDS: Record<Exclude<BridgeStage, "unknown">, string[]> = {
+  requested: ["initiated", "requested", "submitted", "created", "new"],
+  pendingApproval: ["pendingreview", "pendingapproval", "awaitingapproval", "review", "approved", "pending", "processing", "inprogress"],
+  finalized: ["completed", "complete", "finalized", "success", "succeeded", "confirmed", "executed", "done"],
+  failed: ["aborted", "failed", "failure", "rejected", "cancelled", "canceled", "reverted", "expired", "error"],
+};
+
+/** Numeric states of the bridge contract (NONE is never listed). */
+const STAGE_CODES: Record<BridgeTxType, Record<string, BridgeStage>> = {
+  withdrawal: { "1": "requested", "2": "pendingApproval", "3": "finalized", "4": "failed" },
+  deposit: { "1": "requested", "2": "finalized", "3": "failed" },
+};
+
+/** Whether a stage is final, so waiting can stop. */
+export function isFinalStage(stage: BridgeStage): boolean {
+  return stage === "finalized" || stage === "failed";
+}
+
+/** Map a backend status (name or contract enum value) to a lifecycle stage. */
+export function bridgeStage(status: string | undefined, txType: BridgeTxType): BridgeStage {
+  if (status === undefined) return "unknown";
+  const word = status.toLowerCase().replace(/[^a-z0-9]/g, "");
+  if (/^\d+$/.test(word)) return STAGE_CODES[txType][word] ?? "unknown";
+  for (const [stage, words] of Object.entries(STAGE_WORDS) as [BridgeStage, string[]][]) {
+    if (words.includes(word)) return stage;
+  }
+  return "unknown";
+}
+
+/** Preferred identifier of a bridge transaction: the request id, else a transaction hash. */
+export function bridgeTransactionId(record: Record<string, unknown>): string | undefined {
+  return readString(record, ID_KEYS);
+}
+
+export function bridgeStatus(record: Record<string, unknown>): string | undefined {
+  return readString(record, STATUS_KEYS);
+}
+
+function normalizeId(value: string): string {
+  return value.trim().toLowerCase().replace(/^0x/, "");
+}
+
+/** The transaction whose request id or any of its hashes equals id (case-insensitive, 0x optional). */
+export function findBridgeTransaction(records: Record<string, unknown>[], id: string): Record<string, unknown> | undefined {
+  const wanted = normalizeId(id);
+  return records.find((record) =>
+    ID_KEYS.some((key) => {
+      const value = record[key];
+      return (typeof value === "string" || typeof value === "number") && normalizeId(String(value)) === wanted;
+    }));
+}
+
+export type TrackedBridgeTransaction = {
+  txType: BridgeTxType;
+  stage: BridgeStage;
+  status: string | null;
+  transaction: Record<string, unknown>;
+};
+
+/**
+ * Look id up in /bridge/transactions/{txType}. Pages are searched until a match, the last
+ * page or MAX_SEARCHED rows.
+ */
+async function searchBridgeTransactions(
+  client: GriphookClient,
+  id: string,
+  txType: BridgeTxType,
+): Promise<TrackedBridgeTransaction | undefined> {
+  for (let offset = 0; offset < MAX_SEARCHED; offset += PAGE_SIZE) {
+    const data = await safeFetch(client, "get", `/bridge/transactions/${txType}`, { params: { limit: PAGE_SIZE, offset } });
+    const rows = readRecords(data);
+    const transaction = findBridgeTransaction(rows, id);
+    if (transaction) {
+      const status = bridgeStatus(transaction);
+      return { txType, stage: bridgeStage(status, txType), status: status ?? null, transaction };
+    }
+    // A short page is the last one; a longer one means the backend ignored limit and sent everything.
+    if (rows.length !== PAGE_SIZE) break;
+  }
+  return undefined;
+}
+
+/**
+ * Look id up in the txType list, or in both lists when txType is omitted. Deposit and
+ * withdrawal request ids are numbered separately, so an id found in both is ambiguous and
+ * throws. Returns undefined when no transaction matches or the endpoints are unavailable.
+ */
+export async function trackBridgeTransaction(
+  client: GriphookClient,
+  id: string,
+  txType?: BridgeTxType,
+): Promise<TrackedBridgeTransaction | undefined> {
+  if (txType) return searchBridgeTransactions(client, id, txType);
+
+  const [deposit, withdrawal] = await Promise.all(BRIDGE_TX_TYPES.map((type) => searchBridgeTransactions(client, id, type)));
+  if (deposit && withdrawal) {
+    throw new Error(`Bridge transaction ${id} matches both a deposit and a withdrawal. Set txType to choose one.`);
+  }
+  return deposit ?? withdrawal;
+}
+
+export type BridgeWait = {
+  tracked?: TrackedBridgeTransaction;
+  /** The timeout passed before the transaction reached a final stage. */
+  timedOut: boolean;
+  waitedMs: number;
+};
+
+/**
+ * Poll trackBridgeTransaction until the transaction is finalized or failed, the timeout
+ * passes or signal aborts. onProgress runs after every poll that has not finished.
+ */
+export async function waitForBridgeTransaction(
+  client: GriphookClient,
+  id: string,
+  txType: BridgeTxType | undefined,
+  options: {
+    timeoutMs: number;
+    intervalMs: number;
+    signal?: AbortSignal;
+    onProgress?: (tracked: TrackedBridgeTransaction | undefined, elapsedMs: number) => Promise<void>;
+  },
+): Promise<BridgeWait> {
+  const started = Date.now();
+  for (;;) {
+    const tracked = await trackBridgeTransaction(client, id, txType);
+    const waitedMs = Date.now() - started;
+    if (tracked && isFinalStage(tracked.stage)) return { tracked, timedOut: false, waitedMs };
+    if (waitedMs >= options.timeoutMs) return { tracked, timedOut: true, waitedMs };
+    if (options.signal?.aborted) return { tracked, timedOut: false, waitedMs };
+    await options.onProgress?.(tracked, waitedMs);
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener("abort", done);
+        resolve();
+      };
+      const timer = setTimeout(done, Math.min(options.intervalMs, options.timeoutMs - waitedMs));
+      options.signal?.addEventListener("abort", done);
+    });
+  }
+}
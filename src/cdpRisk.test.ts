@@ -0,0 +1,49 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { VaultState, applyVaultChange, measureVault, stabilityFeeAprPercent } from "./cdpRisk.js";
+
+const E18 = 10n ** 18n;
+
+const vault: VaultState = {
+  asset: "bbbb000000000000000000000000000000000002",
+  symbol: "ETHST",
+  decimals: 18,
+  collateral: 2n * E18,
+  debt: 3000n * E18,
+  price: 3000n * E18,
+  liquidationRatio: 15n * E18 / 10n,
+};
+
+test("measures collateralization, liquidation price and limits", () => {
+  const metrics = measureVault(vault, 1000);
+  assert.equal(metrics.collateralizationRatioPercent, "200");
+  assert.equal(metrics.liquidationRatioPercent, "150");
+  assert.equal(metrics.liquidationPrice, "2250");
+  assert.equal(metrics.maxMint, "1000");
+  assert.equal(metrics.maxWithdraw, "0.5");
+  assert.equal(metrics.atRisk, false);
+
+  const empty = measureVault({ ...vault, debt: 0n }, 1000);
+  assert.equal(empty.collateralizationRatioPercent, null);
+  assert.equal(empty.liquidationPrice, null);
+  assert.equal(empty.maxWithdraw, "2");
+});
+
+test("applies what-if changes and flags vaults near liquidation", () => {
+  const shocked = applyVaultChange(vault, { priceChangeBps: -2000 });
+  const metrics = measureVault(shocked.vault, 1000);
+  assert.equal(metrics.collateralizationRatioPercent, "160");
+  assert.equal(metrics.atRisk, true);
+  assert.deepEqual(shocked.warnings, []);
+
+  const minted = applyVaultChange(vault, { deposit: E18, mint: 3000n * E18 });
+  assert.equal(measureVault(minted.vault, 0).collateralizationRatioPercent, "150");
+
+  const overdrawn = applyVaultChange(vault, { mint: 2000n * E18 });
+  assert.deepEqual(overdrawn.warnings, ["the vault would be below liquidationRatio and could be liquidated"]);
+});
+
+test("annualizes the per-second stability fee", () => {
+  assert.equal(stabilityFeeAprPercent(10n ** 27n), "0");
+  assert.equal(stabilityFeeAprPercent(10n ** 27n + 1_547_125_957_000_000_000n), "5.00");
+});
@@ -0,0 +1,172 @@
+import { GriphookClient, safeFetch } from "./client.js";
+import { firstBaseUnits, formatFixed, formatUnits } from "./amounts.js";
+import { PRICE_DECIMALS, fetchOraclePrice } from "./oracle.js";
+import { fetchTokenInfo, normalizeAddress, readRecords, readTokenAddress, toTokenInfo } from "./tokens.js";
+
+/** liquidationRatio is a WAD (1e18 = 100%); debt is USDST with 18 decimals. */
+const WAD = 10n ** 18n;
+const RAY = 10n ** 27n;
+const BPS = 10_000n;
+const SECONDS_PER_YEAR = 31_536_000;
+
+export type VaultState = {
+  asset: string;
+  symbol?: string;
+  decimals: number;
+  /** Collateral in base units. */
+  collateral: bigint;
+  /** USDST debt in base units, including accrued stability fee. */
+  debt: bigint;
+  /** USD per whole collateral token, PRICE_DECIMALS fixed point. */
+  price: bigint;
+  liquidationRatio: bigint;
+};
+
+export type VaultMetrics = {
+  collateral: string;
+  price: string;
+  collateralValue: string;
+  debt: string;
+  /** Null when there is no debt. */
+  collateralizationRatioPercent: string | null;
+  liquidationRatioPercent: string;
+  /** Collateral price at which the vault reaches liquidationRatio; null when there is no debt. */
+  liquidationPrice: string | null;
+  maxMint: string;
+  maxWithdraw: string;
+  /** Collateralization is at or below liquidationRatio plus the margin. */
+  atRisk: boolean;
+};
+
+export type VaultChange = {
+  deposit?: bigint;
+  withdraw?: bigint;
+  mint?: bigint;
+  repay?: bigint;
+  priceChangeBps?: number;
+};
+
+function collateralValue(vault: VaultState): bigint {
+  return (vault.collateral * vault.price) / 10n ** BigInt(vault.decimals);
+}
+
+/**
+ * Measure a vault. maxMint and maxWithdraw are computed from liquidationRatio alone and
+ * ignore debt floors and ceilings; the backend's own limits are authoritative for the
+ * current vault.
+ */
+export function measureVault(vault: VaultState, marginBps: number): VaultMetrics {
+  const value = collateralValue(vault);
+  // Debt the collateral can carry at exactly liquidationRatio.
+  const debtLimit = vault.liquidationRatio > 0n ? (value * WAD) / vault.liquidationRatio : 0n;
+  // Collateral needed to keep the current debt at liquidationRatio.
+  const required = vault.price > 0n
+    ? (vault.debt * vault.liquidationRatio * 10n ** BigInt(vault.decimals)) / (vault.price * WAD)
+    : vault.collateral;
+  const ratio = vault.debt > 0n ? (value * WAD) / vault.debt : undefined;
+  const threshold = (vault.liquidationRatio * (BPS + BigInt(marginBps))) / BPS;
+
+  return {
+    collateral: formatUnits(vault.collateral, vault.decimals),
+    price: formatFixed(vault.price, PRICE_DECIMALS, 6),
+    collateralValue: formatFixed(value, PRICE_DECIMALS, 2),
+    debt: formatFixed(vault.debt, 18, 2),
+    collateralizationRatioPercent: ratio === undefined ? null : formatFixed(ratio * 100n, 18, 2),
+    liquidationRatioPercent: formatFixed(vault.liquidationRatio * 100n, 18, 2),
+    liquidationPrice: vault.debt > 0n && vault.collateral > 0n
+      ? formatFixed((vault.debt * vault.liquidationRatio * 10n ** BigInt(vault.decimals)) / (vault.collateral * WAD), PRICE_DECIMALS, 6)
+      : null,
+    maxMint: formatFixed(debtLimit > vault.debt ? debtLimit - vault.debt : 0n, 18, 2),
+    maxWithdraw: formatUnits(vault.collateral > required ? vault.collateral - required : 0n, vault.decimals),
+    atRisk: ratio !== undefined && ratio <= threshold,
+  };
+}
+
+/** Apply a what-if change to a vault. Changes the protocol would reject are clamped and reported. */
+export function applyVaultChange(vault: VaultState, change: VaultChange): { vault: VaultState; warnings: string[] } {
+  const next = { ...vault };
+  const warnings: string[] = [];
+  if (change.priceChangeBps !== undefined) {
+    next.price = (next.price * BigInt(10_000 + change.priceChangeBps)) / BPS;
+  }
+  if (change.deposit) next.collateral += change.deposit;
+  if (change.withdraw) {
+    if (change.withdraw > next.collateral) {
+      warnings.push(`withdraw: only ${formatUnits(next.collateral, next.decimals)} ${next.symbol ?? next.asset} is deposited`);
+    }
+    next.collateral = change.withdraw > next.collateral ? 0n : next.collateral - change.withdraw;
+  }
+  if (change.repay) {
+    if (change.repay > next.debt) warnings.push(`repay: only ${formatUnits(next.debt, 18)} USDST is owed`);
+    next.debt = change.repay > next.debt ? 0n : next.debt - change.repay;
+  }
+  if (change.mint) next.debt += change.mint;
+
+  if (next.debt > 0n && (collateralValue(next) * WAD) / next.debt < next.liquidationRatio) {
+    warnings.push("the vault would be below liquidationRatio and could be liquidated");
+  }
+  return { vault: next, warnings };
+}
+
+/** Annual rate, in percent, of a per-second stability fee factor in RAY (1e27 = 0%). */
+export function stabilityFeeAprPercent(rate: bigint): string {
+  if (rate <= RAY) return "0";
+  const perSecond = Number(rate - RAY) / Number(RAY);
+  return (Math.expm1(SECONDS_PER_YEAR * Math.log1p(perSecond)) * 100).toFixed(2);
+}
+
+export type VaultSnapshot = {
+  state: VaultState;
+  config: Record<string, unknown>;
+  /** Stability fee accrued so far, when the backend reports it. */
+  accruedFee?: bigint;
+  stabilityFeeRate?: bigint;
+};
+
+/**
+ * Read one collateral asset's vault: the vault entry (from /cdp/vaults or
+ * /cdp/vaults/{asset}) combined with /cdp/config/{asset} and, when the vault carries no
+ * price, the oracle.
+ */
+export async function loadVault(client: GriphookClient, asset: string, vault?: Record<string, unknown>): Promise<VaultSnapshot> {
+  const [config, fetched] = await Promise.all([
+    safeFetch<Record<string, unknown>>(client, "get", `/cdp/config/${asset}`),
+    vault ? Promise.resolve(vault) : safeFetch<Record<string, unknown>>(client, "get", `/cdp/vaults/${asset}`),
+  ]);
+  const entry = fetched && typeof fetched === "object" ? fetched : {};
+  const merged = { ...config, ...entry };
+  const embedded = entry.asset && typeof entry.asset === "object" ? entry.asset : entry;
+  const info = toTokenInfo(asset, embedded);
+  const token = info.decimalsAssumed ? (await fetchTokenInfo(client, asset)) ?? info : info;
+
+  return {
+    state: {
+      asset,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      collateral: firstBaseUnits(entry, ["collateralAmount", "collateral", "amount"]) ?? 0n,
+      debt: firstBaseUnits(entry, ["debtAmount", "debt", "totalDebt"]) ?? 0n,
+      price: firstBaseUnits(entry, ["price", "assetPrice", "collateralPrice", "oraclePrice"]) ?? (await fetchOraclePrice(client, asset)) ?? 0n,
+      liquidationRatio: firstBaseUnits(merged, ["liquidationRatio"]) ?? 0n,
+    },
+    config: config ?? {},
+    accruedFee: firstBaseUnits(entry, ["accruedStabilityFee", "accruedFee", "accruedInterest"]),
+    stabilityFeeRate: firstBaseUnits(merged, ["stabilityFeeRate"]),
+  };
+}
+
+/** Every vault of the signed-in user (GET /cdp/vaults), or just the one for asset. */
+export async function loadVaults(client: GriphookClient, asset?: string): Promise<VaultSnapshot[]> {
+  if (asset) return [await loadVault(client, asset)];
+  const vaults = readRecords(await safeFetch(client, "get", "/cdp/vaults"));
+  const snapshots = await Promise.all(vaults.map((vault) => {
+    const address = readTokenAddress(vault.asset) ?? readTokenAddress(vault.address);
+    return address ? loadVault(client, address, vault) : undefined;
+  }));
+  const seen = new Set<string>();
+  return snapshots.filter((snapshot): snapshot is VaultSnapshot => {
+    if (!snapshot || seen.has(normalizeAddress(snapshot.state.asset))) return false;
+    seen.add(normalizeAddress(snapshot.state.asset));
+    return true;
+  });
+}
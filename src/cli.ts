@@ -2,8 +2,15 @@
 import "dotenv/config";
 import { loginCommand, logoutCommand, statusCommand, tokenCommand, getCredentialsPath } from "./login.js";
 import { runToolsListCommand, runToolDescribeCommand, runToolByName } from "./mcpCli.js";
+import { auditCommand } from "./audit.js";
+import { doctorCommand } from "./health.js";
 
-const args = process.argv.slice(2);
+const rawArgs = process.argv.slice(2);
+// --read-only applies to every command (serve, tools, direct tool calls).
+if (rawArgs.includes("--read-only")) {
+  process.env.GRIPHOOK_READ_ONLY = "true";
+}
+const args = rawArgs.filter((arg) => arg !== "--read-only");
 const command = args[0];
 
 function printUsage(): void {
@@ -21,8 +28,13 @@ Commands:
   token     Print Bearer token for MCP client configuration
   serve     Start the MCP server (default)
   tools     List available MCP tools
+  audit     Query the tool call audit log (griphook audit --help)
+  doctor    Check the backend, identity provider and credentials (--json)
   help      Show this help message
 
+Options:
+  --read-only   Only expose read-only tools (same as GRIPHOOK_READ_ONLY=true)
+
 Authentication:
   Run 'griphook login' to authenticate via browser OAuth.
   Credentials are stored in: ${getCredentialsPath()}
@@ -65,6 +77,14 @@ async function main(): Promise<void> {
       await start();
       break;
 
+    case "audit":
+      await auditCommand(args.slice(1));
+      break;
+
+    case "doctor":
+      await doctorCommand(args.slice(1));
+      break;
+
     case "tools": {
       const toolArg = args[1];
       if (toolArg && !toolArg.startsWith("--")) {
@@ -2,7 +2,9 @@ import axios, { AxiosInstance, AxiosError, Method } from "axios";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
 import { GriphookConfig } from "./config.js";
 import { OAuthClient } from "./auth.js";
-import { getRequestAccessToken } from "./requestContext.js";
+import { TokenRegistry } from "./tokenRegistry.js";
+import { backendRequestDuration, endpointTemplate } from "./metrics.js";
+import { getRequestAccessToken, getDryRunRecorder, recordBackendCall, requestContext } from "./requestContext.js";
 
 export type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
 
@@ -24,12 +26,54 @@ interface StratoErrorResponse {
   message?: string;
 }
 
+function isAuthOrSessionError(err: unknown): boolean {
+  if (!(err instanceof Error)) return false;
+  const message = err.message.toLowerCase();
+  return (
+    message.includes("not logged in") ||
+    message.includes("session expired") ||
+    message.includes("re-authenticate") ||
+    message.includes("unauthorized") ||
+    message.includes("forbidden") ||
+    message.includes("http 401") ||
+    message.includes("http 403")
+  );
+}
+
+function isEndpointUnavailableError(err: unknown): boolean {
+  if (!(err instanceof Error)) return false;
+  const message = err.message.toLowerCase();
+  return (
+    message.includes("http 404") ||
+    message.includes("http 405") ||
+    message.includes("http 501") ||
+    message.includes("not found") ||
+    message.includes("cannot get")
+  );
+}
+
+// Helper to safely fetch an optional endpoint, returning undefined when unavailable.
+// Auth/session failures are always propagated so callers don't get empty snapshots.
+export async function safeFetch<T>(client: GriphookClient, method: HttpMethod, path: string, options?: Parameters<typeof client.request>[2]): Promise<T | undefined> {
+  try {
+    return await client.request<T>(method, path, options);
+  } catch (err) {
+    if (isAuthOrSessionError(err) || !isEndpointUnavailableError(err)) {
+      throw err;
+    }
+    return undefined;
+  }
+}
+
 export class GriphookClient {
   private http: AxiosInstance;
   private oauth: OAuthClient;
+  /** Cached token catalog used to resolve symbols and names to addresses. */
+  readonly tokens: TokenRegistry;
 
   constructor(config: GriphookConfig) {
     this.oauth = new OAuthClient();
+    this.tokens = new TokenRegistry(this, config.tokenCacheTtlMs);
     this.http = axios.create({
       baseURL: config.apiBaseUrl,
       timeout: config.timeoutMs,
@@ -42,6 +86,14 @@ export class GriphookClient {
     headers?: Record<string, string>;
   }): Promise<T> {
     const url = path.startsWith("/") ? path : `/${path}`;
+
+    // Dry runs capture state-changing requests instead of sending them.
+    const recorder = getDryRunRecorder();
+    if (recorder && method !== "get") {
+      recorder.push({ method, path: url, params: options?.params, data: options?.data });
+      return { dryRun: true } as T;
+    }
+
     const headers: Record<string, string> = { ...(options?.headers ?? {}) };
 
     // In hosted mode, use the request-scoped access token from the middleware.
@@ -51,6 +103,9 @@ export class GriphookClient {
     headers["x-user-access-token"] = token;
     headers["authorization"] = `Bearer ${token}`;
 
+    recordBackendCall(method, url);
+    const done = backendRequestDuration.startTimer();
+    const labels = { method: method.toUpperCase(), endpoint: endpointTemplate(url) };
     try {
       const response = await this.http.request<T>({
         method: method as Method,
@@ -59,8 +114,13 @@ export class GriphookClient {
         data: options?.data,
         headers,
       });
+      done({ ...labels, status: String(response.status) });
+      if (method !== "get") {
+        requestContext.getStore()?.sentWrites?.push({ method, path: url, params: options?.params, data: options?.data });
+      }
       return response.data;
     } catch (err) {
+      done({ ...labels, status: axios.isAxiosError(err) && err.response ? String(err.response.status) : "error" });
       throw new McpError(ErrorCode.InternalError, this.formatAxiosError(err));
     }
   }
@@ -1,3 +1,7 @@
+import os from "os";
+import path from "path";
+import { Policy, loadPolicyFile } from "./policy.js";
+
 export type OAuthConfig = {
   clientId: string;
   clientSecret: string;
@@ -9,19 +13,88 @@ export type HostedConfig = {
   publicUrl: string;
 };
 
+export type ConfirmationConfig = {
+  /** Require explicit user approval before value-moving tools run. */
+  enabled: boolean;
+  /**
+   * Human-unit amounts keyed by token symbol or address. Calls moving at most this amount
+   * run without confirmation. "*" sets the default for unlisted tokens (otherwise 0).
+   */
+  thresholds: Record<string, string>;
+  /** Lifetime of a two-phase confirmation token. */
+  tokenTtlMs: number;
+};
+
+export type SubscriptionConfig = {
+  /** How often each session's subscriptions are checked against the backend. */
+  pollIntervalMs: number;
+  maxPerSession: number;
+};
+
+/** Hosted-mode request limits. Per-user limits are keyed on the token's subject. */
+export type RateLimitConfig = {
+  /** Read-only tool calls per user per minute. */
+  readPerMinute: number;
+  /** State-changing tool calls per user per minute. */
+  writePerMinute: number;
+  /** HTTP requests to the MCP endpoints per client IP per minute. */
+  ipPerMinute: number;
+  /** Tool calls a user may have in flight at once. */
+  maxConcurrent: number;
+};
+
+export type AuditConfig = {
+  /** JSONL file every tool call is appended to. Null when auditing is off. */
+  file: string | null;
+  /** Size at which the file is rotated to <file>.1. */
+  maxBytes: number;
+  /** Rotated files kept (<file>.1 to <file>.<maxFiles>). */
+  maxFiles: number;
+};
+
+/**
+ * Prometheus /metrics. Served only when protected: on a separate admin port, behind a
+ * bearer token on the MCP HTTP port, or both.
+ */
+export type MetricsConfig = {
+  /** Admin port for /metrics. Null serves /metrics on the MCP HTTP port (token required). */
+  port: number | null;
+  host: string;
+  /** Bearer token scrapers must send. */
+  token: string | null;
+};
+
 export type GriphookConfig = {
   apiBaseUrl: string;
   oauth: OAuthConfig | null;
   timeoutMs: number;
+  /** How long the token catalog used for symbol resolution is cached. */
+  tokenCacheTtlMs: number;
   http: {
     enabled: boolean;
     host: string;
     port: number;
     path: string;
     ssePath: string;
+    /** Idle time after which an HTTP session and its subscriptions are dropped. */
+    sessionTtlMs: number;
+    /** Open sessions allowed per user in hosted mode; further initialize requests get a 429. */
+    maxSessionsPerUser: number;
   };
   /** Hosted mode configuration. When set, the HTTP server requires Bearer token auth. */
   hosted: HostedConfig | null;
+  /** Enforced by the HTTP server in hosted mode only. */
+  rateLimits: RateLimitConfig;
+  /** When true, only read-only tools are registered and strato.rpc rejects state-changing methods. */
+  readOnly: boolean;
+  /** When true, every state-changing tool runs as a dry run and never sends transactions. */
+  dryRun: boolean;
+  confirmation: ConfirmationConfig;
+  /** Tool access and spending policy loaded from GRIPHOOK_POLICY_FILE. Null when no policy is configured. */
+  policy: Policy | null;
+  subscriptions: SubscriptionConfig;
+  audit: AuditConfig;
+  metrics: MetricsConfig;
 };
 
 function normalizeBaseUrl(value: string): string {
@@ -54,6 +127,26 @@ function parsePort(value: string | undefined, defaultValue: number): number {
   return Number.isFinite(parsed) && parsed > 0 ? parsed : defaultValue;
 }
 
+function parsePositiveNumber(value: string | undefined, defaultValue: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : defaultValue;
+}
+
+/**
+ * Parse "SYMBOL=amount" pairs, e.g. "USDST=100,ETHST=0.05,*=0".
+ */
+function parseThresholds(value: string | undefined): Record<string, string> {
+  const thresholds: Record<string, string> = {};
+  if (!value) return thresholds;
+  for (const entry of value.split(",")) {
+    const [key, amount] = entry.split("=").map((part) => part.trim());
+    if (key && amount && /^\d*\.?\d+$/.test(amount)) {
+      thresholds[key] = amount;
+    }
+  }
+  return thresholds;
+}
+
 function normalizePath(value: string): string {
   if (!value) return "/mcp";
   return value.startsWith("/") ? value : `/${value}`;
@@ -75,6 +168,21 @@ function loadOAuthConfig(): OAuthConfig | null {
   return null;
 }
 
+/**
+ * GRIPHOOK_AUDIT_LOG names the audit file (a leading ~/ is the home directory);
+ * "off" (or false/none) disables auditing.
+ */
+function loadAuditConfig(): AuditConfig {
+  const setting = process.env.GRIPHOOK_AUDIT_LOG?.trim();
+  const disabled = setting !== undefined && ["off", "false", "none", "0"].includes(setting.toLowerCase());
+  const file = setting?.startsWith("~/") ? path.join(os.homedir(), setting.slice(2)) : setting;
+  return {
+    file: disabled ? null : file || path.join(os.homedir(), ".griphook", "audit.jsonl"),
+    maxBytes: parsePositiveNumber(process.env.GRIPHOOK_AUDIT_MAX_BYTES, 10 * 1024 * 1024),
+    maxFiles: Math.floor(parsePositiveNumber(process.env.GRIPHOOK_AUDIT_MAX_FILES, 5)),
+  };
+}
+
 /**
  * Load hosted mode configuration if GRIPHOOK_PUBLIC_URL is set.
  * Hosted mode enables OAuth-protected HTTP endpoints for multi-user deployments.
@@ -100,13 +208,40 @@ export function loadConfig(): GriphookConfig {
     apiBaseUrl,
     oauth: loadOAuthConfig(),
     timeoutMs: Number.isFinite(timeoutEnv) ? timeoutEnv : 15000,
+    tokenCacheTtlMs: parsePositiveNumber(process.env.GRIPHOOK_TOKEN_CACHE_TTL_MS, 10 * 60 * 1000),
     http: {
       enabled: parseBoolean(process.env.GRIPHOOK_HTTP_ENABLED, true),
       host: httpHost,
       port: httpPort,
       path: httpPath,
       ssePath: httpSsePath,
+      sessionTtlMs: parsePositiveNumber(process.env.GRIPHOOK_SESSION_TTL_MS, 30 * 60 * 1000),
+      maxSessionsPerUser: Math.floor(parsePositiveNumber(process.env.GRIPHOOK_MAX_SESSIONS_PER_USER, 10)),
     },
     hosted: loadHostedConfig(),
+    rateLimits: {
+      readPerMinute: parsePositiveNumber(process.env.GRIPHOOK_RATE_LIMIT_READ, 120),
+      writePerMinute: parsePositiveNumber(process.env.GRIPHOOK_RATE_LIMIT_WRITE, 20),
+      ipPerMinute: parsePositiveNumber(process.env.GRIPHOOK_RATE_LIMIT_IP, 600),
+      maxConcurrent: parsePositiveNumber(process.env.GRIPHOOK_MAX_CONCURRENT_CALLS, 4),
+    },
+    readOnly: parseBoolean(process.env.GRIPHOOK_READ_ONLY, false),
+    dryRun: parseBoolean(process.env.GRIPHOOK_DRY_RUN, false),
+    confirmation: {
+      enabled: parseBoolean(process.env.GRIPHOOK_CONFIRMATION, true),
+      thresholds: parseThresholds(process.env.GRIPHOOK_CONFIRMATION_THRESHOLDS),
+      tokenTtlMs: parsePositiveNumber(process.env.GRIPHOOK_CONFIRMATION_TTL_MS, 5 * 60 * 1000),
+    },
+    policy: process.env.GRIPHOOK_POLICY_FILE ? loadPolicyFile(process.env.GRIPHOOK_POLICY_FILE) : null,
+    subscriptions: {
+      pollIntervalMs: parsePositiveNumber(process.env.GRIPHOOK_SUBSCRIPTION_POLL_MS, 30 * 1000),
+      maxPerSession: parsePositiveNumber(process.env.GRIPHOOK_MAX_SUBSCRIPTIONS, 20),
+    },
+    audit: loadAuditConfig(),
+    metrics: {
+      port: process.env.GRIPHOOK_METRICS_PORT ? parsePort(process.env.GRIPHOOK_METRICS_PORT, 9464) : null,
+      host: process.env.GRIPHOOK_METRICS_HOST || "127.0.0.1",
+      token: process.env.GRIPHOOK_METRICS_TOKEN || null,
+    },
   };
 }
@@ -0,0 +1,112 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod";
+import { GriphookClient } from "./client.js";
+import { loadConfig } from "./config.js";
+import { resultPayload } from "./content.js";
+import { withConfirmation } from "./confirmation.js";
+import { ToolExtra, ToolHandler } from "./intercept.js";
+import { requestContext } from "./requestContext.js";
+
+const USDST = 10n ** 18n;
+/** Stands in for the SDK's request extra; its absence marks a direct CLI call. */
+const MCP_CALL = {} as NonNullable<ToolExtra>;
+
+function loadConfigWith(env: Record<string, string>) {
+  Object.assign(process.env, env);
+  try {
+    return loadConfig();
+  } finally {
+    for (const key of Object.keys(env)) delete process.env[key];
+  }
+}
+
+/** strato.lending.borrow behind withConfirmation, for a client without elicitation support. */
+function confirmedBorrow(env: Record<string, string> = {}) {
+  const config = loadConfigWith({ GRIPHOOK_CONFIRMATION_THRESHOLDS: "USDST=5", ...env });
+  const sent: Record<string, unknown>[] = [];
+  let registered: ToolHandler | undefined;
+  const collector = {
+    server: { getClientCapabilities: () => ({}) },
+    registerTool(_name: string, _config: unknown, handler: ToolHandler) {
+      registered = handler;
+    },
+  } as unknown as McpServer;
+  withConfirmation(collector, new GriphookClient(config), config).registerTool(
+    "strato.lending.borrow",
+    { title: "Borrow", inputSchema: z.object({ amount: z.string() }) },
+    async (input) => {
+      sent.push(input);
+      return { content: [] };
+    },
+  );
+  return { call: registered!, sent };
+}
+
+function payload(result: CallToolResult): Record<string, unknown> {
+  return resultPayload(result)[0] as Record<string, unknown>;
+}
+
+test("parses confirmation thresholds and ignores malformed entries", () => {
+  const config = loadConfigWith({ GRIPHOOK_CONFIRMATION_THRESHOLDS: "USDST=100, ETHST = 0.05,*=0,bad,GOLDST=abc,=1" });
+  assert.deepEqual(config.confirmation.thresholds, { USDST: "100", ETHST: "0.05", "*": "0" });
+});
+
+test("runs calls at or below the threshold without asking", async () => {
+  const { call, sent } = confirmedBorrow();
+  await call({ amount: (5n * USDST).toString() }, MCP_CALL);
+  assert.deepEqual(sent, [{ amount: (5n * USDST).toString() }]);
+});
+
+test("issues a confirmation token that approves only the same call once", async () => {
+  const { call, sent } = confirmedBorrow();
+  const input = { amount: (6n * USDST).toString() };
+
+  const asked = payload(await call(input, MCP_CALL));
+  assert.equal(asked.confirmationRequired, true);
+  assert.match(String(asked.summary), /Amount: 6 USDST/);
+  assert.deepEqual(sent, []);
+  const confirmationToken = String(asked.confirmationToken);
+
+  await assert.rejects(call({ amount: (7n * USDST).toString(), confirmationToken }, MCP_CALL), /issued for different inputs/);
+  await assert.rejects(
+    requestContext.run({ accessToken: "someone-else", user: "mallory" }, () => call({ ...input, confirmationToken }, MCP_CALL)),
+    /issued for different inputs/,
+  );
+  await assert.rejects(call({ ...input, confirmationToken: "made-up" }, MCP_CALL), /Confirmation token is invalid/);
+
+  await call({ ...input, confirmationToken }, MCP_CALL);
+  assert.deepEqual(sent, [input]);
+  await assert.rejects(call({ ...input, confirmationToken }, MCP_CALL), /Confirmation token is invalid/);
+});
+
+test("accepts a confirmation from the same user after a token refresh", async () => {
+  const { call, sent } = confirmedBorrow();
+  const input = { amount: (6n * USDST).toString() };
+  const asked = payload(await requestContext.run({ accessToken: "token-1", user: "alice" }, () => call(input, MCP_CALL)));
+
+  await requestContext.run({ accessToken: "token-2", user: "alice" }, () =>
+    call({ ...input, confirmationToken: asked.confirmationToken }, MCP_CALL));
+  assert.deepEqual(sent, [input]);
+});
+
+test("rejects expired confirmation tokens", async () => {
+  const { call, sent } = confirmedBorrow({ GRIPHOOK_CONFIRMATION_TTL_MS: "20" });
+  const input = { amount: (6n * USDST).toString() };
+  const { confirmationToken } = payload(await call(input, MCP_CALL));
+
+  await new Promise((resolve) => setTimeout(resolve, 40));
+  await assert.rejects(call({ ...input, confirmationToken }, MCP_CALL), /expired/);
+  assert.deepEqual(sent, []);
+});
+
+test("does not ask during dry runs or for direct CLI calls", async () => {
+  const { call, sent } = confirmedBorrow();
+  const input = { amount: (6n * USDST).toString() };
+
+  await call(input, undefined);
+  await requestContext.run({ dryRunRecorder: [] }, () => call(input, MCP_CALL));
+  assert.deepEqual(sent, [input, input]);
+});
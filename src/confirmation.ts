@@ -0,0 +1,155 @@
+import { createHash, randomBytes } from "crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ElicitResultSchema, ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod";
+import { GriphookClient } from "./client.js";
+import { ConfirmationConfig, GriphookConfig } from "./config.js";
+import { parseUnits } from "./amounts.js";
+import { toContent } from "./content.js";
+import { interceptTools, ToolExtra } from "./intercept.js";
+import { getDryRunRecorder, requestContext } from "./requestContext.js";
+import { getToolMetadata } from "./toolMetadata.js";
+import { ResolvedValueFlow, describeValueFlows, resolveValueFlows } from "./valueFlow.js";
+
+type PendingConfirmation = {
+  fingerprint: string;
+  expiresAt: number;
+};
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Fingerprint a call so a confirmation token only approves the exact same call by the same caller.
+ * The caller is the token subject, so a token refreshed between the two calls still matches.
+ */
+function fingerprintCall(tool: string, input: Record<string, unknown>): string {
+  const caller = requestContext.getStore()?.user ?? "local";
+  return createHash("sha256").update(stableStringify([tool, caller, input])).digest("hex");
+}
+
+function needsConfirmation(flow: ResolvedValueFlow, config: ConfirmationConfig): boolean {
+  // Amounts decided on-chain ("max"/"all" tools) cannot be compared to a threshold.
+  if (!flow.amount) return true;
+
+  const thresholds = new Map(Object.entries(config.thresholds).map(([key, value]) => [key.toLowerCase(), value]));
+  const keys = [flow.token.address, flow.token.symbol, "*"].filter((key): key is string => Boolean(key));
+  const threshold = keys.map((key) => thresholds.get(key.toLowerCase())).find((value) => value !== undefined) ?? "0";
+  return flow.amount.value > parseUnits(threshold, flow.token.decimals);
+}
+
+function supportsElicitation(server: McpServer): boolean {
+  return Boolean(server.server.getClientCapabilities()?.elicitation);
+}
+
+async function elicitApproval(extra: NonNullable<ToolExtra>, summary: string, timeout: number): Promise<boolean> {
+  const result = await extra.sendRequest(
+    {
+      method: "elicitation/create",
+      params: {
+        message: `Approve this transaction?\n\n${summary}`,
+        requestedSchema: {
+          type: "object",
+          properties: {
+            approve: { type: "boolean", title: "Approve", description: "Send this transaction" },
+          },
+          required: ["approve"],
+        },
+      },
+    },
+    ElicitResultSchema,
+    { timeout },
+  );
+  return result.action === "accept" && result.content?.approve === true;
+}
+
+/**
+ * Require explicit user approval before value-moving tools run.
+ *
+ * Clients that support MCP elicitation are asked directly. Other clients get a
+ * two-phase protocol: the first call returns a summary and a confirmationToken,
+ * and the tool only runs when called again with that token and identical inputs.
+ * Direct CLI invocations (`griphook <tool> ...`, which pass no request extra) are typed
+ * by the operator and count as confirmed; every MCP call, stdio or HTTP, has an extra.
+ */
+export function withConfirmation(server: McpServer, client: GriphookClient, config: GriphookConfig): McpServer {
+  const pending = new Map<string, PendingConfirmation>();
+
+  const cleanup = () => {
+    const now = Date.now();
+    for (const [token, entry] of pending) {
+      if (now > entry.expiresAt) pending.delete(token);
+    }
+  };
+
+  return interceptTools(server, (name, { config: toolConfig, handler }) => {
+    if (!config.confirmation.enabled || !getToolMetadata(name).movesValue) {
+      return { config: toolConfig, handler };
+    }
+
+    return {
+      config: {
+        ...toolConfig,
+        inputSchema: toolConfig.inputSchema.extend({
+          confirmationToken: z.string().optional().describe("Token returned by a previous call that asked for confirmation"),
+        }),
+      },
+      handler: async ({ confirmationToken, ...input }, extra) => {
+        // No extra means a direct CLI call; dry runs send nothing.
+        if (!extra || getDryRunRecorder()) {
+          return handler(input, extra);
+        }
+
+        const flows = await resolveValueFlows(client, name, input);
+        if (!flows.some((flow) => needsConfirmation(flow, config.confirmation))) {
+          return handler(input, extra);
+        }
+
+        const summary = describeValueFlows(flows, toolConfig.title);
+        const fingerprint = fingerprintCall(name, input);
+        cleanup();
+
+        if (typeof confirmationToken === "string") {
+          const entry = pending.get(confirmationToken);
+          if (!entry || entry.fingerprint !== fingerprint) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              "Confirmation token is invalid, expired, or was issued for different inputs. Call again without confirmationToken to get a new one.",
+            );
+          }
+          pending.delete(confirmationToken);
+          return handler(input, extra);
+        }
+
+        if (supportsElicitation(server)) {
+          const approved = await elicitApproval(extra, summary, config.confirmation.tokenTtlMs);
+          if (!approved) {
+            return toContent({ executed: false, reason: "User did not approve the transaction", summary }, "Transaction cancelled");
+          }
+          return handler(input, extra);
+        }
+
+        const token = randomBytes(16).toString("base64url");
+        const expiresAt = Date.now() + config.confirmation.tokenTtlMs;
+        pending.set(token, { fingerprint, expiresAt });
+
+        return toContent({
+          executed: false,
+          confirmationRequired: true,
+          summary,
+          confirmationToken: token,
+          expiresAt: new Date(expiresAt).toISOString(),
+          instructions: "Show the summary to the user. Only after they approve, call this tool again with the same inputs plus confirmationToken.",
+        }, "Confirmation required");
+      },
+    };
+  });
+}
@@ -0,0 +1,26 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import * as z from "zod";
+import { lenientOutputSchema, summarizePayload, toStructuredContent } from "./content.js";
+
+test("lenient output schemas accept mismatching fields instead of failing", () => {
+  const schema = lenientOutputSchema({
+    pools: z.array(z.object({ address: z.string() })),
+    error: z.string(),
+  });
+
+  assert.equal(schema.safeParse({ pools: [{ address: "abc" }] }).success, true);
+  assert.equal(schema.safeParse({ pools: { data: [] } }).success, true);
+  assert.equal(schema.safeParse({ pools: [{ address: 1 }], error: 2 }).success, true);
+});
+
+test("structured results carry the payload and a compact summary", () => {
+  const payload = { pools: [{ a: 1 }, { a: 2 }], safety: { apy: 4.2, paused: false }, error: "x" };
+  assert.equal(summarizePayload(payload), "- pools: 2 items\n- safety: apy=4.2, paused=false\n- error: x");
+
+  const result = toStructuredContent(payload, "Example");
+  assert.deepEqual(result.structuredContent, payload);
+  assert.equal(result.content.length, 1);
+  assert.equal(result.content[0].type, "text");
+  assert.match((result.content[0] as { text: string }).text, /^\*\*Example\*\*\n- pools: 2 items/);
+});
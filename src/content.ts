@@ -0,0 +1,74 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod";
+
+export function toContent(payload: unknown, label?: string): CallToolResult {
+  const content: CallToolResult["content"] = [];
+  if (label) {
+    content.push({ type: "text", text: `**${label}**` });
+  }
+  content.push({ type: "text", text: JSON.stringify(payload, null, 2) });
+  return { content };
+}
+
+/** The result payload: structuredContent, or the JSON text blocks of a toContent result. */
+export function resultPayload(result: CallToolResult): unknown[] {
+  if (result.structuredContent) return [result.structuredContent];
+  const payloads: unknown[] = [];
+  for (const block of result.content ?? []) {
+    if (block.type !== "text") continue;
+    try {
+      payloads.push(JSON.parse(block.text));
+    } catch {
+      // Labels and plain-text messages
+    }
+  }
+  return payloads;
+}
+
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? "" : "s"}`;
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    if (Array.isArray(record.data)) return describeValue(record.data);
+    const entries = Object.entries(record);
+    if (entries.length <= 6 && entries.every(([, entry]) => entry === null || typeof entry !== "object")) {
+      return entries.map(([key, entry]) => `${key}=${entry}`).join(", ");
+    }
+    const keys = entries.slice(0, 6).map(([key]) => key).join(", ");
+    return `object (${keys}${entries.length > 6 ? ", ..." : ""})`;
+  }
+  return String(value);
+}
+
+/**
+ * One line per top-level field: list sizes, small scalar objects inline, field names otherwise.
+ */
+export function summarizePayload(payload: Record<string, unknown>): string {
+  return Object.entries(payload).map(([key, value]) => `- ${key}: ${describeValue(value)}`).join("\n");
+}
+
+/**
+ * Typed tool result: the payload goes to structuredContent (validated against the tool's
+ * outputSchema) and the text block carries only a compact summary (by default one line
+ * per top-level field).
+ */
+export function toStructuredContent(payload: Record<string, unknown>, label: string, summary = summarizePayload(payload)): CallToolResult {
+  return {
+    content: [{ type: "text", text: `**${label}**\n${summary || "- no data"}\n(full data in structuredContent)` }],
+    structuredContent: payload,
+  };
+}
+
+/**
+ * Build an outputSchema whose fields never fail a call. A field that does not match
+ * its declared schema (e.g. the backend changed shape) is passed through unchanged.
+ * The declared schemas are still what clients see in tools/list.
+ */
+export function lenientOutputSchema(shape: Record<string, z.ZodType>): z.ZodObject<z.ZodRawShape> {
+  const fields = Object.fromEntries(Object.entries(shape).map(([key, schema]) => [
+    key,
+    // Validation only sees a mismatching field as missing; the result keeps the original value.
+    z.preprocess((value) => (value === undefined || schema.safeParse(value).success ? value : undefined), schema.optional()),
+  ]));
+  return z.object(fields);
+}
@@ -74,7 +74,7 @@ Events & RPC
 
 Config & Health
 - GET /config – public client config (e.g., Wagmi projectId, networkId).
-- GET /health – backend health.
+- GET /health – backend health (strato.health also checks the identity provider and your credentials).
 `;
 
 export function buildConfigDoc(config: GriphookConfig): string {
@@ -88,6 +88,11 @@ export function buildConfigDoc(config: GriphookConfig): string {
 - API base: ${config.apiBaseUrl}
 ${authInfo}
 - HTTP timeout: ${config.timeoutMs}ms
+- Read-only mode: ${config.readOnly ? "on (snapshot tools only)" : "off"}
+- Dry-run mode: ${config.dryRun ? "on (state-changing tools only preview)" : "off"}
+- Confirmation: ${config.confirmation.enabled ? "required for value-moving tools" : "off"}
+- Policy: ${config.policy ? "loaded from GRIPHOOK_POLICY_FILE" : "none"}
+- Audit log: ${config.audit.file ? "every tool call is recorded" : "off"}
 
 Authentication: Run 'griphook login' to authenticate via browser OAuth.
 
@@ -99,5 +104,25 @@ Optional environment variables:
 - GRIPHOOK_HTTP_PORT (default 3005)
 - GRIPHOOK_HTTP_PATH (default /mcp)
 - GRIPHOOK_HTTP_SSE_PATH (default {path}/events)
+- GRIPHOOK_SESSION_TTL_MS (default 1800000)
+- GRIPHOOK_READ_ONLY (default false)
+- GRIPHOOK_DRY_RUN (default false)
+- GRIPHOOK_CONFIRMATION (default true)
+- GRIPHOOK_CONFIRMATION_THRESHOLDS (e.g. USDST=100,*=0)
+- GRIPHOOK_CONFIRMATION_TTL_MS (default 300000)
+- GRIPHOOK_POLICY_FILE (path to a JSON tool/spending policy)
+- GRIPHOOK_AUDIT_LOG (default ~/.griphook/audit.jsonl; off disables)
+- GRIPHOOK_AUDIT_MAX_BYTES (default 10485760)
+- GRIPHOOK_AUDIT_MAX_FILES (default 5)
+- GRIPHOOK_SUBSCRIPTION_POLL_MS (default 30000)
+- GRIPHOOK_MAX_SUBSCRIPTIONS (default 20)
+- GRIPHOOK_TOKEN_CACHE_TTL_MS (default 600000)
+- GRIPHOOK_RATE_LIMIT_READ (default 120, hosted mode)
+- GRIPHOOK_RATE_LIMIT_WRITE (default 20, hosted mode)
+- GRIPHOOK_RATE_LIMIT_IP (default 600, hosted mode)
+- GRIPHOOK_MAX_CONCURRENT_CALLS (default 4, hosted mode)
+- GRIPHOOK_METRICS_PORT (admin port for Prometheus /metrics)
+- GRIPHOOK_METRICS_HOST (default 127.0.0.1)
+- GRIPHOOK_METRICS_TOKEN (bearer token for /metrics)
 `;
 }
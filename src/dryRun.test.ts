@@ -0,0 +1,93 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { GriphookClient } from "./client.js";
+import { loadConfig } from "./config.js";
+import { toContent } from "./content.js";
+import { buildDryRunReport, findBalance } from "./dryRun.js";
+import { RecordedRequest, collectSentWrites, requestContext } from "./requestContext.js";
+
+const TOKEN_A = "aaaa000000000000000000000000000000000001";
+const TOKEN_B = "bbbb000000000000000000000000000000000002";
+
+/** Serves read-only backend data by path; nothing else is expected to be requested. */
+function readOnlyClient(responses: Record<string, unknown>, requested: string[] = []): GriphookClient {
+  return {
+    async request(method: string, path: string) {
+      requested.push(`${method.toUpperCase()} ${path}`);
+      return responses[path];
+    },
+  } as unknown as GriphookClient;
+}
+
+test("records state-changing requests instead of sending them", async () => {
+  const client = new GriphookClient(loadConfig());
+  const recorded: RecordedRequest[] = [];
+  const writes: RecordedRequest[] = [];
+
+  const response = await requestContext.run({ dryRunRecorder: recorded }, () =>
+    collectSentWrites(writes, () => client.request("post", "/swap", { data: { amountIn: "5" } })));
+
+  assert.deepEqual(response, { dryRun: true });
+  assert.deepEqual(recorded, [{ method: "post", path: "/swap", params: undefined, data: { amountIn: "5" } }]);
+  // Nothing was sent, so policy limits do not count it.
+  assert.deepEqual(writes, []);
+});
+
+test("reports the captured requests, previews and balance checks for a swap", async () => {
+  const requested: string[] = [];
+  const reads = readOnlyClient({
+    "/swap-pools/pool1": { tokenA: { address: TOKEN_A, _symbol: "AAA", customDecimals: 2 }, tokenB: { address: TOKEN_B, _symbol: "BBB" } },
+    "/tokens/balance": [{ address: `0x${TOKEN_A}`, balance: "400" }],
+  }, requested);
+  const writes = new GriphookClient(loadConfig());
+  const input = { poolAddress: "pool1", isAToB: true, amountIn: "500", minAmountOut: "0" };
+
+  const report = await buildDryRunReport(reads, "strato.swap.execute", input, async () => {
+    await writes.request("post", "/swap", { data: input });
+    return toContent({ expectedAmountOut: "42" }, "Swap");
+  });
+
+  assert.equal(report.dryRun, true);
+  assert.deepEqual(report.wouldSend, [{ method: "post", path: "/swap", params: undefined, data: input }]);
+  assert.ok(requested.every((line) => line.startsWith("GET ")), requested.join(", "));
+  assert.deepEqual(report.previews.pool, { tokenA: { address: TOKEN_A, _symbol: "AAA", customDecimals: 2 }, tokenB: { address: TOKEN_B, _symbol: "BBB" } });
+  assert.deepEqual(report.checks, [
+    { check: "sufficient balance", status: "failed", detail: `Requested 500 exceeds balance 400 of ${TOKEN_A}` },
+  ]);
+  assert.equal(report.ok, false);
+  assert.match(report.summary ?? "", /Amount: 5 AAA \(500 base units\)/);
+  assert.deepEqual(report.result, { expectedAmountOut: "42" });
+});
+
+test("reports a tool's own validation failure as a failed execute check", async () => {
+  const reads = readOnlyClient({ "/cdp/get-max-mint": { maxAmount: "50" } });
+  const report = await buildDryRunReport(reads, "strato.cdp.mint", { asset: TOKEN_A, amount: "10" }, async () => {
+    throw new Error("no route found");
+  });
+
+  assert.equal(report.ok, false);
+  assert.deepEqual(report.checks[0], { check: "execute", status: "failed", detail: "no route found" });
+  assert.equal(report.result, undefined);
+});
+
+test("checks amounts against the backend's maximum and their format", async () => {
+  const reads = readOnlyClient({ "/cdp/get-max-mint": { maxAmount: "50" } });
+
+  const over = await buildDryRunReport(reads, "strato.cdp.mint", { asset: TOKEN_A, amount: "100" }, async () => undefined);
+  assert.deepEqual(over.previews.maxMint, { maxAmount: "50" });
+  assert.deepEqual(over.checks, [{ check: "mint within max mintable", status: "failed", detail: "Requested 100 exceeds maximum 50" }]);
+
+  const within = await buildDryRunReport(reads, "strato.cdp.mint", { asset: TOKEN_A, amount: "50" }, async () => undefined);
+  assert.equal(within.ok, true);
+
+  const malformed = await buildDryRunReport(reads, "strato.cdp.mint", { asset: TOKEN_A, amount: "1.5" }, async () => undefined);
+  assert.equal(malformed.checks[0]?.check, "amount format");
+  assert.equal(malformed.ok, false);
+});
+
+test("finds balances by address with or without 0x", () => {
+  const balances = { data: [{ token: { address: `0x${TOKEN_A.toUpperCase()}` }, balance: "7" }, { address: TOKEN_B, value: 3 }] };
+  assert.equal(findBalance(balances, TOKEN_A), 7n);
+  assert.equal(findBalance(balances, `0x${TOKEN_B}`), 3n);
+  assert.equal(findBalance(balances, "cccc000000000000000000000000000000000003"), undefined);
+});
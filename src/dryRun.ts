@@ -0,0 +1,284 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod";
+import { GriphookClient, safeFetch } from "./client.js";
+import { GriphookConfig } from "./config.js";
+import { resultPayload, toContent } from "./content.js";
+import { interceptTools } from "./intercept.js";
+import { requestContext, RecordedRequest } from "./requestContext.js";
+import { normalizeAddress, readRecords, readTokenAddress } from "./tokens.js";
+import { describeValueFlows, resolveValueFlows } from "./valueFlow.js";
+
+export type DryRunCheck = {
+  check: string;
+  status: "ok" | "warning" | "failed";
+  detail: string;
+};
+
+export type DryRunReport = {
+  tool: string;
+  dryRun: true;
+  /** True when no check failed. Warnings do not block. */
+  ok: boolean;
+  /** Human-readable amount, token and destination for value-moving tools. */
+  summary?: string;
+  /** State-changing requests the tool would have sent. */
+  wouldSend: RecordedRequest[];
+  /** Token metadata for every token referenced by the requests. */
+  tokens: Record<string, unknown>;
+  /** Read-only backend data used to predict the outcome. */
+  previews: Record<string, unknown>;
+  checks: DryRunCheck[];
+  /** What the tool itself returned with its writes captured. */
+  result?: unknown;
+};
+
+/** Request body fields that carry a token address. */
+const TOKEN_FIELDS = ["address", "asset", "token", "tokenA", "tokenB", "tokenIn", "tokenOut", "stratoToken", "targetStratoToken", "collateralAsset"];
+
+/** Request body fields that carry a raw (base unit) amount. */
+const AMOUNT_FIELDS = [
+  "amount", "value", "amountIn", "minAmountOut", "tokenBAmount", "maxTokenAAmount", "singleTokenAmount",
+  "lpTokenAmount", "stratoTokenAmount", "repayAmount", "minCollateralOut", "debtToCover", "sharesAmount",
+  "amountUSDST", "initialSupply",
+];
+
+/** Tools that spend a wallet balance: which input field holds the token and which the amount. */
+const WALLET_SPENDS: Record<string, { token: string; amount: string }> = {
+  "strato.tokens.transfer": { token: "address", amount: "value" },
+  "strato.swap.route-execute": { token: "tokenIn", amount: "amountIn" },
+  "strato.lending.supply-collateral": { token: "asset", amount: "amount" },
+  "strato.cdp.deposit": { token: "asset", amount: "amount" },
+  "strato.bridge.request-withdrawal": { token: "stratoToken", amount: "stratoTokenAmount" },
+};
+
+type PreviewContext = {
+  client: GriphookClient;
+  input: Record<string, unknown>;
+  report: DryRunReport;
+  spend: (token: string, amount: unknown) => Promise<void>;
+};
+type Preview = (ctx: PreviewContext) => Promise<void>;
+
+const poolPreview: Preview = async ({ client, input, report }) => {
+  const pool = await safeFetch(client, "get", `/swap-pools/${input.poolAddress}`);
+  if (pool === undefined) {
+    report.checks.push({ check: "pool exists", status: "failed", detail: `Pool ${input.poolAddress} was not found` });
+    return;
+  }
+  report.previews.pool = pool;
+};
+
+const swapPreview: Preview = async (ctx) => {
+  await poolPreview(ctx);
+  const pool = ctx.report.previews.pool as Record<string, unknown> | undefined;
+  if (!pool) return;
+  const tokenIn = readTokenAddress(pool[ctx.input.isAToB ? "tokenA" : "tokenB"]);
+  if (tokenIn) {
+    await ctx.spend(tokenIn, ctx.input.amountIn);
+  }
+};
+
+function limitPreview(key: string, path: string, check: string): Preview {
+  return async ({ client, input, report }) => {
+    const limit = await safeFetch(client, "post", path, { data: { asset: input.asset } });
+    if (limit === undefined) return;
+    report.previews[key] = limit;
+
+    const max = readAmount(limit);
+    const requested = readAmount(input.amount);
+    if (max === undefined || requested === undefined) return;
+    report.checks.push(requested <= max
+      ? { check, status: "ok", detail: `${requested} <= ${max}` }
+      : { check, status: "failed", detail: `Requested ${requested} exceeds maximum ${max}` });
+  };
+}
+
+const vaultPreview: Preview = async ({ client, input, report }) => {
+  const vault = await safeFetch(client, "get", `/cdp/vaults/${input.asset}`);
+  if (vault !== undefined) report.previews.vault = vault;
+};
+
+const lendingPositionPreview: Preview = async ({ client, report }) => {
+  const [collateral, loans] = await Promise.all([
+    safeFetch(client, "get", "/lending/collateral"),
+    safeFetch(client, "get", "/lending/loans"),
+  ]);
+  if (collateral !== undefined) report.previews.collateral = collateral;
+  if (loans !== undefined) report.previews.loans = loans;
+};
+
+const PREVIEWS: Record<string, Preview> = {
+  "strato.swap.execute": swapPreview,
+  "strato.swap.add-liquidity": poolPreview,
+  "strato.swap.add-liquidity-single": poolPreview,
+  "strato.swap.remove-liquidity": poolPreview,
+  "strato.cdp.mint": limitPreview("maxMint", "/cdp/get-max-mint", "mint within max mintable"),
+  "strato.cdp.mint-max": limitPreview("maxMint", "/cdp/get-max-mint", "mint within max mintable"),
+  "strato.cdp.withdraw": limitPreview("maxWithdraw", "/cdp/get-max-withdraw", "withdraw within max withdrawable"),
+  "strato.cdp.withdraw-max": limitPreview("maxWithdraw", "/cdp/get-max-withdraw", "withdraw within max withdrawable"),
+  "strato.cdp.repay": vaultPreview,
+  "strato.cdp.repay-all": vaultPreview,
+  "strato.lending.borrow": lendingPositionPreview,
+  "strato.lending.borrow-max": lendingPositionPreview,
+  "strato.lending.repay": lendingPositionPreview,
+  "strato.lending.withdraw-collateral": lendingPositionPreview,
+  "strato.lending.withdraw-collateral-max": lendingPositionPreview,
+};
+
+/**
+ * Read a base-unit amount from a raw value or from the common response shapes
+ * used by the backend ({ amount }, { maxAmount }, ...).
+ */
+function readAmount(value: unknown): bigint | undefined {
+  if (typeof value === "string" && /^\d+$/.test(value)) return BigInt(value);
+  if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) return BigInt(value);
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of ["maxAmount", "amount", "max", "value", "balance"]) {
+      if (key in record) return readAmount(record[key]);
+    }
+  }
+  return undefined;
+}
+
+/** Base-unit balance of one token in a /tokens/balance response. */
+export function findBalance(balances: unknown, token: string): bigint | undefined {
+  const wanted = normalizeAddress(token);
+  for (const record of readRecords(balances)) {
+    const address = readTokenAddress(record.address) ?? readTokenAddress(record.token);
+    if (address && normalizeAddress(address) === wanted) {
+      return readAmount(record.balance ?? record.value);
+    }
+  }
+  return undefined;
+}
+
+function collectTokenAddresses(requests: RecordedRequest[], input: Record<string, unknown>): Set<string> {
+  const addresses = new Set<string>();
+  const bodies = [input, ...requests.map((req) => req.data)];
+  for (const body of bodies) {
+    if (!body || typeof body !== "object") continue;
+    for (const field of TOKEN_FIELDS) {
+      const value = (body as Record<string, unknown>)[field];
+      if (typeof value === "string" && value.length > 0) addresses.add(value);
+    }
+  }
+  return addresses;
+}
+
+function checkAmounts(input: Record<string, unknown>, report: DryRunReport): void {
+  for (const field of AMOUNT_FIELDS) {
+    if (!(field in input) || input[field] === undefined) continue;
+    const amount = readAmount(input[field]);
+    if (amount === undefined) {
+      report.checks.push({ check: `${field} format`, status: "failed", detail: `Expected a base-unit integer string, got ${JSON.stringify(input[field])}` });
+    } else if (amount === 0n && field !== "minAmountOut" && field !== "minCollateralOut") {
+      report.checks.push({ check: `${field} format`, status: "warning", detail: "Amount is zero" });
+    }
+  }
+}
+
+/**
+ * Run a tool handler with state-changing requests captured instead of sent,
+ * then gather the read-only data needed to predict what the call would do.
+ */
+export async function buildDryRunReport(
+  client: GriphookClient,
+  tool: string,
+  input: Record<string, unknown>,
+  execute: () => Promise<CallToolResult | undefined>,
+): Promise<DryRunReport> {
+  const recorded: RecordedRequest[] = [];
+  const outcome = await requestContext.run({ ...requestContext.getStore(), dryRunRecorder: recorded }, execute)
+    .then((result) => ({ result }), (error: unknown) => ({ error }));
+
+  const report: DryRunReport = {
+    tool,
+    dryRun: true,
+    ok: true,
+    wouldSend: recorded,
+    tokens: {},
+    previews: {},
+    checks: [],
+  };
+
+  // The tool's own validation runs before anything is recorded, so its failures are the
+  // most direct answer to "would this work".
+  if ("error" in outcome) {
+    const detail = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+    report.checks.push({ check: "execute", status: "failed", detail });
+  } else if (outcome.result) {
+    [report.result] = resultPayload(outcome.result);
+    if (outcome.result.isError) {
+      const detail = outcome.result.content.map((block) => (block.type === "text" ? block.text : "")).join("\n");
+      report.checks.push({ check: "execute", status: "failed", detail });
+    }
+  }
+
+  checkAmounts(input, report);
+
+  let balances: Promise<unknown> | undefined;
+  const spend = async (token: string, amount: unknown) => {
+    balances ??= safeFetch(client, "get", "/tokens/balance");
+    const requested = readAmount(amount);
+    const available = findBalance(await balances, token);
+    if (requested === undefined) return;
+    if (available === undefined) {
+      report.checks.push({ check: "sufficient balance", status: "warning", detail: `No balance found for token ${token}` });
+    } else if (requested > available) {
+      report.checks.push({ check: "sufficient balance", status: "failed", detail: `Requested ${requested} exceeds balance ${available} of ${token}` });
+    } else {
+      report.checks.push({ check: "sufficient balance", status: "ok", detail: `${requested} <= ${available}` });
+    }
+  };
+
+  const tasks: Promise<void>[] = [];
+  for (const address of collectTokenAddresses(recorded, input)) {
+    tasks.push(
+      safeFetch(client, "get", `/tokens/${address}`).then((data) => { if (data !== undefined) report.tokens[address] = data; }),
+    );
+  }
+
+  const walletSpend = WALLET_SPENDS[tool];
+  if (walletSpend && typeof input[walletSpend.token] === "string") {
+    tasks.push(spend(input[walletSpend.token] as string, input[walletSpend.amount]));
+  }
+
+  const preview = PREVIEWS[tool];
+  if (preview) {
+    tasks.push(preview({ client, input, report, spend }));
+  }
+
+  tasks.push(
+    resolveValueFlows(client, tool, input).then((flows) => { if (flows.length > 0) report.summary = describeValueFlows(flows); }),
+  );
+
+  await Promise.all(tasks);
+
+  report.ok = report.checks.every((check) => check.status !== "failed");
+  return report;
+}
+
+/**
+ * Give every tool registered through the returned server a `dryRun` input.
+ * When set (or when GRIPHOOK_DRY_RUN is on), the tool returns a predicted-effects
+ * report and nothing is sent to the chain.
+ */
+export function withDryRun(server: McpServer, client: GriphookClient, config: GriphookConfig): McpServer {
+  return interceptTools(server, (name, { config: toolConfig, handler }) => ({
+    config: {
+      ...toolConfig,
+      inputSchema: toolConfig.inputSchema.extend({
+        dryRun: z.boolean().default(false).describe("Validate and preview the effects without sending the transaction"),
+      }),
+    },
+    handler: async ({ dryRun, ...input }, extra) => {
+      if (!dryRun && !config.dryRun) {
+        return handler(input, extra);
+      }
+      const report = await buildDryRunReport(client, name, input, () => handler(input, extra));
+      return toContent(report, `Dry run: ${name}`);
+    },
+  }));
+}
@@ -0,0 +1,54 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { GriphookClient } from "./client.js";
+import { buildEventParams, decodeCursor, fetchEventPages, readEventContracts, resolveEventContract } from "./eventQuery.js";
+
+const TOKEN = "aaaa000000000000000000000000000000000001";
+const POOL = "cccc000000000000000000000000000000000003";
+
+test("translates filters into PostgREST operators", () => {
+  assert.deepEqual(buildEventParams({
+    contracts: [TOKEN, POOL],
+    eventNames: ["Transfer"],
+    fromBlock: 100,
+    to: new Date("2026-01-01T00:00:00Z"),
+    attributes: { from: "dead", memo: "a,b" },
+  }), {
+    address: `in.(${TOKEN},${POOL})`,
+    event_name: "eq.Transfer",
+    "attributes->>from": "eq.dead",
+    "attributes->>memo": "eq.a,b",
+    and: '(block_number.gte.100,block_timestamp.lte."2026-01-01T00:00:00.000Z")',
+  });
+  assert.deepEqual(buildEventParams({}), {});
+  assert.throws(() => buildEventParams({ attributes: { "x;drop": "1" } }), /Invalid attribute name/);
+});
+
+test("follows pages up to the cap and resumes from the cursor", async () => {
+  const requests: Record<string, unknown>[] = [];
+  const client = {
+    async request(_method: string, _path: string, options: { params: Record<string, unknown> }) {
+      requests.push(options.params);
+      const offset = Number(options.params.offset);
+      return Array.from({ length: Math.max(0, Math.min(Number(options.params.limit), 7 - offset)) }, (_, i) => ({ id: offset + i }));
+    },
+  } as unknown as GriphookClient;
+  const params = { event_name: "eq.Transfer", order: "block_number.asc" };
+
+  const first = await fetchEventPages(client, params, { offset: 0, pageSize: 2, limit: 5 });
+  assert.equal(first.events.length, 5);
+  assert.deepEqual(requests.map((request) => request.limit), [2, 2, 1]);
+  assert.ok(first.nextCursor);
+
+  const rest = await fetchEventPages(client, params, { offset: decodeCursor(first.nextCursor, params), pageSize: 2, limit: 5 });
+  assert.deepEqual(rest.events, [{ id: 5 }, { id: 6 }]);
+  assert.equal(rest.nextCursor, undefined);
+  assert.throws(() => decodeCursor(first.nextCursor!, { ...params, event_name: "eq.Approval" }), /different query/);
+});
+
+test("resolves contract names from /events/contracts", () => {
+  const contracts = readEventContracts([{ address: POOL, contract_name: "Pool" }, { address: TOKEN, contract_name: "Token" }, POOL]);
+  assert.deepEqual(resolveEventContract(contracts, "pool"), [POOL]);
+  assert.deepEqual(resolveEventContract(contracts, `0x${TOKEN}`), [TOKEN]);
+  assert.throws(() => resolveEventContract(contracts, "Vault"), /No contract named 'Vault'/);
+});
@@ -0,0 +1,143 @@
+import { GriphookClient } from "./client.js";
+import { isAddress } from "./tokenRegistry.js";
+import { normalizeAddress, readList } from "./tokens.js";
+
+/** Columns of the backend's event table used by the filters. */
+const COLUMNS = {
+  contract: "address",
+  eventName: "event_name",
+  block: "block_number",
+  timestamp: "block_timestamp",
+  attributes: "attributes",
+} as const;
+
+const ATTRIBUTE_KEY = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export type EventFilters = {
+  /** Contract addresses; one is sent as eq., several as in. */
+  contracts?: string[];
+  eventNames?: string[];
+  fromBlock?: number;
+  toBlock?: number;
+  from?: Date;
+  to?: Date;
+  /** Equality on decoded event attributes (attributes->>key=eq.value). */
+  attributes?: Record<string, string>;
+};
+
+/** Quote a value for use inside a PostgREST list (in.(...), and=(...)) when it holds reserved characters. */
+export function quoteFilterValue(value: string): string {
+  return /[,.:()"\\\s]/.test(value) ? `"${value.replace(/["\\]/g, "\\$&")}"` : value;
+}
+
+function listFilter(values: string[]): string {
+  return values.length === 1 ? `eq.${values[0]}` : `in.(${values.map(quoteFilterValue).join(",")})`;
+}
+
+/**
+ * Translate filters into PostgREST query parameters. Equality filters become their own
+ * parameters; range bounds share one and=(...) group because a column can only appear
+ * once as a query key.
+ */
+export function buildEventParams(filters: EventFilters): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (filters.contracts?.length) params[COLUMNS.contract] = listFilter(filters.contracts);
+  if (filters.eventNames?.length) params[COLUMNS.eventName] = listFilter(filters.eventNames);
+
+  for (const [key, value] of Object.entries(filters.attributes ?? {})) {
+    if (!ATTRIBUTE_KEY.test(key)) throw new Error(`Invalid attribute name '${key}'`);
+    params[`${COLUMNS.attributes}->>${key}`] = `eq.${value}`;
+  }
+
+  const bounds: string[] = [];
+  if (filters.fromBlock !== undefined) bounds.push(`${COLUMNS.block}.gte.${filters.fromBlock}`);
+  if (filters.toBlock !== undefined) bounds.push(`${COLUMNS.block}.lte.${filters.toBlock}`);
+  if (filters.from) bounds.push(`${COLUMNS.timestamp}.gte.${quoteFilterValue(filters.from.toISOString())}`);
+  if (filters.to) bounds.push(`${COLUMNS.timestamp}.lte.${quoteFilterValue(filters.to.toISOString())}`);
+  if (bounds.length > 0) params.and = `(${bounds.join(",")})`;
+  return params;
+}
+
+/** Stable fingerprint of a query, so a cursor is only accepted for the query that issued it. */
+function queryKey(params: Record<string, string>): string {
+  return JSON.stringify(Object.entries(params).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/** Opaque cursor carrying the next offset and the query it belongs to. */
+export function encodeCursor(offset: number, params: Record<string, string>): string {
+  return Buffer.from(JSON.stringify({ offset, query: queryKey(params) })).toString("base64url");
+}
+
+/** Offset stored in a cursor. Throws when the cursor is malformed or was issued for another query. */
+export function decodeCursor(cursor: string, params: Record<string, string>): number {
+  let decoded: { offset?: unknown; query?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  if (!Number.isSafeInteger(decoded.offset) || (decoded.offset as number) < 0) throw new Error("Invalid cursor");
+  if (decoded.query !== queryKey(params)) throw new Error("Cursor belongs to a different query; repeat the same filters and order");
+  return decoded.offset as number;
+}
+
+export type EventPage = {
+  events: unknown[];
+  /** Set when the cap was reached before the backend ran out of events. */
+  nextCursor?: string;
+};
+
+/**
+ * Fetch events from offset in pages of pageSize until the backend returns a short page
+ * or limit events have been collected.
+ */
+export async function fetchEventPages(
+  client: GriphookClient,
+  params: Record<string, string>,
+  options: { offset: number; pageSize: number; limit: number },
+): Promise<EventPage> {
+  const events: unknown[] = [];
+  let offset = options.offset;
+  while (events.length < options.limit) {
+    const size = Math.min(options.pageSize, options.limit - events.length);
+    const data = await client.request<unknown>("get", "/events", { params: { ...params, limit: size, offset } });
+    // Never exceed the cap, even if the backend ignores limit.
+    const page = readList(data).slice(0, size);
+    events.push(...page);
+    offset += page.length;
+    if (page.length < size) return { events };
+  }
+  return { events, nextCursor: encodeCursor(offset, params) };
+}
+
+export type EventContract = { address: string; name?: string };
+
+/** Contracts listed by /events/contracts, as plain addresses or { address, name } entries. */
+export function readEventContracts(data: unknown): EventContract[] {
+  const contracts: EventContract[] = [];
+  for (const entry of readList(data)) {
+    if (typeof entry === "string") {
+      contracts.push({ address: entry });
+      continue;
+    }
+    const record = entry && typeof entry === "object" ? entry as Record<string, unknown> : {};
+    const address = record.address ?? record.contract_address;
+    const name = record.contract_name ?? record.name;
+    if (typeof address === "string") contracts.push({ address, ...(typeof name === "string" ? { name } : {}) });
+  }
+  return contracts;
+}
+
+/**
+ * Turn a contract filter into addresses. Addresses pass through; names match every listed
+ * contract with that name (case-insensitive).
+ */
+export function resolveEventContract(contracts: EventContract[], value: string): string[] {
+  const query = value.trim();
+  if (isAddress(query)) return [normalizeAddress(query)];
+  const matches = contracts.filter((contract) => contract.name?.toLowerCase() === query.toLowerCase());
+  if (matches.length === 0) {
+    throw new Error(`No contract named '${query}' emits events. Pass an address, or set listContracts to see the known contracts.`);
+  }
+  return matches.map((contract) => normalizeAddress(contract.address));
+}
@@ -0,0 +1,29 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { loadConfig } from "./config.js";
+import { HealthCheck, checkIdentityProvider, formatHealthChecks, summarizeHealth } from "./health.js";
+
+const ok: HealthCheck = { check: "backend", status: "ok", detail: "reachable", latencyMs: 12 };
+const warning: HealthCheck = { check: "identity provider", status: "warning", detail: "OAuth is not configured", fix: "Set OAuth variables." };
+const failed: HealthCheck = { check: "credentials", status: "failed", detail: "Not logged in", fix: "Run 'griphook login'." };
+
+test("the worst check decides the overall status", () => {
+  assert.equal(summarizeHealth([ok]).status, "ok");
+  assert.equal(summarizeHealth([ok, warning]).status, "degraded");
+  assert.equal(summarizeHealth([warning, failed, ok]).status, "failed");
+  assert.match(summarizeHealth([]).version, /^\d+\.\d+\.\d+/);
+});
+
+test("prints fixes under warnings and failures", () => {
+  assert.equal(formatHealthChecks([ok, failed]), [
+    "[ok  ] backend: reachable (12ms)",
+    "[FAIL] credentials: Not logged in",
+    "       fix: Run 'griphook login'.",
+  ].join("\n"));
+});
+
+test("missing OAuth configuration only fails in hosted mode", async () => {
+  const config = { ...loadConfig(), oauth: null };
+  assert.equal((await checkIdentityProvider({ ...config, hosted: null }))[0].status, "warning");
+  assert.equal((await checkIdentityProvider({ ...config, hosted: { publicUrl: "https://griphook.example" } }))[0].status, "failed");
+});
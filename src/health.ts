@@ -0,0 +1,210 @@
+import { createRequire } from "module";
+import axios from "axios";
+import { decodeJwt } from "jose";
+import { GriphookConfig, loadConfig } from "./config.js";
+import type { DryRunCheck } from "./dryRun.js";
+import { OAuthClient } from "./auth.js";
+import { getCredentialsPath, loadCredentials } from "./login.js";
+import { getRequestAccessToken } from "./requestContext.js";
+
+const require = createRequire(import.meta.url);
+export const { version } = require("../package.json") as { version: string };
+
+const CHECK_TIMEOUT_MS = 5000;
+
+export type HealthCheck = DryRunCheck & {
+  /** What to do about a warning or failure. */
+  fix?: string;
+  latencyMs?: number;
+};
+
+export type HealthReport = {
+  /** failed when any check failed, degraded when any warned. */
+  status: "ok" | "degraded" | "failed";
+  version: string;
+  uptimeSeconds: number;
+  checks: HealthCheck[];
+};
+
+function describeError(err: unknown): string {
+  if (axios.isAxiosError(err)) {
+    if (err.response) return `HTTP ${err.response.status}`;
+    return err.code ? `${err.code} (${err.message})` : err.message;
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+async function timed<T>(fn: () => Promise<T>): Promise<{ value: T; latencyMs: number }> {
+  const started = Date.now();
+  const value = await fn();
+  return { value, latencyMs: Date.now() - started };
+}
+
+/** GET {apiBaseUrl}/health, without credentials. */
+export async function checkBackend(config: GriphookConfig): Promise<HealthCheck> {
+  const url = `${config.apiBaseUrl}/health`;
+  try {
+    const { latencyMs } = await timed(() => axios.get(url, { timeout: Math.min(config.timeoutMs, CHECK_TIMEOUT_MS) }));
+    return { check: "backend", status: "ok", detail: `${url} is reachable`, latencyMs };
+  } catch (err) {
+    return {
+      check: "backend",
+      status: "failed",
+      detail: `${url}: ${describeError(err)}`,
+      fix: "Check STRATO_API_BASE_URL (or STRATO_NODE_URL) and that the STRATO node is running and reachable from this host.",
+    };
+  }
+}
+
+/** Fetch the OpenID discovery document and the JWKS it points to. */
+export async function checkIdentityProvider(config: GriphookConfig): Promise<HealthCheck[]> {
+  if (!config.oauth) {
+    return [{
+      check: "identity provider",
+      // Hosted mode cannot authenticate anyone without it; local mode only needs it to log in.
+      status: config.hosted ? "failed" : "warning",
+      detail: "OAuth is not configured",
+      fix: "Set OAUTH_CLIENT_ID, OAUTH_CLIENT_SECRET and OPENID_DISCOVERY_URL.",
+    }];
+  }
+
+  const discoveryUrl = config.oauth.openIdDiscoveryUrl;
+  let discovery: Record<string, unknown>;
+  let latencyMs: number;
+  try {
+    ({ value: { data: discovery }, latencyMs } = await timed(() => axios.get(discoveryUrl, { timeout: CHECK_TIMEOUT_MS })));
+  } catch (err) {
+    return [{
+      check: "openid discovery",
+      status: "failed",
+      detail: `${discoveryUrl}: ${describeError(err)}`,
+      fix: "Check OPENID_DISCOVERY_URL and that the identity provider is reachable from this host.",
+    }];
+  }
+
+  const missing = ["token_endpoint", "jwks_uri"].filter((field) => typeof discovery?.[field] !== "string");
+  if (missing.length > 0) {
+    return [{
+      check: "openid discovery",
+      status: "failed",
+      detail: `${discoveryUrl} has no ${missing.join(" or ")}`,
+      fix: "OPENID_DISCOVERY_URL must point to the realm's .well-known/openid-configuration document.",
+    }];
+  }
+  const checks: HealthCheck[] = [{ check: "openid discovery", status: "ok", detail: `${discoveryUrl} is reachable`, latencyMs }];
+
+  const jwksUri = discovery.jwks_uri as string;
+  try {
+    const { value: { data: jwks }, latencyMs: jwksLatency } = await timed(() => axios.get(jwksUri, { timeout: CHECK_TIMEOUT_MS }));
+    const keys = Array.isArray(jwks?.keys) ? jwks.keys.length : 0;
+    checks.push(keys > 0
+      ? { check: "jwks", status: "ok", detail: `${keys} signing key${keys === 1 ? "" : "s"} at ${jwksUri}`, latencyMs: jwksLatency }
+      : { check: "jwks", status: "failed", detail: `${jwksUri} lists no keys`, fix: "Check the realm's signing keys in the identity provider." });
+  } catch (err) {
+    checks.push({
+      check: "jwks",
+      status: "failed",
+      detail: `${jwksUri}: ${describeError(err)}`,
+      fix: "Check that the identity provider's JWKS endpoint is reachable from this host.",
+    });
+  }
+  return checks;
+}
+
+/**
+ * The caller's credentials: the request's access token in hosted mode, otherwise the
+ * credentials stored by `griphook login` (refreshed if needed, as a tool call would).
+ */
+export async function checkCredentials(config: GriphookConfig): Promise<HealthCheck> {
+  const requestToken = getRequestAccessToken();
+  if (requestToken) {
+    try {
+      const claims = decodeJwt(requestToken);
+      const user = claims.preferred_username ?? claims.email ?? claims.sub;
+      const expires = claims.exp ? ` until ${new Date(claims.exp * 1000).toISOString()}` : "";
+      return { check: "credentials", status: "ok", detail: `Access token for ${user} is valid${expires}` };
+    } catch {
+      return { check: "credentials", status: "ok", detail: "Request carries an access token" };
+    }
+  }
+
+  const login = "Run 'griphook login' to authenticate.";
+  const credentials = loadCredentials();
+  if (!credentials) {
+    return { check: "credentials", status: "failed", detail: `Not logged in (no ${getCredentialsPath()})`, fix: login };
+  }
+  if (Date.now() >= credentials.refreshExpiresAt) {
+    return {
+      check: "credentials",
+      status: "failed",
+      detail: `Refresh token expired at ${new Date(credentials.refreshExpiresAt).toISOString()}`,
+      fix: login,
+    };
+  }
+  if (config.oauth && credentials.openIdDiscoveryUrl !== config.oauth.openIdDiscoveryUrl) {
+    return {
+      check: "credentials",
+      status: "warning",
+      detail: `Credentials were issued by ${credentials.openIdDiscoveryUrl}, but OPENID_DISCOVERY_URL is ${config.oauth.openIdDiscoveryUrl}`,
+      fix: `Run 'griphook login' again to log in with the configured identity provider.`,
+    };
+  }
+
+  try {
+    const user = await new OAuthClient().getUsername();
+    return {
+      check: "credentials",
+      status: "ok",
+      detail: `Logged in as ${user}; refresh token valid until ${new Date(credentials.refreshExpiresAt).toISOString()}`,
+    };
+  } catch (err) {
+    return { check: "credentials", status: "failed", detail: describeError(err), fix: login };
+  }
+}
+
+export function summarizeHealth(checks: HealthCheck[]): HealthReport {
+  const status = checks.some((check) => check.status === "failed")
+    ? "failed"
+    : checks.some((check) => check.status === "warning")
+    ? "degraded"
+    : "ok";
+  return { status, version, uptimeSeconds: Math.round(process.uptime()), checks };
+}
+
+/**
+ * Readiness checks (backend and identity provider), plus the caller's credentials when
+ * `credentials` is set. The checks run in parallel.
+ */
+export async function runHealthChecks(config: GriphookConfig, options: { credentials: boolean }): Promise<HealthReport> {
+  const [backend, identity, credentials] = await Promise.all([
+    checkBackend(config),
+    checkIdentityProvider(config),
+    options.credentials ? checkCredentials(config) : undefined,
+  ]);
+  return summarizeHealth([backend, ...identity, ...(credentials ? [credentials] : [])]);
+}
+
+const STATUS_MARKS: Record<HealthCheck["status"], string> = { ok: "ok  ", warning: "warn", failed: "FAIL" };
+
+/** One line per check, with the fix indented under warnings and failures. */
+export function formatHealthChecks(checks: HealthCheck[]): string {
+  const lines: string[] = [];
+  for (const check of checks) {
+    const latency = check.latencyMs !== undefined ? ` (${check.latencyMs}ms)` : "";
+    lines.push(`[${STATUS_MARKS[check.status]}] ${check.check}: ${check.detail}${latency}`);
+    if (check.fix && check.status !== "ok") lines.push(`       fix: ${check.fix}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * `griphook doctor`: run the health checks with the local credentials and print fixes.
+ * Exits with status 1 when a check fails.
+ */
+export async function doctorCommand(argv: string[], config: GriphookConfig = loadConfig()): Promise<void> {
+  const report = await runHealthChecks(config, { credentials: true });
+  console.log(argv.includes("--json")
+    ? JSON.stringify(report, null, 2)
+    : `Griphook ${report.version}: ${report.status}\n${formatHealthChecks(report.checks)}`);
+  if (report.status === "failed") process.exitCode = 1;
+}
@@ -0,0 +1,38 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readSeries, resample, summarizeSeries } from "./history.js";
+
+const E18 = 10n ** 18n;
+
+test("normalizes history entries in base units and whole units", () => {
+  const points = readSeries({
+    data: [
+      { timestamp: 7200, netBalance: "150.5" },
+      { timestamp: 60, netBalance: (100n * E18).toString() },
+      { timestamp: 3600, value: 120.25 },
+      { timestamp: 5400 },
+    ],
+  }, "netBalance", 18);
+  assert.deepEqual(points.map((point) => point.value), [100n * E18, 12025n * E18 / 100n, 1505n * E18 / 10n]);
+  assert.equal(points[0].time.getTime(), 60_000);
+});
+
+test("resamples to the last value of each bucket", () => {
+  const points = [0, 1800, 3000, 3700].map((seconds, index) => ({ time: new Date(seconds * 1000), value: BigInt(index) }));
+  assert.deepEqual(resample(points, 3600).map((point) => [point.time.getTime(), point.value]), [[0, 2n], [3_600_000, 3n]]);
+});
+
+test("computes change, time-weighted average and max drawdown", () => {
+  const at = (hours: number, value: bigint) => ({ time: new Date(hours * 3_600_000), value: value * E18 });
+  const stats = summarizeSeries([at(0, 100n), at(1, 200n), at(3, 150n), at(4, 50n), at(8, 120n)]);
+  assert.ok(stats);
+  assert.equal(stats.change, 20n * E18);
+  assert.equal(stats.changePercent, "20");
+  assert.equal(stats.high, 200n * E18);
+  assert.equal(stats.low, 50n * E18);
+  // (100*1 + 200*2 + 150*1 + 50*4) / 8 hours
+  assert.equal(stats.average, 10625n * E18 / 100n);
+  assert.equal(stats.maxDrawdown, 150n * E18);
+  assert.equal(stats.maxDrawdownPercent, "75");
+  assert.equal(summarizeSeries([]), undefined);
+});
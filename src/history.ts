@@ -0,0 +1,145 @@
+import { GriphookClient, safeFetch } from "./client.js";
+import { formatFixed, formatUnits, parseUnits, readBaseUnits } from "./amounts.js";
+import { readTimestamp } from "./oracle.js";
+
+export const HISTORY_KINDS = ["balance", "netBalance", "borrowing"] as const;
+export type HistoryKind = (typeof HISTORY_KINDS)[number];
+
+const TIME_KEYS = ["timestamp", "time", "date", "block_timestamp", "createdAt"];
+const VALUE_KEYS: Record<HistoryKind, string[]> = {
+  balance: ["balance", "value", "amount"],
+  netBalance: ["netBalance", "value", "balance", "amount"],
+  borrowing: ["borrowed", "totalBorrowed", "borrowing", "debt", "value", "amount"],
+};
+
+export type SeriesPoint = { time: Date; value: bigint };
+
+/**
+ * Read a series value. Integer strings are base units (the rule used for every amount);
+ * decimal strings and non-integer numbers are whole units and are scaled by decimals.
+ */
+function readSeriesValue(value: unknown, decimals: number): bigint | undefined {
+  const base = readBaseUnits(value);
+  if (base !== undefined) return base;
+  const text = typeof value === "number" && Number.isFinite(value) && value >= 0 ? value.toFixed(decimals) : value;
+  if (typeof text !== "string" || !/^\d*\.\d+$/.test(text)) return undefined;
+  return parseUnits(text, decimals);
+}
+
+/** Points of a /tokens/v2 history response, oldest first. Entries without a time or value are skipped. */
+export function readSeries(data: unknown, kind: HistoryKind, decimals: number): SeriesPoint[] {
+  const record = data && typeof data === "object" && !Array.isArray(data) ? data as Record<string, unknown> : {};
+  const list = Array.isArray(data) ? data : [record.data, record.history, record.series].find(Array.isArray) ?? [];
+  const points: SeriesPoint[] = [];
+  for (const entry of list) {
+    if (!entry || typeof entry !== "object") continue;
+    const fields = entry as Record<string, unknown>;
+    const time = TIME_KEYS.map((key) => readTimestamp(fields[key])).find(Boolean);
+    const value = VALUE_KEYS[kind].map((key) => readSeriesValue(fields[key], decimals)).find((found) => found !== undefined);
+    if (time && value !== undefined) points.push({ time, value });
+  }
+  return points.sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+/**
+ * Resample a level series (balances, debt) to one point per interval, aligned to the unix
+ * epoch, keeping the last value seen in each bucket. Empty buckets are omitted.
+ */
+export function resample(points: SeriesPoint[], intervalSeconds: number): SeriesPoint[] {
+  const size = intervalSeconds * 1000;
+  const buckets = new Map<number, bigint>();
+  for (const { time, value } of points) buckets.set(Math.floor(time.getTime() / size) * size, value);
+  return [...buckets].map(([start, value]) => ({ time: new Date(start), value }));
+}
+
+export type SeriesStats = {
+  start: bigint;
+  end: bigint;
+  change: bigint;
+  /** Null when the series starts at zero. */
+  changePercent: string | null;
+  high: bigint;
+  low: bigint;
+  /** Time-weighted: each value holds until the next point. A single point is its own average. */
+  average: bigint;
+  /** Largest fall from a running high to a later low. */
+  maxDrawdown: bigint;
+  maxDrawdownPercent: string | null;
+};
+
+function percentOf(part: bigint, whole: bigint): string | null {
+  return whole === 0n ? null : formatFixed((part * 100n * 10n ** 4n) / whole, 4, 2);
+}
+
+/** Summary statistics of a sorted series; undefined when it is empty. */
+export function summarizeSeries(points: SeriesPoint[]): SeriesStats | undefined {
+  if (points.length === 0) return undefined;
+  const start = points[0].value;
+  const end = points[points.length - 1].value;
+
+  let high = start;
+  let low = start;
+  let peak = start;
+  let maxDrawdown = 0n;
+  let drawdownPeak = start;
+  let weighted = 0n;
+  for (const [index, { time, value }] of points.entries()) {
+    if (value > high) high = value;
+    if (value < low) low = value;
+    if (value > peak) peak = value;
+    if (peak - value > maxDrawdown) {
+      maxDrawdown = peak - value;
+      drawdownPeak = peak;
+    }
+    const next = points[index + 1];
+    if (next) weighted += value * BigInt(next.time.getTime() - time.getTime());
+  }
+  const span = BigInt(points[points.length - 1].time.getTime() - points[0].time.getTime());
+
+  return {
+    start,
+    end,
+    change: end - start,
+    changePercent: percentOf(end - start, start),
+    high,
+    low,
+    average: span > 0n ? weighted / span : start,
+    maxDrawdown,
+    maxDrawdownPercent: maxDrawdown === 0n ? "0" : percentOf(maxDrawdown, drawdownPeak),
+  };
+}
+
+/** Format every amount of a summary in units of decimals. */
+export function formatStats(stats: SeriesStats, decimals: number): Record<string, string | null> {
+  return {
+    start: formatUnits(stats.start, decimals),
+    end: formatUnits(stats.end, decimals),
+    change: formatUnits(stats.change, decimals),
+    changePercent: stats.changePercent,
+    high: formatUnits(stats.high, decimals),
+    low: formatUnits(stats.low, decimals),
+    average: formatUnits(stats.average, decimals),
+    maxDrawdown: formatUnits(stats.maxDrawdown, decimals),
+    maxDrawdownPercent: stats.maxDrawdownPercent,
+  };
+}
+
+/**
+ * History of the signed-in user between from and to, inclusive: a token balance
+ * (/tokens/v2/balance-history/{token}), net balance (/tokens/v2/net-balance-history) or
+ * borrowing (/tokens/v2/borrowing-history). Returns undefined when the endpoint is unavailable.
+ */
+export async function fetchHistory(
+  client: GriphookClient,
+  kind: HistoryKind,
+  decimals: number,
+  options: { token?: string; from?: Date; to?: Date },
+): Promise<SeriesPoint[] | undefined> {
+  const path = kind === "balance" ? `/tokens/v2/balance-history/${options.token}`
+    : kind === "netBalance" ? "/tokens/v2/net-balance-history"
+    : "/tokens/v2/borrowing-history";
+  const data = await safeFetch(client, "get", path);
+  if (data === undefined) return undefined;
+  const { from, to } = options;
+  return readSeries(data, kind, decimals).filter(({ time }) => (!from || time >= from) && (!to || time <= to));
+}
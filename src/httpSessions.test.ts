@@ -0,0 +1,40 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { SessionEntry, SessionStore } from "./httpSessions.js";
+
+test("only the user who opened a session may use it", () => {
+  const store = new SessionStore<SessionEntry>(1000);
+  const session = { user: "alice", lastSeen: 0, streams: 0 };
+  store.set("s1", session);
+  assert.deepEqual(store.lookup("s1", "alice"), { session });
+  assert.deepEqual(store.lookup("s1", "mallory"), { status: 403, message: "Session belongs to another user" });
+  assert.deepEqual(store.lookup("s1", undefined), { status: 403, message: "Session belongs to another user" });
+  assert.deepEqual(store.lookup("s2", "alice"), { status: 404, message: "Session not found" });
+  assert.deepEqual(store.lookup(undefined, "alice"), { status: 400, message: "Missing mcp-session-id header" });
+
+  // Outside hosted mode sessions have no user and anyone holding the id may use them.
+  store.set("local", { lastSeen: 0, streams: 0 });
+  assert.ok("session" in store.lookup("local", undefined));
+});
+
+test("expires sessions idle past the TTL unless a stream is open", () => {
+  const store = new SessionStore<SessionEntry & { id: string }>(1000);
+  store.set("a", { id: "a", lastSeen: 0, streams: 0 });
+  store.set("b", { id: "b", lastSeen: 0, streams: 1 });
+  store.set("c", { id: "c", lastSeen: 500, streams: 0 });
+  assert.deepEqual(store.expired(1000).map((session) => session.id), []);
+  assert.deepEqual(store.expired(1200).map((session) => session.id), ["a"]);
+  store.delete("a");
+  assert.deepEqual(store.expired(2000).map((session) => session.id), ["c"]);
+  assert.equal(store.size, 2);
+});
+
+test("counts open sessions per user", () => {
+  const store = new SessionStore<SessionEntry>(1000);
+  store.set("a1", { user: "alice", lastSeen: 0, streams: 0 });
+  store.set("a2", { user: "alice", lastSeen: 0, streams: 0 });
+  store.set("b1", { user: "bob", lastSeen: 0, streams: 0 });
+  assert.equal(store.countFor("alice"), 2);
+  assert.equal(store.countFor("bob"), 1);
+  assert.equal(store.countFor("carol"), 0);
+});
@@ -0,0 +1,56 @@
+/** What the store tracks for every HTTP session, beyond its transport and server. */
+export type SessionEntry = {
+  /** Authenticated user the session was opened by; undefined outside hosted mode. */
+  user?: string;
+  /** Time of the last request (ms since epoch). */
+  lastSeen: number;
+  /** Open GET streams; a session with a listening stream is never idle. */
+  streams: number;
+};
+
+export type SessionLookup<T> = { session: T } | { status: 400 | 403 | 404; message: string };
+
+/**
+ * HTTP sessions by mcp-session-id. A session only answers to the user who opened it, and
+ * sessions without requests or open streams for ttlMs are reported as expired.
+ */
+export class SessionStore<T extends SessionEntry> {
+  private sessions = new Map<string, T>();
+
+  constructor(private ttlMs: number) {}
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  set(id: string, session: T): void {
+    this.sessions.set(id, session);
+  }
+
+  delete(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  values(): T[] {
+    return [...this.sessions.values()];
+  }
+
+  /** Number of open sessions opened by user. */
+  countFor(user: string): number {
+    return this.values().filter((session) => session.user === user).length;
+  }
+
+  /** The session for id if user may use it, otherwise the HTTP status and reason to reject with. */
+  lookup(id: string | undefined, user: string | undefined): SessionLookup<T> {
+    if (!id) return { status: 400, message: "Missing mcp-session-id header" };
+    const session = this.sessions.get(id);
+    if (!session) return { status: 404, message: "Session not found" };
+    if (session.user !== user) return { status: 403, message: "Session belongs to another user" };
+    return { session };
+  }
+
+  /** Sessions idle for longer than the TTL with no open stream. */
+  expired(now = Date.now()): T[] {
+    return this.values().filter((session) => session.streams === 0 && now - session.lastSeen > this.ttlMs);
+  }
+}
@@ -0,0 +1,50 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { CallToolResult, ServerNotification, ServerRequest, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod";
+
+export type ToolConfig = {
+  title?: string;
+  description?: string;
+  inputSchema: z.ZodObject<z.ZodRawShape>;
+  outputSchema?: z.ZodObject<z.ZodRawShape>;
+  annotations?: ToolAnnotations;
+  _meta?: Record<string, unknown>;
+};
+
+/**
+ * Extra request information passed by the MCP SDK. Absent when a tool is invoked
+ * directly from the CLI, so handlers must treat it as optional.
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification> | undefined;
+
+export type ToolHandler = (input: Record<string, unknown>, extra: ToolExtra) => Promise<CallToolResult>;
+
+export type ToolRegistration = { config: ToolConfig; handler: ToolHandler };
+
+/**
+ * Rewrites a tool registration before it reaches the server.
+ * Returning null drops the tool entirely.
+ */
+export type ToolInterceptor = (name: string, registration: ToolRegistration) => ToolRegistration | null;
+
+/**
+ * Wrap an McpServer so every registerTool call passes through the interceptor first.
+ * Everything else on the server is forwarded untouched, so the result can be handed
+ * to the existing register* functions in place of the real server.
+ */
+export function interceptTools(server: McpServer, interceptor: ToolInterceptor): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop !== "registerTool") {
+        return Reflect.get(target, prop, receiver);
+      }
+      return (name: string, config: ToolConfig, handler: ToolHandler) => {
+        const registration = interceptor(name, { config, handler });
+        if (!registration) return undefined;
+        return (target.registerTool as unknown as (n: string, c: ToolConfig, h: ToolHandler) => unknown)
+          .call(target, name, registration.config, registration.handler);
+      };
+    },
+  });
+}
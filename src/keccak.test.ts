@@ -0,0 +1,22 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { isChecksumAddress, keccak256, toChecksumAddress } from "./keccak.js";
+
+test("hashes with Ethereum keccak-256", () => {
+  assert.equal(keccak256(""), "c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470");
+  assert.equal(keccak256("abc"), "4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45");
+});
+
+test("computes and verifies EIP-55 checksums", () => {
+  for (const address of [
+    "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed",
+    "0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359",
+    "0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb",
+  ]) {
+    assert.equal(toChecksumAddress(address.toLowerCase()), address);
+    assert.equal(isChecksumAddress(address), true);
+  }
+  assert.equal(isChecksumAddress("0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed"), false);
+  assert.equal(isChecksumAddress("0x5AAeb6053F3E94C9b9A09f33669435E7Ef1BeAed"), false);
+  assert.throws(() => toChecksumAddress("0x1234"), /Invalid address/);
+});
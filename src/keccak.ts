@@ -0,0 +1,85 @@
+/** Keccak-f[1600] round constants. */
+const ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+/** Lane order of the combined rho and pi steps, and each lane's rotation. */
+const PI_LANES = [10, 7, 11, 17, 18, 3, 5, 16, 8, 21, 24, 4, 15, 23, 19, 13, 12, 2, 20, 14, 22, 9, 6, 1];
+const RHO_OFFSETS = [1, 3, 6, 10, 15, 21, 28, 36, 45, 55, 2, 14, 27, 41, 56, 8, 25, 43, 62, 18, 39, 61, 20, 44];
+const MASK = (1n << 64n) - 1n;
+/** Keccak-256 absorbs 136 bytes per permutation (1600 - 2 * 256 bits). */
+const RATE = 136;
+
+function rotl(lane: bigint, bits: number): bigint {
+  return ((lane << BigInt(bits)) | (lane >> BigInt(64 - bits))) & MASK;
+}
+
+function permute(state: bigint[]): void {
+  const columns = new Array<bigint>(5);
+  for (const constant of ROUND_CONSTANTS) {
+    for (let x = 0; x < 5; x += 1) columns[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    for (let x = 0; x < 5; x += 1) {
+      const d = columns[(x + 4) % 5] ^ rotl(columns[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) state[y + x] ^= d;
+    }
+    let carried = state[1];
+    for (let i = 0; i < 24; i += 1) {
+      const lane = PI_LANES[i];
+      const next = state[lane];
+      state[lane] = rotl(carried, RHO_OFFSETS[i]);
+      carried = next;
+    }
+    for (let y = 0; y < 25; y += 5) {
+      const row = state.slice(y, y + 5);
+      for (let x = 0; x < 5; x += 1) state[y + x] = row[x] ^ (~row[(x + 1) % 5] & MASK & row[(x + 2) % 5]);
+    }
+    state[0] ^= constant;
+  }
+}
+
+/**
+ * Keccak-256 as used by Ethereum (original Keccak padding, not SHA3-256), as lowercase hex.
+ * Strings are hashed as UTF-8.
+ */
+export function keccak256(input: Uint8Array | string): string {
+  const data = typeof input === "string" ? new TextEncoder().encode(input) : input;
+  const padded = new Uint8Array(Math.floor(data.length / RATE) * RATE + RATE);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += RATE) {
+    for (let i = 0; i < RATE / 8; i += 1) {
+      let lane = 0n;
+      for (let byte = 7; byte >= 0; byte -= 1) lane = (lane << 8n) | BigInt(padded[offset + i * 8 + byte]);
+      state[i] ^= lane;
+    }
+    permute(state);
+  }
+
+  let hex = "";
+  for (let i = 0; i < 4; i += 1) {
+    for (let byte = 0; byte < 8; byte += 1) hex += Number((state[i] >> BigInt(byte * 8)) & 0xffn).toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+/** EIP-55 mixed-case checksum form of a 20-byte hex address (with or without 0x). */
+export function toChecksumAddress(address: string): string {
+  const hex = address.trim().toLowerCase().replace(/^0x/, "");
+  if (!/^[0-9a-f]{40}$/.test(hex)) throw new Error(`Invalid address '${address}'`);
+  const hash = keccak256(hex);
+  let result = "0x";
+  for (let i = 0; i < 40; i += 1) result += parseInt(hash[i], 16) >= 8 ? hex[i].toUpperCase() : hex[i];
+  return result;
+}
+
+/** Whether address is 0x-prefixed and its letter case matches its EIP-55 checksum. */
+export function isChecksumAddress(address: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(address) && toChecksumAddress(address) === address;
+}
@@ -0,0 +1,46 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { LendingState, actionAmount, measureLending, simulateLending } from "./lendingSimulator.js";
+
+const E18 = 10n ** 18n;
+const ETHST = "bbbb000000000000000000000000000000000002";
+
+const state: LendingState = {
+  collateral: [
+    { asset: ETHST, symbol: "ETHST", decimals: 18, amount: E18, price: 3000n * E18, ltvBps: 7500, liquidationThresholdBps: 8000 },
+  ],
+  debt: 1000n * E18,
+};
+
+test("measures health factor, LTV, capacity and liquidation price", () => {
+  const metrics = measureLending(state);
+  assert.equal(metrics.healthFactor, "2.4");
+  assert.equal(metrics.ltvPercent, "33.33");
+  assert.equal(metrics.collateralValue, "3000");
+  assert.equal(metrics.borrowCapacity, "1250");
+  assert.equal(metrics.positions[0].liquidationPrice, "1250");
+  assert.equal(measureLending({ ...state, debt: 0n }).healthFactor, null);
+});
+
+test("applies borrows and price shocks in order", () => {
+  const { state: after, warnings } = simulateLending(state, [
+    { type: "borrow", amount: actionAmount(state, "amount", "1000 USDST") },
+    { type: "price", asset: ETHST, changeBps: -4000 },
+  ]);
+  const metrics = measureLending(after);
+  assert.equal(metrics.healthFactor, "0.72");
+  assert.equal(metrics.borrowCapacity, "0");
+  assert.deepEqual(warnings, ["health factor would fall below 1: the position could be liquidated"]);
+  // The input state is left untouched.
+  assert.equal(measureLending(state).healthFactor, "2.4");
+});
+
+test("warns about actions the protocol would reject", () => {
+  const { warnings } = simulateLending(state, [
+    { type: "withdraw", asset: ETHST, amount: actionAmount(state, "amount", "2 ETHST", ETHST) },
+    { type: "repay", amount: 2000n * E18 },
+  ]);
+  assert.match(warnings[0], /only 1 ETHST is supplied/);
+  assert.match(warnings[1], /only 1000 USDST is owed/);
+  assert.throws(() => simulateLending(state, [{ type: "supply", asset: "dddd000000000000000000000000000000000004", amount: 1n }]), /not a lending collateral asset/);
+});
@@ -0,0 +1,212 @@
+import { GriphookClient, safeFetch } from "./client.js";
+import { AmountInput, firstBaseUnits, formatFixed, formatUnits } from "./amounts.js";
+import { convertAmount } from "./amountInputs.js";
+import { PRICE_DECIMALS, fetchOraclePrice } from "./oracle.js";
+import { normalizeAddress, readRecords, readTokenAddress, toTokenInfo } from "./tokens.js";
+
+/** USD values use the oracle's fixed-point scale. */
+const USD_DECIMALS = PRICE_DECIMALS;
+const USD = 10n ** BigInt(USD_DECIMALS);
+const BPS = 10_000n;
+
+export type CollateralPosition = {
+  asset: string;
+  symbol?: string;
+  decimals: number;
+  /** Supplied collateral in base units. */
+  amount: bigint;
+  /** Oracle price of one whole token in USD, USD_DECIMALS fixed point. */
+  price: bigint;
+  ltvBps: number;
+  liquidationThresholdBps: number;
+};
+
+export type LendingState = {
+  collateral: CollateralPosition[];
+  /** Outstanding USDST debt in base units (18 decimals, valued at 1 USD). */
+  debt: bigint;
+};
+
+export type SimulationAction =
+  | { type: "supply" | "withdraw"; asset: string; amount: bigint }
+  | { type: "borrow" | "repay"; amount: bigint }
+  | { type: "price"; asset: string; changeBps: number };
+
+export type PositionMetrics = {
+  asset: string;
+  symbol?: string;
+  amount: string;
+  price: string;
+  value: string;
+  /** Price at which this asset alone would bring the health factor to 1; null when it cannot. */
+  liquidationPrice: string | null;
+};
+
+export type LendingMetrics = {
+  /** Null when there is no debt. Below 1 the position can be liquidated. */
+  healthFactor: string | null;
+  /** Debt as a percentage of collateral value. */
+  ltvPercent: string;
+  collateralValue: string;
+  debt: string;
+  /** Further USDST that could be borrowed under the per-asset ltv limits. */
+  borrowCapacity: string;
+  positions: PositionMetrics[];
+};
+
+function valueOf(position: CollateralPosition): bigint {
+  return (position.amount * position.price) / 10n ** BigInt(position.decimals);
+}
+
+export function measureLending(state: LendingState): LendingMetrics {
+  let collateralValue = 0n;
+  let weightedThreshold = 0n;
+  let borrowLimit = 0n;
+  for (const position of state.collateral) {
+    const value = valueOf(position);
+    collateralValue += value;
+    weightedThreshold += (value * BigInt(position.liquidationThresholdBps)) / BPS;
+    borrowLimit += (value * BigInt(position.ltvBps)) / BPS;
+  }
+
+  const positions = state.collateral.map((position): PositionMetrics => {
+    const othersThreshold = weightedThreshold - (valueOf(position) * BigInt(position.liquidationThresholdBps)) / BPS;
+    const uncovered = state.debt - othersThreshold;
+    const weight = position.amount * BigInt(position.liquidationThresholdBps);
+    const liquidationPrice = state.debt > 0n && uncovered > 0n && weight > 0n
+      ? formatFixed((uncovered * BPS * 10n ** BigInt(position.decimals)) / weight, USD_DECIMALS, 6)
+      : null;
+    return {
+      asset: position.asset,
+      symbol: position.symbol,
+      amount: formatUnits(position.amount, position.decimals),
+      price: formatFixed(position.price, USD_DECIMALS, 6),
+      value: formatFixed(valueOf(position), USD_DECIMALS, 2),
+      liquidationPrice,
+    };
+  });
+
+  return {
+    healthFactor: state.debt > 0n ? formatFixed((weightedThreshold * USD) / state.debt, USD_DECIMALS, 4) : null,
+    ltvPercent: collateralValue > 0n ? formatFixed((state.debt * 100n * USD) / collateralValue, USD_DECIMALS, 2) : "0",
+    collateralValue: formatFixed(collateralValue, USD_DECIMALS, 2),
+    debt: formatFixed(state.debt, USD_DECIMALS, 2),
+    borrowCapacity: formatFixed(borrowLimit > state.debt ? borrowLimit - state.debt : 0n, USD_DECIMALS, 2),
+    positions,
+  };
+}
+
+/**
+ * Apply hypothetical actions in order. Actions the protocol would reject (withdrawing or
+ * repaying more than is there, borrowing past the ltv limit) are still applied, clamped
+ * at zero, and reported as warnings.
+ */
+export function simulateLending(state: LendingState, actions: SimulationAction[]): { state: LendingState; warnings: string[] } {
+  const collateral = state.collateral.map((position) => ({ ...position }));
+  let debt = state.debt;
+  const warnings: string[] = [];
+
+  const find = (asset: string) => {
+    const position = collateral.find((entry) => normalizeAddress(entry.asset) === normalizeAddress(asset));
+    if (!position) throw new Error(`${asset} is not a lending collateral asset`);
+    return position;
+  };
+
+  for (const [index, action] of actions.entries()) {
+    const label = `actions[${index}] ${action.type}`;
+    switch (action.type) {
+      case "supply":
+        find(action.asset).amount += action.amount;
+        break;
+      case "withdraw": {
+        const position = find(action.asset);
+        if (action.amount > position.amount) {
+          warnings.push(`${label}: only ${formatUnits(position.amount, position.decimals)} ${position.symbol ?? action.asset} is supplied`);
+        }
+        position.amount = action.amount > position.amount ? 0n : position.amount - action.amount;
+        break;
+      }
+      case "borrow": {
+        const capacity = collateral.reduce((sum, position) => sum + (valueOf(position) * BigInt(position.ltvBps)) / BPS, 0n);
+        debt += action.amount;
+        if (debt > capacity) warnings.push(`${label}: debt would exceed the borrow limit of ${formatFixed(capacity, USD_DECIMALS, 2)} USDST`);
+        break;
+      }
+      case "repay":
+        if (action.amount > debt) warnings.push(`${label}: only ${formatUnits(debt, USD_DECIMALS)} USDST is owed`);
+        debt = action.amount > debt ? 0n : debt - action.amount;
+        break;
+      case "price": {
+        const position = find(action.asset);
+        position.price = (position.price * BigInt(10_000 + action.changeBps)) / BPS;
+        break;
+      }
+    }
+  }
+
+  const after = measureLending({ collateral, debt });
+  if (after.healthFactor !== null && Number(after.healthFactor) < 1) {
+    warnings.push("health factor would fall below 1: the position could be liquidated");
+  }
+  return { state: { collateral, debt }, warnings };
+}
+
+/** Per-asset entries (with ltv or liquidationThreshold) found anywhere one level deep in /lending/pools. */
+export function assetConfigs(pools: unknown): Map<string, Record<string, unknown>> {
+  const configs = new Map<string, Record<string, unknown>>();
+  const candidates = [pools, ...(pools && typeof pools === "object" ? Object.values(pools) : [])];
+  for (const candidate of candidates) {
+    for (const entry of readRecords(candidate)) {
+      const asset = readTokenAddress(entry.asset) ?? readTokenAddress(entry.address);
+      if (asset && ("ltv" in entry || "liquidationThreshold" in entry)) configs.set(normalizeAddress(asset), entry);
+    }
+  }
+  return configs;
+}
+
+/**
+ * Current lending position of the signed-in user: supplied collateral from
+ * /lending/collateral (which lists every collateral asset), per-asset config falling
+ * back to /lending/pools, prices falling back to the oracle, and debt from /lending/loans.
+ */
+export async function loadLendingState(client: GriphookClient): Promise<LendingState> {
+  const [collateralData, loans, pools] = await Promise.all([
+    safeFetch(client, "get", "/lending/collateral"),
+    safeFetch<Record<string, unknown>>(client, "get", "/lending/loans"),
+    safeFetch(client, "get", "/lending/pools"),
+  ]);
+  const configs = assetConfigs(pools);
+
+  const collateral = await Promise.all(readRecords(collateralData).map(async (entry): Promise<CollateralPosition | undefined> => {
+    const asset = readTokenAddress(entry.asset) ?? readTokenAddress(entry.address);
+    if (!asset) return undefined;
+    const config = { ...configs.get(normalizeAddress(asset)), ...entry };
+    const info = toTokenInfo(asset, entry.token && typeof entry.token === "object" ? entry.token : entry);
+
+    const price = firstBaseUnits(config, ["assetPrice", "price", "oraclePrice"]) ?? await fetchOraclePrice(client, asset);
+    return {
+      asset,
+      symbol: info.symbol,
+      decimals: info.decimals,
+      amount: firstBaseUnits(config, ["collateralizedAmount", "amount", "collateralAmount"]) ?? 0n,
+      price: price ?? 0n,
+      ltvBps: Number(firstBaseUnits(config, ["ltv"]) ?? 0n),
+      liquidationThresholdBps: Number(firstBaseUnits(config, ["liquidationThreshold"]) ?? 0n),
+    };
+  }));
+
+  return {
+    collateral: collateral.filter((position): position is CollateralPosition => position !== undefined),
+    debt: loans ? firstBaseUnits(loans, ["totalAmountOwed", "amountOwed", "totalDebt", "debt"]) ?? 0n : 0n,
+  };
+}
+
+/** Convert an action's amount input using the collateral asset's decimals, or USDST's when there is no asset. */
+export function actionAmount(state: LendingState, field: string, input: AmountInput, asset?: string): bigint {
+  if (asset === undefined) {
+    return BigInt(convertAmount(field, input, { symbol: "USDST", decimals: USD_DECIMALS }).raw);
+  }
+  const position = state.collateral.find((entry) => normalizeAddress(entry.asset) === normalizeAddress(asset));
+  if (!position) throw new Error(`${asset} is not a lending collateral asset`);
+  return BigInt(convertAmount(field, input, { address: position.asset, symbol: position.symbol, decimals: position.decimals }).raw);
+}
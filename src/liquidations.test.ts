@@ -0,0 +1,90 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { GriphookClient } from "./client.js";
+import { LiquidationCandidate, estimateLiquidation, rankOpportunities, readCdpCandidate, readLendingCandidates, scanLiquidations } from "./liquidations.js";
+
+const ETHST = "bbbb000000000000000000000000000000000002";
+const E18 = 10n ** 18n;
+
+const candidate: LiquidationCandidate = {
+  protocol: "lending",
+  id: "1",
+  collateralAsset: ETHST,
+  decimals: 18,
+  collateral: 2n * E18,
+  price: 3000n * E18,
+  debt: 5000n * E18,
+  bonusBps: 500,
+  closeFactorBps: 5000,
+  liquidatable: true,
+};
+
+test("caps the repayment by close factor and by the collateral available", () => {
+  // Half the debt (2500) needs 2625 USD of collateral; 6000 is available.
+  assert.deepEqual(estimateLiquidation(candidate), {
+    maxRepay: 2500n * E18,
+    collateralOut: 875n * E18 / 1000n,
+    collateralValue: 2625n * E18,
+    profit: 125n * E18,
+  });
+  // Only 1 ETHST (3000 USD) left: at most 3000 / 1.05 can be repaid.
+  const small = estimateLiquidation({ ...candidate, collateral: E18, closeFactorBps: 10_000 });
+  assert.equal(small.maxRepay, (3000n * E18 * 10_000n) / 10_500n);
+  assert.ok(small.collateralOut <= E18);
+  assert.equal(estimateLiquidation({ ...candidate, price: 0n }).maxRepay, 0n);
+});
+
+test("reads lending loans per collateral and CDP entries with their config", () => {
+  const configs = new Map([[ETHST, { liquidationBonus: "10500" }]]);
+  const [lending] = readLendingCandidates(
+    { id: "7", user: "cafe", totalAmountOwed: (5000n * E18).toString(), healthFactor: "0.95", collaterals: [{ asset: ETHST, amount: (2n * E18).toString() }] },
+    configs,
+    true,
+  );
+  assert.equal(lending.bonusBps, 500);
+  assert.equal(lending.closeFactorAssumed, true);
+  assert.equal(lending.health, 95n * E18 / 100n);
+
+  const cdp = readCdpCandidate(
+    { borrower: "beef", asset: { address: ETHST, _symbol: "ETHST" }, collateralAmount: (2n * E18).toString(), debtAmount: (4500n * E18).toString() },
+    { liquidationRatio: (15n * E18 / 10n).toString(), liquidationPenaltyBps: "1000", closeFactorBps: "5000" },
+  );
+  assert.equal(cdp?.symbol, "ETHST");
+  assert.equal(cdp?.bonusBps, 1000);
+  assert.equal(cdp?.closeFactorBps, 5000);
+  assert.equal(readCdpCandidate({ borrower: "beef", asset: ETHST, debtAmount: "0" }, {}), undefined);
+});
+
+test("prices with the oracle and ranks liquidatable positions by profit", async () => {
+  const client = {
+    async request(_method: string, path: string) {
+      switch (path) {
+        case "/lending/liquidate":
+          return [{ id: "1", totalAmountOwed: (100n * E18).toString(), collaterals: [{ asset: ETHST, amount: E18.toString() }] }];
+        case "/lending/liquidate/near-unhealthy":
+          return [{ id: "2", totalAmountOwed: (5000n * E18).toString(), collaterals: [{ asset: ETHST, amount: (2n * E18).toString() }] }];
+        case "/lending/pools":
+          return { closeFactor: "5000", assets: [{ asset: ETHST, ltv: 7000, liquidationBonus: 10500 }] };
+        case "/cdp/liquidatable":
+          return [{ borrower: "beef", asset: ETHST, collateralAmount: E18.toString(), debtAmount: (2500n * E18).toString() }];
+        case `/cdp/config/${ETHST}`:
+          return { liquidationRatio: (15n * E18 / 10n).toString(), liquidationPenaltyBps: 1000, closeFactorBps: 10000 };
+        case "/oracle/price":
+          return { price: (3000n * E18).toString() };
+        default:
+          throw new Error(`unexpected ${path}`);
+      }
+    },
+  } as unknown as GriphookClient;
+
+  const { candidates, unavailable } = await scanLiquidations(client, ["lending", "cdp"], 20);
+  assert.deepEqual(unavailable, []);
+  const ranked = rankOpportunities(candidates);
+  assert.deepEqual(ranked.map((opportunity) => [opportunity.protocol, opportunity.id, opportunity.liquidatable]), [
+    ["cdp", "beef", true],
+    ["lending", "1", true],
+    ["lending", "2", false],
+  ]);
+  assert.equal(ranked[0].health, 8n * E18 / 10n);
+  assert.equal(ranked[1].profit, (5n * E18) / 2n);
+});
@@ -0,0 +1,251 @@
+import { GriphookClient, safeFetch } from "./client.js";
+import { firstBaseUnits, formatFixed } from "./amounts.js";
+import { assetConfigs } from "./lendingSimulator.js";
+import { PRICE_DECIMALS, fetchOraclePrice } from "./oracle.js";
+import { normalizeAddress, readRecords, readString, readTokenAddress, toTokenInfo } from "./tokens.js";
+
+/** Debt is USDST (18 decimals, valued at 1 USD); prices use the oracle's 18-decimal scale. */
+const WAD = 10n ** 18n;
+const BPS = 10_000n;
+
+export const LIQUIDATION_PROTOCOLS = ["lending", "cdp"] as const;
+export type LiquidationProtocol = (typeof LIQUIDATION_PROTOCOLS)[number];
+
+export type LiquidationCandidate = {
+  protocol: LiquidationProtocol;
+  /** Loan id for lending; the borrower for CDP vaults. */
+  id: string;
+  borrower?: string;
+  collateralAsset: string;
+  symbol?: string;
+  decimals: number;
+  /** Seizable collateral in base units. */
+  collateral: bigint;
+  /** USD per whole collateral token, PRICE_DECIMALS fixed point. */
+  price: bigint;
+  /** USDST debt in base units. */
+  debt: bigint;
+  /** Health factor (CDP: collateralization over the liquidation ratio) as a WAD; below 1e18 is liquidatable. */
+  health?: bigint;
+  /** CDP only: the asset's liquidation ratio (WAD), from which health is derived at the oracle price. */
+  liquidationRatio?: bigint;
+  /** Collateral paid on top of the repaid value (lending bonus, CDP penalty). */
+  bonusBps: number;
+  /** Share of the debt one liquidation may repay. */
+  closeFactorBps: number;
+  /** Set when the backend reported no close factor and the full debt was assumed. */
+  closeFactorAssumed?: boolean;
+  /** Listed as liquidatable now, rather than near the threshold. */
+  liquidatable: boolean;
+};
+
+export type LiquidationEstimate = {
+  /** USDST repayable in one call, limited by the close factor and the collateral available. */
+  maxRepay: bigint;
+  /** Collateral received for maxRepay, bonus included (base units). */
+  collateralOut: bigint;
+  /** USD value of collateralOut at the oracle price. */
+  collateralValue: bigint;
+  /** collateralValue minus maxRepay. */
+  profit: bigint;
+};
+
+/** Estimate the most profitable single liquidation of a candidate at its price. */
+export function estimateLiquidation(candidate: LiquidationCandidate): LiquidationEstimate {
+  const scale = 10n ** BigInt(candidate.decimals);
+  const multiplier = BPS + BigInt(candidate.bonusBps);
+  const byCloseFactor = (candidate.debt * BigInt(candidate.closeFactorBps)) / BPS;
+  // Repaying r seizes r * (1 + bonus) of collateral value, so the collateral caps r.
+  const byCollateral = (((candidate.collateral * candidate.price) / scale) * BPS) / multiplier;
+  const maxRepay = candidate.price > 0n ? (byCloseFactor < byCollateral ? byCloseFactor : byCollateral) : 0n;
+  const collateralOut = candidate.price > 0n ? (maxRepay * multiplier * scale) / (BPS * candidate.price) : 0n;
+  const collateralValue = (collateralOut * candidate.price) / scale;
+  return { maxRepay, collateralOut, collateralValue, profit: collateralValue - maxRepay };
+}
+
+/** Basis points from a bps integer or a WAD fraction (5e17 = 50%); anything above 1e6 is taken as a WAD. */
+function toBps(value: bigint | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  return Number(value <= 1_000_000n ? value : (value * BPS) / WAD);
+}
+
+/** Bonus over the repaid value; configs may state it including the principal (10500 = 5%). */
+function toBonusBps(value: bigint | undefined): number {
+  const bps = toBps(value) ?? 0;
+  return bps >= Number(BPS) ? bps - Number(BPS) : bps;
+}
+
+/** A health factor given as a WAD integer, or as a decimal string or number. */
+function readHealth(value: unknown): bigint | undefined {
+  if (typeof value === "string" && /^\d{7,}$/.test(value)) return BigInt(value);
+  const number = typeof value === "number" ? value : typeof value === "string" && /^\d+(\.\d+)?$/.test(value) ? Number(value) : NaN;
+  return Number.isFinite(number) ? BigInt(Math.round(number * 1e6)) * 10n ** 12n : undefined;
+}
+
+/**
+ * Candidates of one lending loan, one per collateral asset. Collateral is listed under
+ * collaterals/collateral/assets, or on the loan itself; asset config comes from configs.
+ */
+export function readLendingCandidates(
+  loan: Record<string, unknown>,
+  configs: Map<string, Record<string, unknown>>,
+  liquidatable: boolean,
+  closeFactor?: bigint,
+): LiquidationCandidate[] {
+  const borrower = readString(loan, ["user", "borrower", "owner"]);
+  const id = readString(loan, ["id", "loanId"]) ?? borrower;
+  const debt = firstBaseUnits(loan, ["totalAmountOwed", "amountOwed", "totalDebt", "debt", "borrowedAmount"]) ?? 0n;
+  if (!id || debt === 0n) return [];
+  const nested = [loan.collaterals, loan.collateral, loan.assets].find(Array.isArray);
+  const entries = nested ? readRecords(nested) : [loan];
+  const closeFactorBps = toBps(closeFactor ?? firstBaseUnits(loan, ["closeFactor", "closeFactorBps"]));
+
+  const candidates: LiquidationCandidate[] = [];
+  for (const entry of entries) {
+    const asset = readTokenAddress(entry.asset ?? entry.collateralAsset ?? entry.token ?? entry.address);
+    if (!asset) continue;
+    const config = { ...configs.get(normalizeAddress(asset)), ...entry };
+    const info = toTokenInfo(asset, entry.token && typeof entry.token === "object" ? entry.token : entry);
+    candidates.push({
+      protocol: "lending",
+      id,
+      ...(borrower ? { borrower } : {}),
+      collateralAsset: normalizeAddress(asset),
+      ...(info.symbol ? { symbol: info.symbol } : {}),
+      decimals: info.decimals,
+      collateral: firstBaseUnits(entry, ["amount", "collateralAmount", "collateralizedAmount", "balance"]) ?? 0n,
+      price: firstBaseUnits(config, ["assetPrice", "price", "oraclePrice"]) ?? 0n,
+      debt,
+      health: readHealth(loan.healthFactor),
+      bonusBps: toBonusBps(firstBaseUnits(config, ["liquidationBonus", "liquidationBonusBps"])),
+      closeFactorBps: closeFactorBps ?? Number(BPS),
+      ...(closeFactorBps === undefined ? { closeFactorAssumed: true } : {}),
+      liquidatable,
+    });
+  }
+  return candidates;
+}
+
+/** Candidate of one /cdp/liquidatable entry, with the asset's /cdp/config entry. */
+export function readCdpCandidate(entry: Record<string, unknown>, config: Record<string, unknown>): LiquidationCandidate | undefined {
+  const asset = readTokenAddress(entry.asset ?? entry.collateralAsset);
+  const borrower = readString(entry, ["borrower", "user", "owner"]);
+  const debt = firstBaseUnits(entry, ["debtAmount", "debt", "totalDebt"]) ?? 0n;
+  if (!asset || !borrower || debt === 0n) return undefined;
+  const info = toTokenInfo(asset, entry.asset && typeof entry.asset === "object" ? entry.asset : entry);
+  const closeFactorBps = toBps(firstBaseUnits({ ...config, ...entry }, ["closeFactorBps", "closeFactor"]));
+  const liquidationRatio = firstBaseUnits({ ...config, ...entry }, ["liquidationRatio"]);
+  return {
+    protocol: "cdp",
+    id: borrower,
+    borrower,
+    collateralAsset: normalizeAddress(asset),
+    ...(info.symbol ? { symbol: info.symbol } : {}),
+    decimals: info.decimals,
+    collateral: firstBaseUnits(entry, ["collateralAmount", "collateral", "amount"]) ?? 0n,
+    price: firstBaseUnits(entry, ["price", "assetPrice", "collateralPrice", "oraclePrice"]) ?? 0n,
+    debt,
+    ...(liquidationRatio ? { liquidationRatio } : {}),
+    bonusBps: toBonusBps(firstBaseUnits({ ...config, ...entry }, ["liquidationPenaltyBps", "liquidationPenalty", "liquidationBonus"])),
+    closeFactorBps: closeFactorBps ?? Number(BPS),
+    ...(closeFactorBps === undefined ? { closeFactorAssumed: true } : {}),
+    liquidatable: true,
+  };
+}
+
+/** CDP health at the candidate's price: collateral value over debt, divided by the liquidation ratio (WAD). */
+export function cdpHealth(candidate: LiquidationCandidate): bigint | undefined {
+  if (!candidate.liquidationRatio || candidate.debt === 0n) return undefined;
+  const value = (candidate.collateral * candidate.price) / 10n ** BigInt(candidate.decimals);
+  return (((value * WAD) / candidate.debt) * WAD) / candidate.liquidationRatio;
+}
+
+export type ScanResult = {
+  candidates: LiquidationCandidate[];
+  /** Endpoints that could not be read. */
+  unavailable: string[];
+};
+
+/**
+ * Collect liquidation candidates: lending loans from /lending/liquidate (liquidatable now)
+ * and, with a positive margin, /lending/liquidate/near-unhealthy; CDP positions from
+ * /cdp/liquidatable. Collateral is priced with the oracle, falling back to the price the
+ * backend reports.
+ */
+export async function scanLiquidations(
+  client: GriphookClient,
+  protocols: readonly LiquidationProtocol[],
+  marginPercent: number,
+): Promise<ScanResult> {
+  const unavailable: string[] = [];
+  const candidates: LiquidationCandidate[] = [];
+  const read = async (path: string, params?: Record<string, unknown>) => {
+    const data = await safeFetch(client, "get", path, params ? { params } : undefined);
+    if (data === undefined) unavailable.push(path);
+    return data;
+  };
+
+  if (protocols.includes("lending")) {
+    const [liquidatable, near, pools] = await Promise.all([
+      read("/lending/liquidate"),
+      marginPercent > 0 ? read("/lending/liquidate/near-unhealthy", { margin: marginPercent / 100 }) : undefined,
+      safeFetch<Record<string, unknown>>(client, "get", "/lending/pools"),
+    ]);
+    const configs = assetConfigs(pools);
+    const closeFactor = pools && typeof pools === "object" && !Array.isArray(pools)
+      ? firstBaseUnits(pools, ["closeFactor", "closeFactorBps"])
+      : undefined;
+    const seen = new Set<string>();
+    for (const [data, now] of [[liquidatable, true], [near, false]] as const) {
+      for (const loan of readRecords(data)) {
+        for (const candidate of readLendingCandidates(loan, configs, now, closeFactor)) {
+          const key = `${candidate.id}:${candidate.collateralAsset}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          candidates.push(candidate);
+        }
+      }
+    }
+  }
+
+  if (protocols.includes("cdp")) {
+    const entries = readRecords(await read("/cdp/liquidatable"));
+    const assets = [...new Set(entries.map((entry) => readTokenAddress(entry.asset ?? entry.collateralAsset)).filter((asset): asset is string => Boolean(asset)))];
+    const configs = new Map(await Promise.all(assets.map(async (asset) =>
+      [normalizeAddress(asset), (await safeFetch<Record<string, unknown>>(client, "get", `/cdp/config/${asset}`)) ?? {}] as const)));
+    for (const entry of entries) {
+      const asset = readTokenAddress(entry.asset ?? entry.collateralAsset);
+      const candidate = readCdpCandidate(entry, (asset && configs.get(normalizeAddress(asset))) || {});
+      if (candidate) candidates.push(candidate);
+    }
+  }
+
+  const prices = new Map<string, bigint | undefined>();
+  await Promise.all([...new Set(candidates.map((candidate) => candidate.collateralAsset))].map(async (asset) => {
+    prices.set(asset, await fetchOraclePrice(client, asset));
+  }));
+  for (const candidate of candidates) {
+    candidate.price = prices.get(candidate.collateralAsset) ?? candidate.price;
+    if (candidate.protocol === "cdp") candidate.health = cdpHealth(candidate);
+  }
+  return { candidates, unavailable };
+}
+
+export type RankedOpportunity = LiquidationCandidate & LiquidationEstimate;
+
+/** Liquidatable-now first, then by estimated profit, largest first. */
+export function rankOpportunities(candidates: LiquidationCandidate[]): RankedOpportunity[] {
+  return candidates
+    .map((candidate) => ({ ...candidate, ...estimateLiquidation(candidate) }))
+    .sort((a, b) => Number(b.liquidatable) - Number(a.liquidatable) || (b.profit > a.profit ? 1 : b.profit < a.profit ? -1 : 0));
+}
+
+/** Health as a 4-decimal string, or null when unknown. */
+export function formatHealth(health: bigint | undefined): string | null {
+  return health === undefined ? null : formatFixed(health, 18, 4);
+}
+
+/** USD amount (PRICE_DECIMALS) with 2 decimals. */
+export function formatUsd(value: bigint): string {
+  return formatFixed(value, PRICE_DECIMALS, 2);
+}
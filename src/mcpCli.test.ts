@@ -41,3 +41,9 @@ test("allows --no- for booleans only", () => {
     /only valid for boolean inputs/
   );
 });
+
+test("splits comma-separated and JSON array values", () => {
+  const arraySchema = z.object({ assets: z.array(z.string()).optional() });
+  assert.deepEqual(parseToolArgs(["--assets", "ETHST, USDST"], arraySchema).input, { assets: ["ETHST", "USDST"] });
+  assert.deepEqual(parseToolArgs(["--assets", '["ETHST"]'], arraySchema).input, { assets: ["ETHST"] });
+});
@@ -1,9 +1,10 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { CallToolResult, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
 import * as z from "zod";
 import { GriphookClient } from "./client.js";
 import { GriphookConfig, loadConfig } from "./config.js";
 import { loadCredentials } from "./login.js";
+import { ToolMetadata, getToolMetadata } from "./toolMetadata.js";
 import { registerTools } from "./tools.js";
 
 type ToolRegistration = {
@@ -11,6 +12,8 @@ type ToolRegistration = {
   title?: string;
   description?: string;
   inputSchema: z.ZodTypeAny;
+  annotations?: ToolAnnotations;
+  metadata: ToolMetadata;
   handler: (input: unknown) => Promise<CallToolResult>;
 };
 
@@ -23,6 +26,9 @@ function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
   let current: z.ZodTypeAny = schema;
 
   while (true) {
+    // ZodArray.unwrap() returns the element schema; arrays are coerced as a whole.
+    if (current instanceof z.ZodArray) return current;
+
     const asAny = current as unknown as {
       unwrap?: () => z.ZodTypeAny;
       _def?: { innerType?: z.ZodTypeAny; schema?: z.ZodTypeAny };
@@ -129,6 +135,10 @@ function coerceToSchema(schema: z.ZodTypeAny, value: unknown): unknown {
     return values.map((entry) => coerceToSchema(element, entry));
   }
 
+  if (unwrapped instanceof z.ZodUnion && typeof value === "string") {
+    return parseJsonIfPossible(value);
+  }
+
   if (unwrapped instanceof z.ZodObject || unwrapped instanceof z.ZodRecord) {
     if (typeof value === "string") {
       const parsed = parseJsonIfPossible(value);
@@ -283,16 +293,35 @@ function getSchemaTypeLabel(schema: z.ZodTypeAny): string {
   if (unwrapped instanceof z.ZodEnum) {
     return `enum<${(unwrapped as unknown as { options: string[] }).options.join("|")}>`;
   }
+  if (unwrapped instanceof z.ZodUnion) {
+    return (unwrapped as unknown as { options: z.ZodTypeAny[] }).options.map(getSchemaTypeLabel).join("|");
+  }
   if (unwrapped instanceof z.ZodRecord) return "object";
   if (unwrapped instanceof z.ZodObject) return "object";
 
   return "value";
 }
 
+/**
+ * Short labels for the tool's safety-relevant metadata, e.g. ["admin", "moves value", "destructive"].
+ */
+function describeToolFlags(tool: Pick<ToolRegistration, "annotations" | "metadata">): string[] {
+  const flags: string[] = [];
+  flags.push(tool.annotations?.readOnlyHint ? "read-only" : "write");
+  if (tool.metadata.adminOnly) flags.push("admin");
+  if (tool.metadata.movesValue) flags.push("moves value");
+  if (!tool.annotations?.readOnlyHint) {
+    if (tool.annotations?.destructiveHint !== false) flags.push("destructive");
+    if (tool.annotations?.idempotentHint) flags.push("idempotent");
+  }
+  return flags;
+}
+
 function printToolHelp(tool: ToolRegistration): void {
   console.log(`\n${tool.name}`);
   if (tool.title) console.log(`  ${tool.title}`);
   if (tool.description) console.log(`  ${tool.description}`);
+  console.log(`  [${describeToolFlags(tool).join(", ")}]`);
 
   const shape = getObjectShape(tool.inputSchema);
   if (!shape || Object.keys(shape).length === 0) {
@@ -336,6 +365,10 @@ function printCallResult(result: CallToolResult, jsonOutput: boolean): void {
         console.log(JSON.stringify(entry, null, 2));
       }
     }
+    // Typed tools only summarize in content; the data itself is in structuredContent.
+    if (typeof asAny.structuredContent !== "undefined") {
+      console.log(JSON.stringify(asAny.structuredContent, null, 2));
+    }
     return;
   }
 
@@ -351,7 +384,7 @@ function createToolRegistry(client: GriphookClient, config: GriphookConfig): Map
   const tools = new Map<string, ToolRegistration>();
 
   const collector = {
-    registerTool(name: string, metadata: { title?: string; description?: string; inputSchema: unknown }, handler: (input: unknown) => Promise<CallToolResult>) {
+    registerTool(name: string, metadata: { title?: string; description?: string; inputSchema: unknown; annotations?: ToolAnnotations }, handler: (input: unknown) => Promise<CallToolResult>) {
       if (!(metadata.inputSchema instanceof z.ZodType)) {
         throw new Error(`Tool '${name}' has unsupported input schema type.`);
       }
@@ -361,6 +394,8 @@ function createToolRegistry(client: GriphookClient, config: GriphookConfig): Map
         title: metadata.title,
         description: metadata.description,
         inputSchema: metadata.inputSchema,
+        annotations: metadata.annotations,
+        metadata: getToolMetadata(name),
         handler,
       });
     },
@@ -391,13 +426,16 @@ export async function runToolsListCommand(argv: string[]): Promise<void> {
       name: tool.name,
       title: tool.title,
       description: tool.description,
+      annotations: tool.annotations,
+      adminOnly: tool.metadata.adminOnly ?? false,
+      movesValue: tool.metadata.movesValue ?? null,
     })), null, 2));
     return;
   }
 
   console.log(`Available MCP tools (${tools.length}):`);
   for (const tool of tools) {
-    console.log(`  ${tool.name}${tool.title ? ` - ${tool.title}` : ""}`);
+    console.log(`  ${tool.name}${tool.title ? ` - ${tool.title}` : ""} [${describeToolFlags(tool).join(", ")}]`);
   }
   console.log("\nInspect one tool: griphook tools <tool-name>");
   console.log("Call a tool:       griphook <tool-name> --<input-name> <value>");
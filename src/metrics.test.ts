@@ -0,0 +1,43 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { Counter, Gauge, Histogram, MetricsRegistry, endpointTemplate } from "./metrics.js";
+
+test("renders counters, gauges and histograms in Prometheus text format", () => {
+  const registry = new MetricsRegistry();
+  const calls = registry.register(new Counter("calls_total", "Calls", ["tool", "status"]));
+  const sessions = registry.register(new Gauge("sessions", "Sessions"));
+  const latency = registry.register(new Histogram("latency_seconds", "Latency", ["tool"], [0.1, 1]));
+
+  calls.inc({ status: "ok", tool: "strato.tokens" });
+  calls.inc({ tool: "strato.tokens", status: "ok" }, 2);
+  calls.inc({ tool: 'say "hi"\\', status: "error" });
+  sessions.set(3);
+  latency.observe({ tool: "strato.tokens" }, 0.05);
+  latency.observe({ tool: "strato.tokens" }, 0.5);
+  latency.observe({ tool: "strato.tokens" }, 5);
+
+  assert.equal(registry.render(), [
+    "# HELP calls_total Calls",
+    "# TYPE calls_total counter",
+    'calls_total{tool="strato.tokens",status="ok"} 3',
+    'calls_total{tool="say \\"hi\\"\\\\",status="error"} 1',
+    "# HELP sessions Sessions",
+    "# TYPE sessions gauge",
+    "sessions 3",
+    "# HELP latency_seconds Latency",
+    "# TYPE latency_seconds histogram",
+    'latency_seconds_bucket{tool="strato.tokens",le="0.1"} 1',
+    'latency_seconds_bucket{tool="strato.tokens",le="1"} 2',
+    'latency_seconds_bucket{tool="strato.tokens",le="+Inf"} 3',
+    'latency_seconds_sum{tool="strato.tokens"} 5.55',
+    'latency_seconds_count{tool="strato.tokens"} 3',
+    "",
+  ].join("\n"));
+});
+
+test("groups backend paths by endpoint template", () => {
+  assert.equal(endpointTemplate("/tokens/aaaa000000000000000000000000000000000001"), "/tokens/:address");
+  assert.equal(endpointTemplate("/bridge/bridgeableTokens/1?limit=5"), "/bridge/bridgeableTokens/:id");
+  assert.equal(endpointTemplate(`/transactions/0x${"ab".repeat(32)}`), "/transactions/:hash");
+  assert.equal(endpointTemplate("/lending/pools"), "/lending/pools");
+});
@@ -0,0 +1,189 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { auditStatus } from "./audit.js";
+import { interceptTools } from "./intercept.js";
+
+type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/** Labels in declared order, so the same label set always maps to the same series. */
+function seriesKey(names: readonly string[], labels: Labels): string {
+  return JSON.stringify(names.map((name) => labels[name] ?? ""));
+}
+
+function pickLabels(names: readonly string[], labels: Labels): Labels {
+  return Object.fromEntries(names.map((name) => [name, labels[name] ?? ""]));
+}
+
+abstract class Metric {
+  constructor(readonly name: string, readonly help: string, readonly type: string, protected labelNames: readonly string[]) {}
+
+  protected abstract samples(): string[];
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join("\n");
+  }
+}
+
+export class Counter extends Metric {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string, labelNames: readonly string[] = []) {
+    super(name, help, "counter", labelNames);
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = seriesKey(this.labelNames, labels);
+    const series = this.series.get(key) ?? { labels: pickLabels(this.labelNames, labels), value: 0 };
+    series.value += value;
+    this.series.set(key, series);
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map((series) => `${this.name}${formatLabels(series.labels)} ${series.value}`);
+  }
+}
+
+export class Gauge extends Metric {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string, labelNames: readonly string[] = []) {
+    super(name, help, "gauge", labelNames);
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.series.set(seriesKey(this.labelNames, labels), { labels: pickLabels(this.labelNames, labels), value });
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map((series) => `${this.name}${formatLabels(series.labels)} ${series.value}`);
+  }
+}
+
+export class Histogram extends Metric {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(name: string, help: string, labelNames: readonly string[] = [], private buckets = DEFAULT_BUCKETS) {
+    super(name, help, "histogram", labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(this.labelNames, labels);
+    const series = this.series.get(key)
+      ?? { labels: pickLabels(this.labelNames, labels), counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.counts[index] += 1;
+    });
+    series.sum += value;
+    series.count += 1;
+    this.series.set(key, series);
+  }
+
+  /** Start a timer; calling the result records the elapsed seconds with the given labels. */
+  startTimer(): (labels: Labels) => void {
+    const started = process.hrtime.bigint();
+    return (labels) => this.observe(labels, Number(process.hrtime.bigint() - started) / 1e9);
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const series of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${series.counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.count}`);
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${series.sum}`);
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /** Prometheus text exposition format (version 0.0.4). */
+  render(): string {
+    return `${this.metrics.map((metric) => metric.render()).join("\n")}\n`;
+  }
+}
+
+/** Process-wide metrics, shared by every session. */
+export const metrics = new MetricsRegistry();
+
+export const toolCalls = metrics.register(
+  new Counter("griphook_tool_calls_total", "Tool calls by tool and outcome (ok, error, dryRun, confirmationRequired)", ["tool", "status"]),
+);
+export const toolCallDuration = metrics.register(
+  new Histogram("griphook_tool_call_duration_seconds", "Tool call latency by tool and outcome", ["tool", "status"]),
+);
+export const backendRequestDuration = metrics.register(
+  new Histogram("griphook_backend_request_duration_seconds", "STRATO backend request latency by endpoint template and HTTP status", [
+    "method",
+    "endpoint",
+    "status",
+  ]),
+);
+export const tokenRefreshes = metrics.register(
+  new Counter("griphook_token_refresh_total", "Refresh token exchanges in hosted mode by outcome", ["outcome"]),
+);
+export const jwksVerificationFailures = metrics.register(
+  new Counter("griphook_jwks_verification_failures_total", "Bearer access tokens that failed JWKS verification", ["reason"]),
+);
+export const activeSessions = metrics.register(new Gauge("griphook_active_sessions", "Open MCP HTTP sessions"));
+export const cacheLookups = metrics.register(
+  new Counter("griphook_cache_lookups_total", "Cache lookups by cache and result (hit or miss)", ["cache", "result"]),
+);
+
+/**
+ * Collapse the variable parts of a backend path (addresses, hashes, numeric and UUID ids)
+ * so latency is grouped per endpoint instead of per resource.
+ */
+export function endpointTemplate(path: string): string {
+  return path
+    .split("?")[0]
+    .split("/")
+    .map((segment) => {
+      if (/^(0x)?[0-9a-fA-F]{40}$/.test(segment)) return ":address";
+      if (/^(0x)?[0-9a-fA-F]{64}$/.test(segment)) return ":hash";
+      if (/^\d+$/.test(segment) || /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment)) return ":id";
+      return segment;
+    })
+    .join("/");
+}
+
+/** Count every tool call and time it, by tool and outcome. */
+export function withMetrics(server: McpServer): McpServer {
+  return interceptTools(server, (tool, registration) => {
+    const { handler } = registration;
+    return {
+      config: registration.config,
+      handler: async (input, extra) => {
+        const done = toolCallDuration.startTimer();
+        let status = "error";
+        try {
+          const result = await handler(input, extra);
+          status = auditStatus(result);
+          return result;
+        } finally {
+          toolCalls.inc({ tool, status });
+          done({ tool, status });
+        }
+      },
+    };
+  });
+}
@@ -0,0 +1,44 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { assessFreshness, bucketOhlc, readOracleReading, readPriceHistory, readTimestamp } from "./oracle.js";
+
+const E18 = 10n ** 18n;
+
+test("reads timestamps in seconds, milliseconds and ISO form", () => {
+  const expected = new Date("2026-01-01T00:00:00Z").getTime();
+  assert.equal(readTimestamp(expected / 1000)?.getTime(), expected);
+  assert.equal(readTimestamp(String(expected))?.getTime(), expected);
+  assert.equal(readTimestamp("2026-01-01T00:00:00Z")?.getTime(), expected);
+  assert.equal(readTimestamp("yesterday"), undefined);
+  assert.deepEqual(readOracleReading("5"), { price: 5n });
+});
+
+test("buckets sorted history into OHLC candles", () => {
+  const points = readPriceHistory({
+    data: [
+      { price: (3n * E18).toString(), timestamp: 3700 },
+      { price: (2n * E18).toString(), timestamp: 60 },
+      { price: (5n * E18).toString(), timestamp: 1800 },
+      { price: (1n * E18).toString(), timestamp: 3000 },
+      { timestamp: 3650 },
+    ],
+  });
+  assert.equal(points.length, 4);
+  const candles = bucketOhlc(points, 3600);
+  assert.equal(candles.length, 2);
+  assert.deepEqual(
+    { open: candles[0].open, high: candles[0].high, low: candles[0].low, close: candles[0].close, count: candles[0].count },
+    { open: 2n * E18, high: 5n * E18, low: E18, close: E18, count: 3 },
+  );
+  assert.equal(candles[1].start.getTime(), 3_600_000);
+  assert.equal(candles[1].close, 3n * E18);
+});
+
+test("flags prices older than the threshold and missing prices as stale", () => {
+  const now = new Date("2026-01-01T01:00:00Z");
+  const reading = { price: E18, updatedAt: new Date("2026-01-01T00:00:00Z") };
+  assert.deepEqual(assessFreshness(reading, 7200, now), { updatedAt: "2026-01-01T00:00:00.000Z", ageSeconds: 3600, stale: false });
+  assert.equal(assessFreshness(reading, 600, now).stale, true);
+  assert.equal(assessFreshness({ price: E18 }, 600, now).stale, null);
+  assert.equal(assessFreshness(undefined, 600, now).stale, true);
+});
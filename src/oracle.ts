@@ -0,0 +1,129 @@
+import { GriphookClient, safeFetch } from "./client.js";
+import { firstBaseUnits, readBaseUnits } from "./amounts.js";
+
+/** Oracle prices are USD per whole token, fixed point with this many decimals. */
+export const PRICE_DECIMALS = 18;
+
+const TIMESTAMP_KEYS = ["timestamp", "lastUpdated", "updatedAt", "block_timestamp", "time", "createdAt"];
+const PRICE_KEYS = ["price", "value", "close"];
+
+export type OracleReading = {
+  price: bigint;
+  /** When the price was last written; undefined when the backend does not say. */
+  updatedAt?: Date;
+};
+
+/**
+ * Read a timestamp given as unix seconds, unix milliseconds (either as a number or a
+ * digit string) or an ISO date string.
+ */
+export function readTimestamp(value: unknown): Date | undefined {
+  const numeric = typeof value === "number" ? value : typeof value === "string" && /^\d+$/.test(value) ? Number(value) : undefined;
+  if (numeric !== undefined) {
+    if (!Number.isFinite(numeric) || numeric <= 0) return undefined;
+    return new Date(numeric < 1e12 ? numeric * 1000 : numeric);
+  }
+  if (typeof value === "string") {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : new Date(parsed);
+  }
+  return undefined;
+}
+
+function firstTimestamp(record: Record<string, unknown>): Date | undefined {
+  for (const key of TIMESTAMP_KEYS) {
+    const time = readTimestamp(record[key]);
+    if (time) return time;
+  }
+  return undefined;
+}
+
+/** Read a /oracle/price response: { price, timestamp } or a bare base-unit value. */
+export function readOracleReading(data: unknown): OracleReading | undefined {
+  if (data && typeof data === "object" && !Array.isArray(data)) {
+    const record = data as Record<string, unknown>;
+    const price = firstBaseUnits(record, ["price"]);
+    return price === undefined ? undefined : { price, updatedAt: firstTimestamp(record) };
+  }
+  const price = readBaseUnits(data);
+  return price === undefined ? undefined : { price };
+}
+
+/**
+ * Current oracle reading of an asset (GET /oracle/price?asset=). Returns undefined when
+ * the oracle has no price for it.
+ */
+export async function fetchOracleReading(client: GriphookClient, asset: string): Promise<OracleReading | undefined> {
+  return readOracleReading(await safeFetch(client, "get", "/oracle/price", { params: { asset } }));
+}
+
+/** Current oracle price of an asset, or undefined when the oracle has none. */
+export async function fetchOraclePrice(client: GriphookClient, asset: string): Promise<bigint | undefined> {
+  return (await fetchOracleReading(client, asset))?.price;
+}
+
+export type PricePoint = { time: Date; price: bigint };
+
+/** Points of a /oracle/price-history response, oldest first. Entries without a price or time are skipped. */
+export function readPriceHistory(data: unknown): PricePoint[] {
+  const record = data && typeof data === "object" && !Array.isArray(data) ? data as Record<string, unknown> : {};
+  const list = Array.isArray(data) ? data : [record.data, record.history, record.prices].find(Array.isArray) ?? [];
+  const points: PricePoint[] = [];
+  for (const entry of list) {
+    if (!entry || typeof entry !== "object") continue;
+    const price = firstBaseUnits(entry as Record<string, unknown>, PRICE_KEYS);
+    const time = firstTimestamp(entry as Record<string, unknown>);
+    if (price !== undefined && time) points.push({ time, price });
+  }
+  return points.sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+export type Candle = {
+  start: Date;
+  open: bigint;
+  high: bigint;
+  low: bigint;
+  close: bigint;
+  /** Price updates in the bucket. */
+  count: number;
+};
+
+/** Group sorted points into OHLC candles of intervalSeconds, aligned to the unix epoch. Empty buckets are omitted. */
+export function bucketOhlc(points: PricePoint[], intervalSeconds: number): Candle[] {
+  const size = intervalSeconds * 1000;
+  const candles: Candle[] = [];
+  for (const { time, price } of points) {
+    const start = Math.floor(time.getTime() / size) * size;
+    const last = candles[candles.length - 1];
+    if (last && last.start.getTime() === start) {
+      if (price > last.high) last.high = price;
+      if (price < last.low) last.low = price;
+      last.close = price;
+      last.count += 1;
+    } else {
+      candles.push({ start: new Date(start), open: price, high: price, low: price, close: price, count: 1 });
+    }
+  }
+  return candles;
+}
+
+/** Price history of an asset (GET /oracle/price-history/{asset}) between from and to, inclusive. */
+export async function fetchPriceHistory(client: GriphookClient, asset: string, from?: Date, to?: Date): Promise<PricePoint[]> {
+  const points = readPriceHistory(await safeFetch(client, "get", `/oracle/price-history/${asset}`));
+  return points.filter(({ time }) => (!from || time >= from) && (!to || time <= to));
+}
+
+export type Freshness = {
+  updatedAt: string | null;
+  ageSeconds: number | null;
+  /** Null when the oracle does not report when the price was updated. */
+  stale: boolean | null;
+};
+
+/** Whether a reading is older than maxAgeSeconds at now. A missing price counts as stale. */
+export function assessFreshness(reading: OracleReading | undefined, maxAgeSeconds: number, now: Date): Freshness {
+  if (!reading) return { updatedAt: null, ageSeconds: null, stale: true };
+  if (!reading.updatedAt) return { updatedAt: null, ageSeconds: null, stale: null };
+  const ageSeconds = Math.max(0, Math.floor((now.getTime() - reading.updatedAt.getTime()) / 1000));
+  return { updatedAt: reading.updatedAt.toISOString(), ageSeconds, stale: ageSeconds > maxAgeSeconds };
+}
@@ -0,0 +1,200 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod";
+import { GriphookClient } from "./client.js";
+import { GriphookConfig, loadConfig } from "./config.js";
+import { ToolHandler } from "./intercept.js";
+import { Policy, PolicyLedger, evaluatePolicy, isToolAllowed, matchesGlob, withPolicy } from "./policy.js";
+import { RequestContext, requestContext } from "./requestContext.js";
+import { ResolvedValueFlow } from "./valueFlow.js";
+
+const USDST = "0x937efa7e3a77e20bbdbd7c0d32b6514f368c1010";
+const RECIPIENT = "1111111111111111111111111111111111111111";
+
+function transfer(amount: bigint, destination = RECIPIENT): ResolvedValueFlow {
+  return {
+    tool: "strato.tokens.transfer",
+    token: { address: USDST, symbol: "USDST", decimals: 18 },
+    amount: { raw: amount.toString(), formatted: "", value: amount },
+    destination,
+  };
+}
+
+test("matches tool names against globs", () => {
+  assert.equal(matchesGlob("strato.cdp.mint", "strato.cdp.*"), true);
+  assert.equal(matchesGlob("strato.cdp.mint", "strato.*.mint"), true);
+  assert.equal(matchesGlob("strato.cdp.mint", "strato.cdp"), false);
+  assert.equal(matchesGlob("strato.cdpXmint", "strato.cdp.mint"), false);
+});
+
+test("deny wins over allow", () => {
+  const policy: Policy = { tools: { allow: ["strato.*"], deny: ["strato.admin.*"] } };
+  assert.equal(isToolAllowed(policy, "strato.tokens"), true);
+  assert.equal(isToolAllowed(policy, "strato.admin.pause"), false);
+  assert.equal(isToolAllowed({ tools: { allow: ["strato.tokens*"] } }, "strato.swap"), false);
+});
+
+test("enforces per-call limits in human units", () => {
+  const policy: Policy = { limits: [{ token: "usdst", perCall: "100" }] };
+  assert.equal(evaluatePolicy(policy, "strato.tokens.transfer", transfer(100n * 10n ** 18n), 0n), null);
+  assert.equal(
+    evaluatePolicy(policy, "strato.tokens.transfer", transfer(100n * 10n ** 18n + 1n), 0n)?.rule,
+    "limits[0].perCall",
+  );
+});
+
+test("enforces rolling daily limits", () => {
+  const policy: Policy = { limits: [{ token: "*", daily: "10" }] };
+  const ledger = new PolicyLedger();
+  const now = Date.now();
+  ledger.record("alice", USDST, 8n * 10n ** 18n, now - 60_000);
+
+  const spent = ledger.spent("alice", USDST, now);
+  assert.equal(evaluatePolicy(policy, "strato.tokens.transfer", transfer(2n * 10n ** 18n), spent), null);
+  assert.equal(
+    evaluatePolicy(policy, "strato.tokens.transfer", transfer(3n * 10n ** 18n), spent)?.rule,
+    "limits[0].daily",
+  );
+
+  assert.equal(ledger.spent("alice", USDST, now + 24 * 60 * 60 * 1000), 0n);
+  assert.equal(ledger.spent("bob", USDST, now), 0n);
+});
+
+test("rejects calls without an explicit amount when a limit applies", () => {
+  const policy: Policy = { limits: [{ token: "USDST", perCall: "5" }] };
+  const flow: ResolvedValueFlow = { tool: "strato.cdp.mint-max", token: { symbol: "USDST", decimals: 18 } };
+  assert.equal(evaluatePolicy(policy, "strato.cdp.mint-max", flow, 0n)?.rule, "limits[0]");
+  assert.equal(evaluatePolicy({ limits: [{ token: "USDST", perCall: "5", tools: ["strato.tokens.*"] }] }, "strato.cdp.mint-max", flow, 0n), null);
+});
+
+test("checks destinations against the allowlist", () => {
+  const policy: Policy = { destinations: { allow: [`0x${RECIPIENT.toUpperCase()}`] } };
+  assert.equal(evaluatePolicy(policy, "strato.tokens.transfer", transfer(1n), 0n), null);
+
+  const violation = evaluatePolicy(policy, "strato.tokens.transfer", transfer(1n, "2222222222222222222222222222222222222222"), 0n);
+  assert.equal(violation?.rule, "destinations.allow");
+  assert.equal(violation?.tool, "strato.tokens.transfer");
+
+  // An approval hands the spender the right to move funds, so it is checked too.
+  assert.equal(
+    evaluatePolicy(policy, "strato.tokens.approve", transfer(1n, "2222222222222222222222222222222222222222"), 0n)?.rule,
+    "destinations.allow",
+  );
+});
+
+const SIX_USDST = (6n * 10n ** 18n).toString();
+
+async function sendBorrow(): Promise<CallToolResult> {
+  requestContext.getStore()?.sentWrites?.push({ method: "post", path: "/lending/borrow" });
+  return { content: [] };
+}
+
+function policed(name: string, config: GriphookConfig, client: GriphookClient, ledger: PolicyLedger, handler: ToolHandler): ToolHandler {
+  let registered: ToolHandler | undefined;
+  const collector = {
+    registerTool(_name: string, _config: unknown, handler: ToolHandler) {
+      registered = handler;
+    },
+  } as unknown as McpServer;
+  withPolicy(collector, client, config, ledger).registerTool(name, { inputSchema: z.object({}).passthrough() }, handler);
+  return registered!;
+}
+
+/** Register strato.lending.borrow behind withPolicy; by default the handler "sends" one write. */
+function policedBorrow(config: GriphookConfig, ledger: PolicyLedger, handler = sendBorrow): ToolHandler {
+  return policed("strato.lending.borrow", config, new GriphookClient(config), ledger, handler);
+}
+
+const dailyLimit: Policy = { limits: [{ token: "USDST", daily: "10" }] };
+
+test("servers sharing a ledger share the daily limit", async () => {
+  const config = { ...loadConfig(), policy: dailyLimit };
+  const ledger = new PolicyLedger();
+  // One server per HTTP session, as startHttpServer builds them.
+  const first = policedBorrow(config, ledger);
+  const second = policedBorrow(config, ledger);
+
+  assert.equal((await first({ amount: SIX_USDST }, undefined)).isError, undefined);
+  const result = await second({ amount: SIX_USDST }, undefined);
+  assert.equal(result.isError, true);
+  assert.equal((result.structuredContent as { rule: string }).rule, "limits[0].daily");
+});
+
+test("tracks hosted spending per token subject, not per access token", async () => {
+  const config = { ...loadConfig(), policy: dailyLimit, hosted: { publicUrl: "https://griphook.example" } as GriphookConfig["hosted"] };
+  const borrow = policedBorrow(config, new PolicyLedger());
+  const call = (context: RequestContext) => requestContext.run(context, () => borrow({ amount: SIX_USDST }, undefined));
+
+  assert.equal((await call({ accessToken: "token-1", user: "alice" })).isError, undefined);
+  assert.equal((await call({ accessToken: "token-2", user: "alice" })).isError, true);
+  assert.equal((await call({ accessToken: "token-3", user: "bob" })).isError, undefined);
+  assert.equal((await call({ accessToken: "token-4" })).isError, true);
+});
+
+test("reserves the amount while a call runs and releases it when nothing was sent", async () => {
+  const config = { ...loadConfig(), policy: dailyLimit };
+  const ledger = new PolicyLedger();
+  let approve: () => void = () => {};
+  const approved = new Promise<void>((resolve) => {
+    approve = resolve;
+  });
+  const slow = policedBorrow(config, ledger, async () => {
+    await approved;
+    return sendBorrow();
+  });
+
+  const pending = slow({ amount: SIX_USDST }, undefined);
+  const concurrent = await policedBorrow(config, ledger)({ amount: SIX_USDST }, undefined);
+  assert.equal((concurrent.structuredContent as { rule: string }).rule, "limits[0].daily");
+  approve();
+  assert.equal((await pending).isError, undefined);
+  assert.equal(ledger.spent("local", "usdst"), 6n * 10n ** 18n);
+
+  // A dry run or pending confirmation sends nothing, so its reservation is released.
+  const unsentLedger = new PolicyLedger();
+  await policedBorrow(config, unsentLedger, async () => ({ content: [] }))({ amount: SIX_USDST }, undefined);
+  assert.equal(unsentLedger.spent("local", "usdst"), 0n);
+});
+
+test("counts a call that failed after sending part of its writes", async () => {
+  const config = { ...loadConfig(), policy: dailyLimit };
+  const ledger = new PolicyLedger();
+  await policedBorrow(config, ledger, async () => ({ ...await sendBorrow(), isError: true }))({ amount: SIX_USDST }, undefined);
+  assert.equal(ledger.spent("local", "usdst"), 6n * 10n ** 18n);
+});
+
+test("checks every token a call spends", async () => {
+  const pool = {
+    tokenA: { address: "aaaa000000000000000000000000000000000001", _symbol: "AAA", customDecimals: 18 },
+    tokenB: { address: "bbbb000000000000000000000000000000000002", _symbol: "BBB", customDecimals: 18 },
+  };
+  const client = { request: async (_method: string, path: string) => (path === "/swap-pools/pool1" ? pool : undefined) } as unknown as GriphookClient;
+  const config = { ...loadConfig(), policy: { limits: [{ token: "AAA", perCall: "5" }] } };
+  let sent = 0;
+  const addLiquidity = policed("strato.swap.add-liquidity", config, client, new PolicyLedger(), async () => {
+    sent += 1;
+    return { content: [] };
+  });
+  const input = (maxTokenAAmount: bigint) => ({ poolAddress: "pool1", tokenBAmount: "1", maxTokenAAmount: maxTokenAAmount.toString() });
+
+  const result = await addLiquidity(input(6n * 10n ** 18n), undefined);
+  assert.equal(result.isError, true);
+  assert.equal((result.structuredContent as { rule: string }).rule, "limits[0].perCall");
+  assert.equal(sent, 0);
+
+  assert.equal((await addLiquidity(input(5n * 10n ** 18n), undefined)).isError, undefined);
+  assert.equal(sent, 1);
+});
+
+test("allows only read JSON-RPC methods while a policy is active", async () => {
+  const config = { ...loadConfig(), policy: {} };
+  const rpc = policed("strato.rpc", config, new GriphookClient(config), new PolicyLedger(), async () => ({ content: [] }));
+  const call = (method: string) => rpc({ chainId: "1", payload: { jsonrpc: "2.0", id: 1, method } }, undefined);
+
+  assert.equal((await call("eth_call")).isError, undefined);
+  const result = await call("eth_sendRawTransaction");
+  assert.equal(result.isError, true);
+  assert.equal((result.structuredContent as { rule: string }).rule, "rpc");
+});
@@ -0,0 +1,270 @@
+import fs from "fs";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod";
+import type { GriphookClient } from "./client.js";
+import type { GriphookConfig } from "./config.js";
+import { parseUnits } from "./amounts.js";
+import { interceptTools } from "./intercept.js";
+import { isReadOnlyRpcMethod } from "./readOnly.js";
+import { RecordedRequest, collectSentWrites, requestContext } from "./requestContext.js";
+import { normalizeAddress } from "./tokens.js";
+import { getToolMetadata } from "./toolMetadata.js";
+import { ResolvedValueFlow, resolveValueFlows } from "./valueFlow.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Tools that send funds, or the right to spend them, to another address; the destination
+ * allowlist applies to these unless configured otherwise.
+ */
+const DEFAULT_DESTINATION_TOOLS = [
+  "strato.tokens.transfer",
+  "strato.tokens.transfer-from",
+  "strato.tokens.approve",
+  "strato.bridge.request-withdrawal",
+];
+
+const limitSchema = z.object({
+  token: z.string().describe("Token symbol, token address, or * to apply to every token separately"),
+  perCall: z.string().regex(/^\d*\.?\d+$/).optional().describe("Maximum amount per call, in human units"),
+  daily: z.string().regex(/^\d*\.?\d+$/).optional().describe("Maximum amount over a rolling 24h window, in human units"),
+  tools: z.array(z.string()).optional().describe("Tool names or globs; defaults to every value-moving tool"),
+});
+
+export const policySchema = z.object({
+  tools: z.object({
+    allow: z.array(z.string()).optional(),
+    deny: z.array(z.string()).optional(),
+  }).optional(),
+  limits: z.array(limitSchema).optional(),
+  destinations: z.object({
+    allow: z.array(z.string()),
+    tools: z.array(z.string()).optional().describe("Tool names or globs; defaults to token transfers, approvals and bridge withdrawals"),
+  }).optional(),
+});
+
+export type Policy = z.infer<typeof policySchema>;
+type PolicyLimit = z.infer<typeof limitSchema>;
+
+export type PolicyViolation = {
+  /** Path of the rule that failed, e.g. limits[0].daily */
+  rule: string;
+  tool: string;
+  message: string;
+};
+
+/**
+ * Load and validate a JSON policy file. Throws on unreadable or invalid files so a
+ * broken policy never silently disables enforcement.
+ */
+export function loadPolicyFile(path: string): Policy {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(path, "utf8"));
+  } catch (err) {
+    throw new Error(`Failed to read policy file ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+  const parsed = policySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "policy"}: ${issue.message}`);
+    throw new Error(`Invalid policy file ${path}: ${issues.join("; ")}`);
+  }
+  return parsed.data;
+}
+
+export function matchesGlob(name: string, pattern: string): boolean {
+  const regex = new RegExp(`^${pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`);
+  return regex.test(name);
+}
+
+function matchesAny(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesGlob(name, pattern));
+}
+
+export function isToolAllowed(policy: Policy, name: string): boolean {
+  const { allow, deny } = policy.tools ?? {};
+  if (deny && matchesAny(name, deny)) return false;
+  if (allow && !matchesAny(name, allow)) return false;
+  return true;
+}
+
+function limitAppliesTo(limit: PolicyLimit, tool: string, flow: ResolvedValueFlow): boolean {
+  if (limit.tools && !matchesAny(tool, limit.tools)) return false;
+  if (limit.token === "*") return true;
+  const wanted = limit.token.toLowerCase();
+  return flow.token.symbol?.toLowerCase() === wanted
+    || (flow.token.address !== undefined && normalizeAddress(flow.token.address) === normalizeAddress(limit.token));
+}
+
+function tokenKey(flow: ResolvedValueFlow): string {
+  return flow.token.address ? normalizeAddress(flow.token.address) : (flow.token.symbol ?? "unknown").toLowerCase();
+}
+
+/**
+ * Rolling 24h record of amounts moved, per caller and token.
+ */
+export class PolicyLedger {
+  private entries = new Map<string, Array<{ at: number; amount: bigint }>>();
+
+  private prune(key: string, now: number): Array<{ at: number; amount: bigint }> {
+    const kept = (this.entries.get(key) ?? []).filter((entry) => now - entry.at < DAY_MS);
+    this.entries.set(key, kept);
+    return kept;
+  }
+
+  spent(caller: string, token: string, now = Date.now()): bigint {
+    return this.prune(`${caller}:${token}`, now).reduce((sum, entry) => sum + entry.amount, 0n);
+  }
+
+  record(caller: string, token: string, amount: bigint, now = Date.now()): void {
+    this.reserve(caller, token, amount, now);
+  }
+
+  /**
+   * Count amount as spent right away, before the call that spends it has run, so
+   * concurrent calls cannot each pass the limit. The returned function takes it back.
+   */
+  reserve(caller: string, token: string, amount: bigint, now = Date.now()): () => void {
+    const key = `${caller}:${token}`;
+    const entry = { at: now, amount };
+    this.prune(key, now).push(entry);
+    return () => {
+      const entries = this.entries.get(key) ?? [];
+      if (entries.includes(entry)) this.entries.set(key, entries.filter((kept) => kept !== entry));
+    };
+  }
+}
+
+/**
+ * Check a value-moving call against the policy's limits and destination allowlist.
+ * Returns the first violated rule, or null when the call is allowed.
+ */
+export function evaluatePolicy(
+  policy: Policy,
+  tool: string,
+  flow: ResolvedValueFlow,
+  spentToday: bigint,
+): PolicyViolation | null {
+  const destinations = policy.destinations;
+  if (flow.destination && destinations && matchesAny(tool, destinations.tools ?? DEFAULT_DESTINATION_TOOLS)) {
+    const allowed = destinations.allow.map(normalizeAddress);
+    if (!allowed.includes(normalizeAddress(flow.destination))) {
+      return { rule: "destinations.allow", tool, message: `Destination ${flow.destination} is not on the allowlist` };
+    }
+  }
+
+  const symbol = flow.token.symbol ?? flow.token.address ?? "token";
+  for (const [index, limit] of (policy.limits ?? []).entries()) {
+    if (!limitAppliesTo(limit, tool, flow)) continue;
+
+    if (!flow.amount) {
+      return {
+        rule: `limits[${index}]`,
+        tool,
+        message: `${tool} moves an amount decided on-chain, which cannot be checked against the ${limit.token} limit. Use a tool with an explicit amount.`,
+      };
+    }
+
+    if (limit.perCall !== undefined && flow.amount.value > parseUnits(limit.perCall, flow.token.decimals)) {
+      return {
+        rule: `limits[${index}].perCall`,
+        tool,
+        message: `Amount ${flow.amount.formatted} ${symbol} exceeds the per-call limit of ${limit.perCall}`,
+      };
+    }
+
+    if (limit.daily !== undefined && spentToday + flow.amount.value > parseUnits(limit.daily, flow.token.decimals)) {
+      return {
+        rule: `limits[${index}].daily`,
+        tool,
+        message: `Amount ${flow.amount.formatted} ${symbol} would exceed the rolling 24h limit of ${limit.daily}`,
+      };
+    }
+  }
+
+  return null;
+}
+
+function violationResult(violation: PolicyViolation): CallToolResult {
+  const payload = { error: "policy_violation", ...violation };
+  return {
+    content: [{ type: "text", text: `Policy violation (${violation.rule}): ${violation.message}` }],
+    structuredContent: payload,
+    isError: true,
+  };
+}
+
+/**
+ * Enforce the loaded policy file: hide tools the policy does not allow, check
+ * value-moving calls against amount limits and the destination allowlist, and keep
+ * raw JSON-RPC to read methods. Servers that
+ * serve the same callers (one per HTTP session) must share the ledger, or every new
+ * session would start with an empty 24h window.
+ */
+export function withPolicy(server: McpServer, client: GriphookClient, config: GriphookConfig, ledger: PolicyLedger): McpServer {
+  const policy = config.policy;
+  if (!policy) return server;
+
+  return interceptTools(server, (name, registration) => {
+    if (!isToolAllowed(policy, name)) return null;
+    const { handler } = registration;
+
+    // Raw JSON-RPC could submit signed transactions that no limit sees, so only reads pass.
+    if (name === "strato.rpc") {
+      return {
+        config: registration.config,
+        handler: async (input, extra) => {
+          const method = (input.payload as Record<string, unknown> | undefined)?.method;
+          if (!isReadOnlyRpcMethod(method)) {
+            return violationResult({
+              rule: "rpc",
+              tool: name,
+              message: `JSON-RPC method ${JSON.stringify(method)} is not allowed while a policy is active`,
+            });
+          }
+          return handler(input, extra);
+        },
+      };
+    }
+
+    if (!getToolMetadata(name).movesValue) return registration;
+
+    return {
+      config: registration.config,
+      handler: async (input, extra) => {
+        const flows = await resolveValueFlows(client, name, input);
+        if (flows.length === 0) return handler(input, extra);
+
+        // Spending is tracked per token subject, so refreshing the access token does not
+        // start a new 24h window. Stdio and CLI calls all belong to the local user.
+        const caller = config.hosted ? requestContext.getStore()?.user : "local";
+        if (!caller) {
+          return violationResult({ rule: "limits", tool: name, message: "The caller's access token has no subject to track spending against" });
+        }
+
+        // Reserve each amount while the call runs (it may wait on the user for a long time), and
+        // keep them if anything was sent, even when the call then failed part way (a multi-hop
+        // swap route that stopped after some hops). Dry runs and pending confirmations send nothing.
+        const releases: Array<() => void> = [];
+        const releaseAll = () => releases.forEach((release) => release());
+        for (const flow of flows) {
+          const token = tokenKey(flow);
+          const violation = evaluatePolicy(policy, name, flow, ledger.spent(caller, token));
+          if (violation) {
+            releaseAll();
+            return violationResult(violation);
+          }
+          if (flow.amount) releases.push(ledger.reserve(caller, token, flow.amount.value));
+        }
+
+        const writes: RecordedRequest[] = [];
+        try {
+          return await collectSentWrites(writes, () => handler(input, extra));
+        } finally {
+          if (writes.length === 0) releaseAll();
+        }
+      },
+    };
+  });
+}
@@ -0,0 +1,47 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { Holding, lpUnderlying, valuePortfolio } from "./portfolio.js";
+
+const E18 = 10n ** 18n;
+const USDST = "aaaa000000000000000000000000000000000001";
+const ETHST = "bbbb000000000000000000000000000000000002";
+const USDC = "dddd000000000000000000000000000000000004";
+
+test("splits an LP position into its share of the pool reserves", () => {
+  const pool = {
+    address: "cccc000000000000000000000000000000000003",
+    tokenA: { address: USDST, poolBalance: (3000n * E18).toString() },
+    tokenB: { address: ETHST, poolBalance: E18.toString() },
+    lpToken: { address: "eeee000000000000000000000000000000000005", _totalSupply: (100n * E18).toString() },
+  };
+  assert.deepEqual(lpUnderlying({ balance: (25n * E18).toString() }, pool), [
+    { token: USDST, amount: 750n * E18 },
+    { token: ETHST, amount: E18 / 4n },
+  ]);
+  assert.deepEqual(lpUnderlying({ tokenAAmount: "1", tokenBAmount: "2" }, pool), [
+    { token: USDST, amount: 1n },
+    { token: ETHST, amount: 2n },
+  ]);
+  assert.deepEqual(lpUnderlying({}, pool), []);
+});
+
+test("values holdings, nets out liabilities and reports unpriced tokens", () => {
+  const holdings: Holding[] = [
+    { category: "wallet", asset: USDC, symbol: "USDC", decimals: 6, amount: 500_000_000n },
+    { category: "wallet", asset: "ffff000000000000000000000000000000000006", symbol: "XYZ", decimals: 18, amount: E18 },
+    { category: "cdpCollateral", asset: ETHST, symbol: "ETHST", decimals: 18, amount: 2n * E18, price: 2500n * E18 },
+    { category: "cdpDebt", symbol: "USDST", decimals: 18, amount: 3000n * E18 },
+    { category: "staked", symbol: "sUSDST", decimals: 18, amount: 100n * E18, price: 11n * E18 / 10n },
+  ];
+  const valuation = valuePortfolio(holdings, new Map([[USDC, E18], [ETHST, 3000n * E18]]));
+
+  // The oracle price wins over the vault's own price; USDST debt is pegged at 1 USD.
+  assert.equal(valuation.holdings[2].valueUsd, "6000");
+  assert.equal(valuation.totals.cdpDebt, "3000");
+  assert.equal(valuation.totals.staked, "110");
+  assert.equal(valuation.assetsUsd, "6610");
+  assert.equal(valuation.liabilitiesUsd, "3000");
+  assert.equal(valuation.netWorthUsd, "3610");
+  assert.equal(valuation.holdings[1].valueUsd, null);
+  assert.deepEqual(valuation.unpriced, ["wallet: XYZ"]);
+});
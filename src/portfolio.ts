@@ -0,0 +1,283 @@
+import { GriphookClient, safeFetch } from "./client.js";
+import { firstBaseUnits, formatFixed, formatUnits, readBaseUnits } from "./amounts.js";
+import { loadVaults } from "./cdpRisk.js";
+import { loadLendingState } from "./lendingSimulator.js";
+import { PRICE_DECIMALS, fetchOraclePrice } from "./oracle.js";
+import { readPoolEdge } from "./swapQuote.js";
+import { TokenInfo, fetchTokenInfo, normalizeAddress, readRecords, readTokenAddress, toTokenInfo } from "./tokens.js";
+
+const USD = 10n ** BigInt(PRICE_DECIMALS);
+/** Fixed-point scale of the safety module's sUSDST -> USDST exchange rate. */
+const WAD = 10n ** 18n;
+
+export const HOLDING_CATEGORIES = [
+  "wallet",
+  "liquidity",
+  "lendingSupply",
+  "lendingBorrow",
+  "cdpCollateral",
+  "cdpDebt",
+  "staked",
+  "rewards",
+] as const;
+export type HoldingCategory = (typeof HOLDING_CATEGORIES)[number];
+
+/** Categories that are owed rather than owned. */
+const LIABILITIES = new Set<HoldingCategory>(["lendingBorrow", "cdpDebt"]);
+
+export type Holding = {
+  category: HoldingCategory;
+  /** Token address; missing when the backend does not report it (e.g. USDST debt). */
+  asset?: string;
+  symbol?: string;
+  decimals: number;
+  /** Base units. */
+  amount: bigint;
+  /** USD price reported alongside the holding, used when the oracle has none. */
+  price?: bigint;
+  /** Pool or vault the holding belongs to. */
+  source?: string;
+};
+
+export type ValuedHolding = {
+  category: HoldingCategory;
+  asset?: string;
+  symbol?: string;
+  amount: string;
+  priceUsd: string | null;
+  valueUsd: string | null;
+  source?: string;
+};
+
+export type PortfolioValuation = {
+  holdings: ValuedHolding[];
+  /** USD per category; liabilities are positive here and subtracted from net worth. */
+  totals: Record<HoldingCategory, string>;
+  assetsUsd: string;
+  liabilitiesUsd: string;
+  netWorthUsd: string;
+  /** Holdings left out of the totals because no price was found. */
+  unpriced: string[];
+};
+
+/** Price of a holding: the oracle first, then the source's own price, then the USDST peg. */
+function priceOf(holding: Holding, prices: Map<string, bigint>): bigint | undefined {
+  const oracle = holding.asset ? prices.get(normalizeAddress(holding.asset)) : undefined;
+  return oracle ?? holding.price ?? (holding.symbol === "USDST" ? USD : undefined);
+}
+
+/** Value holdings in USD. prices is keyed by normalized address, PRICE_DECIMALS fixed point. */
+export function valuePortfolio(holdings: Holding[], prices: Map<string, bigint>): PortfolioValuation {
+  const totals = Object.fromEntries(HOLDING_CATEGORIES.map((category) => [category, 0n])) as Record<HoldingCategory, bigint>;
+  const unpriced: string[] = [];
+
+  const valued = holdings.map((holding): ValuedHolding => {
+    const price = priceOf(holding, prices);
+    const value = price === undefined ? undefined : (holding.amount * price) / 10n ** BigInt(holding.decimals);
+    if (value === undefined) unpriced.push(`${holding.category}: ${holding.symbol ?? holding.asset ?? "unknown token"}`);
+    else totals[holding.category] += value;
+    return {
+      category: holding.category,
+      asset: holding.asset,
+      symbol: holding.symbol,
+      amount: formatUnits(holding.amount, holding.decimals),
+      priceUsd: price === undefined ? null : formatFixed(price, PRICE_DECIMALS, 6),
+      valueUsd: value === undefined ? null : formatFixed(value, PRICE_DECIMALS, 2),
+      source: holding.source,
+    };
+  });
+
+  let assets = 0n;
+  let liabilities = 0n;
+  for (const category of HOLDING_CATEGORIES) {
+    if (LIABILITIES.has(category)) liabilities += totals[category];
+    else assets += totals[category];
+  }
+  const usd = (value: bigint) => formatFixed(value, PRICE_DECIMALS, 2);
+  return {
+    holdings: valued,
+    totals: Object.fromEntries(HOLDING_CATEGORIES.map((category) => [category, usd(totals[category])])) as Record<HoldingCategory, string>,
+    assetsUsd: usd(assets),
+    liabilitiesUsd: usd(liabilities),
+    netWorthUsd: usd(assets - liabilities),
+    unpriced,
+  };
+}
+
+/**
+ * Underlying token amounts of an LP position. Uses amounts reported on the position when
+ * present, otherwise the position's share of the pool's LP supply applied to its reserves.
+ */
+export function lpUnderlying(position: Record<string, unknown>, pool: Record<string, unknown>): { token: string; amount: bigint }[] {
+  const addressA = readTokenAddress(pool.tokenA);
+  const addressB = readTokenAddress(pool.tokenB);
+  if (!addressA || !addressB) return [];
+
+  const reportedA = firstBaseUnits(position, ["tokenAAmount", "amountA", "underlyingA"]);
+  const reportedB = firstBaseUnits(position, ["tokenBAmount", "amountB", "underlyingB"]);
+  if (reportedA !== undefined && reportedB !== undefined) {
+    return [{ token: addressA, amount: reportedA }, { token: addressB, amount: reportedB }];
+  }
+
+  const edge = readPoolEdge(pool, addressA);
+  const balance = firstBaseUnits(position, ["lpBalance", "balance", "userBalance", "liquidity"]);
+  const supply = firstBaseUnits(pool, ["lpTokenSupply", "totalSupply"])
+    ?? firstBaseUnits(asRecord(pool.lpToken), ["_totalSupply", "totalSupply"])
+    ?? firstBaseUnits(asRecord(position.lpToken), ["_totalSupply", "totalSupply"]);
+  if (!edge || balance === undefined || !supply) return [];
+  return [
+    { token: addressA, amount: (edge.reserveIn * balance) / supply },
+    { token: addressB, amount: (edge.reserveOut * balance) / supply },
+  ];
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? value as Record<string, unknown> : {};
+}
+
+/** Token metadata from an embedded token object, falling back to /tokens/{address} when it has no decimals. */
+async function describeToken(client: GriphookClient, address: string, raw: unknown): Promise<TokenInfo> {
+  const info = toTokenInfo(address, raw);
+  return info.decimalsAssumed ? (await fetchTokenInfo(client, address)) ?? info : info;
+}
+
+async function liquidityHoldings(client: GriphookClient, positions: Record<string, unknown>[]): Promise<Holding[]> {
+  const nested = await Promise.all(positions.map(async (position) => {
+    const embedded = asRecord(position.pool);
+    const poolAddress = readTokenAddress(position.pool) ?? readTokenAddress(position.poolAddress) ?? readTokenAddress(position.address);
+    const pool = embedded.tokenA ? embedded : position.tokenA ? position
+      : poolAddress ? asRecord(await safeFetch(client, "get", `/swap-pools/${poolAddress}`)) : {};
+    return Promise.all(lpUnderlying(position, pool).map(async ({ token, amount }): Promise<Holding> => {
+      const raw = normalizeAddress(readTokenAddress(pool.tokenA) ?? "") === normalizeAddress(token) ? pool.tokenA : pool.tokenB;
+      const info = await describeToken(client, token, raw);
+      return { category: "liquidity", asset: token, symbol: info.symbol, decimals: info.decimals, amount, source: poolAddress };
+    }));
+  }));
+  return nested.flat();
+}
+
+/** Staked sUSDST, valued through the safety module's exchange rate to USDST. */
+function stakedHolding(info: Record<string, unknown>): Holding | undefined {
+  const shares = firstBaseUnits(info, ["userShares", "sharesBalance", "stakedBalance", "userBalance"]);
+  if (!shares) return undefined;
+  const totalAssets = firstBaseUnits(info, ["totalAssets"]);
+  const totalShares = firstBaseUnits(info, ["totalShares"]);
+  const rate = firstBaseUnits(info, ["exchangeRate"])
+    ?? (totalAssets !== undefined && totalShares ? (totalAssets * WAD) / totalShares : undefined);
+  const token = readTokenAddress(info.sUSDST) ?? readTokenAddress(info.stakedToken);
+  return {
+    category: "staked",
+    asset: token,
+    symbol: "sUSDST",
+    decimals: 18,
+    amount: shares,
+    price: rate === undefined ? undefined : (rate * USD) / WAD,
+  };
+}
+
+async function rewardHoldings(client: GriphookClient, pending: Record<string, unknown>[]): Promise<Holding[]> {
+  const holdings = await Promise.all(pending.map(async (entry): Promise<Holding | undefined> => {
+    const amount = firstBaseUnits(entry, ["pendingRewards", "pending", "amount", "rewards"]);
+    const raw = entry.rewardToken ?? entry.token ?? entry.asset;
+    const token = readTokenAddress(raw);
+    if (!amount || !token) return undefined;
+    const info = await describeToken(client, token, raw);
+    return { category: "rewards", asset: token, symbol: info.symbol, decimals: info.decimals, amount };
+  }));
+  return holdings.filter((holding): holding is Holding => holding !== undefined);
+}
+
+export type PortfolioSnapshot = {
+  holdings: Holding[];
+  /** Endpoints that could not be read; their holdings are missing from the totals. */
+  unavailable: string[];
+};
+
+/**
+ * Everything the signed-in user owns and owes: wallet balances, LP positions (as
+ * underlying tokens), lending collateral and debt, CDP collateral and debt, staked
+ * sUSDST and pending rewards. LP and sUSDST tokens are not counted again as wallet balances.
+ */
+export async function loadPortfolio(client: GriphookClient): Promise<PortfolioSnapshot> {
+  const [balances, positions, lending, vaults, safety, pending] = await Promise.all([
+    safeFetch(client, "get", "/tokens/balance"),
+    safeFetch(client, "get", "/swap-pools/positions"),
+    loadLendingState(client),
+    loadVaults(client),
+    safeFetch(client, "get", "/lending/safety/info"),
+    safeFetch(client, "get", "/rewards/pending"),
+  ]);
+  const unavailable = Object.entries({
+    "/tokens/balance": balances,
+    "/swap-pools/positions": positions,
+    "/lending/safety/info": safety,
+    "/rewards/pending": pending,
+  }).filter(([, data]) => data === undefined).map(([path]) => path);
+
+  const positionList = readRecords(positions, { single: true });
+  const staked = stakedHolding(asRecord(safety));
+  const counted = new Set<string>();
+  for (const position of positionList) {
+    for (const value of [position.lpToken, position.pool, position.poolAddress, position.address]) {
+      const address = readTokenAddress(value);
+      if (address) counted.add(normalizeAddress(address));
+    }
+  }
+  if (staked?.asset) counted.add(normalizeAddress(staked.asset));
+
+  const wallet = await Promise.all(readRecords(balances, { single: true }).map(async (entry): Promise<Holding | undefined> => {
+    const asset = readTokenAddress(entry.address) ?? readTokenAddress(entry.token);
+    const amount = readBaseUnits(entry.balance);
+    if (!asset || !amount || counted.has(normalizeAddress(asset))) return undefined;
+    const info = await describeToken(client, asset, entry.token && typeof entry.token === "object" ? entry.token : entry);
+    return { category: "wallet", asset, symbol: info.symbol, decimals: info.decimals, amount };
+  }));
+
+  const lendingHoldings: Holding[] = lending.collateral
+    .filter((position) => position.amount > 0n)
+    .map((position) => ({
+      category: "lendingSupply",
+      asset: position.asset,
+      symbol: position.symbol,
+      decimals: position.decimals,
+      amount: position.amount,
+      price: position.price || undefined,
+    }));
+  if (lending.debt > 0n) lendingHoldings.push({ category: "lendingBorrow", symbol: "USDST", decimals: 18, amount: lending.debt });
+
+  const cdpHoldings = vaults.flatMap(({ state }): Holding[] => [
+    ...(state.collateral > 0n ? [{
+      category: "cdpCollateral" as const,
+      asset: state.asset,
+      symbol: state.symbol,
+      decimals: state.decimals,
+      amount: state.collateral,
+      price: state.price || undefined,
+      source: state.asset,
+    }] : []),
+    ...(state.debt > 0n ? [{ category: "cdpDebt" as const, symbol: "USDST", decimals: 18, amount: state.debt, source: state.asset }] : []),
+  ]);
+
+  return {
+    holdings: [
+      ...wallet.filter((holding): holding is Holding => holding !== undefined),
+      ...await liquidityHoldings(client, positionList),
+      ...lendingHoldings,
+      ...cdpHoldings,
+      ...(staked ? [staked] : []),
+      ...await rewardHoldings(client, readRecords(pending, { single: true })),
+    ],
+    unavailable,
+  };
+}
+
+/** Oracle prices for every distinct asset among the holdings, keyed by normalized address. */
+export async function loadPrices(client: GriphookClient, holdings: Holding[]): Promise<Map<string, bigint>> {
+  const assets = [...new Set(holdings.flatMap((holding) => (holding.asset ? [normalizeAddress(holding.asset)] : [])))];
+  const prices = new Map<string, bigint>();
+  await Promise.all(assets.map(async (asset) => {
+    const price = await fetchOraclePrice(client, asset);
+    if (price !== undefined) prices.set(asset, price);
+  }));
+  return prices;
+}
@@ -0,0 +1,63 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { ConcurrencyLimits, RateLimiter, TokenBuckets } from "./rateLimit.js";
+
+test("token buckets allow bursts up to the limit and refill over the window", () => {
+  const buckets = new TokenBuckets(2, 60_000);
+  assert.equal(buckets.take("alice", 0), 0);
+  assert.equal(buckets.take("alice", 0), 0);
+  assert.equal(buckets.take("alice", 0), 30_000);
+  assert.equal(buckets.take("bob", 0), 0);
+  assert.equal(buckets.take("alice", 30_000), 0);
+
+  buckets.prune(60_000);
+  assert.equal(buckets.take("alice", 60_000), 0);
+});
+
+test("concurrency limits release each slot once", () => {
+  const limits = new ConcurrencyLimits(1);
+  const release = limits.acquire("alice");
+  assert.ok(release);
+  assert.equal(limits.acquire("alice"), undefined);
+  release();
+  release();
+  const again = limits.acquire("alice");
+  assert.ok(again);
+  assert.equal(limits.acquire("alice"), undefined);
+});
+
+test("limits read and state-changing tool calls separately", () => {
+  const limiter = new RateLimiter({ readPerMinute: 2, writePerMinute: 1, ipPerMinute: 10, maxConcurrent: 10 });
+  const admit = (tool: string) => limiter.admitToolCalls("alice", [tool], 0);
+
+  assert.equal(admit("strato.lending").allowed, true);
+  assert.equal(admit("strato.lending.supply-collateral").allowed, true);
+  assert.equal(admit("strato.tokens").allowed, true);
+  assert.deepEqual(admit("strato.lending.borrow"), {
+    allowed: false,
+    message: "Too many state-changing tool calls; retry after 60s",
+    retryAfterSeconds: 60,
+  });
+  const read = admit("strato.tokens");
+  assert.equal(read.allowed, false);
+  assert.equal(!read.allowed && read.retryAfterSeconds, 30);
+});
+
+test("caps tool calls in flight per user", () => {
+  const limiter = new RateLimiter({ readPerMinute: 100, writePerMinute: 100, ipPerMinute: 10, maxConcurrent: 2 });
+  const first = limiter.admitToolCalls("alice", ["strato.tokens", "strato.lending"]);
+  assert.equal(first.allowed, true);
+  assert.equal(limiter.admitToolCalls("alice", ["strato.cdp"]).allowed, false);
+  assert.equal(limiter.admitToolCalls("bob", ["strato.cdp"]).allowed, true);
+  if (first.allowed) first.release();
+  assert.equal(limiter.admitToolCalls("alice", ["strato.cdp"]).allowed, true);
+});
+
+test("gives back the tokens of a batch that was rejected part way", () => {
+  const limiter = new RateLimiter({ readPerMinute: 2, writePerMinute: 1, ipPerMinute: 10, maxConcurrent: 10 });
+  assert.equal(limiter.admitToolCalls("alice", ["strato.lending.borrow"], 0).allowed, true);
+
+  // The read is admitted first, then the write is over its limit: the whole batch is refused.
+  assert.equal(limiter.admitToolCalls("alice", ["strato.tokens", "strato.lending.repay"], 0).allowed, false);
+  assert.equal(limiter.admitToolCalls("alice", ["strato.tokens", "strato.lending"], 0).allowed, true);
+});
@@ -0,0 +1,130 @@
+import type { RateLimitConfig } from "./config.js";
+import { getToolMetadata } from "./toolMetadata.js";
+
+/**
+ * Token buckets keyed by caller. Each bucket holds up to `capacity` tokens and refills
+ * continuously at `capacity` tokens per `windowMs`, so bursts up to the limit are allowed.
+ */
+export class TokenBuckets {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  constructor(private capacity: number, private windowMs = 60_000) {}
+
+  /** Take a token for key. Returns 0 when allowed, otherwise the ms until one is available. */
+  take(key: string, now = Date.now()): number {
+    const rate = this.capacity / this.windowMs;
+    const bucket = this.buckets.get(key) ?? { tokens: this.capacity, updatedAt: now };
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + (now - bucket.updatedAt) * rate);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) / rate);
+  }
+
+  /** Give back a token taken for key, for work that was turned away after all. */
+  refund(key: string): void {
+    const bucket = this.buckets.get(key);
+    if (bucket) bucket.tokens = Math.min(this.capacity, bucket.tokens + 1);
+  }
+
+  /** Drop buckets that have refilled completely; they behave like new ones. */
+  prune(now = Date.now()): void {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * (this.capacity / this.windowMs) >= this.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/** Counts in-flight work per caller and refuses more than `max` at once. */
+export class ConcurrencyLimits {
+  private active = new Map<string, number>();
+
+  constructor(private max: number) {}
+
+  /** Reserve a slot for key and return its release function, or undefined when all slots are taken. */
+  acquire(key: string): (() => void) | undefined {
+    const count = this.active.get(key) ?? 0;
+    if (count >= this.max) return undefined;
+    this.active.set(key, count + 1);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const remaining = (this.active.get(key) ?? 1) - 1;
+      if (remaining > 0) this.active.set(key, remaining);
+      else this.active.delete(key);
+    };
+  }
+}
+
+export type RateLimitDecision =
+  | { allowed: true; release: () => void }
+  | { allowed: false; message: string; retryAfterSeconds: number };
+
+/**
+ * Hosted-mode limits: HTTP requests per client IP, tool calls per user (read and
+ * state-changing tools have separate buckets) and tool calls in flight per user.
+ */
+export class RateLimiter {
+  private ips: TokenBuckets;
+  private reads: TokenBuckets;
+  private writes: TokenBuckets;
+  private inFlight: ConcurrencyLimits;
+
+  constructor(limits: RateLimitConfig) {
+    this.ips = new TokenBuckets(limits.ipPerMinute);
+    this.reads = new TokenBuckets(limits.readPerMinute);
+    this.writes = new TokenBuckets(limits.writePerMinute);
+    this.inFlight = new ConcurrencyLimits(limits.maxConcurrent);
+  }
+
+  /** Count one HTTP request from ip. */
+  admitRequest(ip: string, now = Date.now()): RateLimitDecision {
+    const waitMs = this.ips.take(ip, now);
+    return waitMs
+      ? rejected("Too many requests from this address", waitMs)
+      : { allowed: true, release: () => {} };
+  }
+
+  /**
+   * Admit the named tool calls for user, all or none: when one is rejected, the tokens and
+   * slots taken for the others are given back. The returned release function must be called
+   * when the calls finish, to free their in-flight slots.
+   */
+  admitToolCalls(user: string, tools: string[], now = Date.now()): RateLimitDecision {
+    const slots: Array<() => void> = [];
+    const refunds: Array<() => void> = [];
+    const undo = () => [...slots, ...refunds].forEach((fn) => fn());
+    for (const tool of tools) {
+      const write = !getToolMetadata(tool).readOnly;
+      const buckets = write ? this.writes : this.reads;
+      const waitMs = buckets.take(user, now);
+      if (waitMs) {
+        undo();
+        return rejected(`Too many ${write ? "state-changing" : "read"} tool calls`, waitMs);
+      }
+      refunds.push(() => buckets.refund(user));
+      const slot = this.inFlight.acquire(user);
+      if (!slot) {
+        undo();
+        return rejected("Too many tool calls in flight", 1000);
+      }
+      slots.push(slot);
+    }
+    return { allowed: true, release: () => slots.forEach((fn) => fn()) };
+  }
+
+  prune(now = Date.now()): void {
+    for (const buckets of [this.ips, this.reads, this.writes]) buckets.prune(now);
+  }
+}
+
+function rejected(reason: string, waitMs: number): RateLimitDecision {
+  const retryAfterSeconds = Math.max(1, Math.ceil(waitMs / 1000));
+  return { allowed: false, message: `${reason}; retry after ${retryAfterSeconds}s`, retryAfterSeconds };
+}
@@ -0,0 +1,61 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as z from "zod";
+import { GriphookClient } from "./client.js";
+import { loadConfig } from "./config.js";
+import { ToolHandler } from "./intercept.js";
+import { isReadOnlyRpcMethod, withReadOnly } from "./readOnly.js";
+import { registerTools } from "./tools.js";
+
+function collectHandlers(env: Record<string, string>): Map<string, ToolHandler> {
+  Object.assign(process.env, env);
+  try {
+    const config = loadConfig();
+    const handlers = new Map<string, ToolHandler>();
+    const collector = {
+      registerTool(name: string, _config: unknown, handler: ToolHandler) {
+        handlers.set(name, handler);
+      },
+    } as unknown as McpServer;
+    registerTools(collector, new GriphookClient(config), config);
+    return handlers;
+  } finally {
+    for (const key of Object.keys(env)) delete process.env[key];
+  }
+}
+
+test("allows only read JSON-RPC methods", () => {
+  assert.equal(isReadOnlyRpcMethod("eth_call"), true);
+  assert.equal(isReadOnlyRpcMethod("eth_getLogs"), true);
+  assert.equal(isReadOnlyRpcMethod("eth_sendRawTransaction"), false);
+  assert.equal(isReadOnlyRpcMethod("personal_sign"), false);
+  assert.equal(isReadOnlyRpcMethod(undefined), false);
+});
+
+test("drops state-changing tools only in read-only mode", () => {
+  const register = (readOnly: boolean) => {
+    const names: string[] = [];
+    const collector = {
+      registerTool(name: string) {
+        names.push(name);
+      },
+    } as unknown as McpServer;
+    const server = withReadOnly(collector, { ...loadConfig(), readOnly });
+    for (const name of ["strato.tokens", "strato.tokens.transfer", "strato.rpc"]) {
+      server.registerTool(name, { inputSchema: z.object({}) }, async () => ({ content: [] }));
+    }
+    return names;
+  };
+  assert.deepEqual(register(true), ["strato.tokens", "strato.rpc"]);
+  assert.deepEqual(register(false), ["strato.tokens", "strato.tokens.transfer", "strato.rpc"]);
+});
+
+test("strato.rpc rejects state-changing methods in read-only mode", async () => {
+  const rpc = collectHandlers({ GRIPHOOK_READ_ONLY: "true", GRIPHOOK_AUDIT_LOG: "off" }).get("strato.rpc");
+  assert.ok(rpc);
+  await assert.rejects(
+    rpc({ chainId: "1", payload: { jsonrpc: "2.0", id: 1, method: "eth_sendRawTransaction", params: ["0x00"] } }, undefined),
+    /"eth_sendRawTransaction" is not allowed in read-only mode/,
+  );
+});
@@ -0,0 +1,52 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GriphookConfig } from "./config.js";
+import { interceptTools } from "./intercept.js";
+import { getToolMetadata } from "./toolMetadata.js";
+
+/** JSON-RPC methods that only read chain state. */
+const READ_ONLY_RPC_METHODS = new Set([
+  "eth_blockNumber",
+  "eth_call",
+  "eth_chainId",
+  "eth_estimateGas",
+  "eth_feeHistory",
+  "eth_gasPrice",
+  "eth_getBalance",
+  "eth_getBlockByHash",
+  "eth_getBlockByNumber",
+  "eth_getBlockReceipts",
+  "eth_getBlockTransactionCountByHash",
+  "eth_getBlockTransactionCountByNumber",
+  "eth_getCode",
+  "eth_getLogs",
+  "eth_getProof",
+  "eth_getStorageAt",
+  "eth_getTransactionByBlockHashAndIndex",
+  "eth_getTransactionByBlockNumberAndIndex",
+  "eth_getTransactionByHash",
+  "eth_getTransactionCount",
+  "eth_getTransactionReceipt",
+  "eth_maxPriorityFeePerGas",
+  "eth_syncing",
+  "net_listening",
+  "net_peerCount",
+  "net_version",
+  "web3_clientVersion",
+]);
+
+export function isReadOnlyRpcMethod(method: unknown): boolean {
+  return typeof method === "string" && READ_ONLY_RPC_METHODS.has(method);
+}
+
+/**
+ * In read-only mode (GRIPHOOK_READ_ONLY or --read-only), register only tools whose
+ * metadata marks them as read-only or as enforcing read-only mode themselves.
+ */
+export function withReadOnly(server: McpServer, config: GriphookConfig): McpServer {
+  if (!config.readOnly) return server;
+
+  return interceptTools(server, (name, registration) => {
+    const metadata = getToolMetadata(name);
+    return metadata.readOnly || metadata.readOnlyCapable ? registration : null;
+  });
+}
@@ -1,8 +1,27 @@
 import { AsyncLocalStorage } from "async_hooks";
+import type { HttpMethod } from "./client.js";
+
+/**
+ * A state-changing backend request captured instead of being sent.
+ */
+export interface RecordedRequest {
+  method: HttpMethod;
+  path: string;
+  params?: Record<string, unknown>;
+  data?: unknown;
+}
 
 export interface RequestContext {
   /** Access token obtained from hosted mode auth middleware */
   accessToken?: string;
+  /** Subject of the access token in hosted mode */
+  user?: string;
+  /** Display name from the access token claims (preferred_username or email) */
+  userName?: string;
+  /** When set, the client records non-GET requests here instead of sending them (dry-run mode) */
+  dryRunRecorder?: RecordedRequest[];
+  /** When set, the client appends every state-changing request it successfully sends */
+  sentWrites?: RecordedRequest[];
 }
 
 /**
@@ -12,6 +31,12 @@ export interface RequestContext {
  */
 export const requestContext = new AsyncLocalStorage<RequestContext>();
 
+/**
+ * Backend requests made while a tool runs, for the audit log. Kept apart from the request
+ * context because tools may hold on to that object beyond the call (subscriptions).
+ */
+const backendCalls = new AsyncLocalStorage<RecordedRequest[]>();
+
 /**
  * Get the current request's access token, if any.
  * Returns undefined if not in a request context or no token was set.
@@ -19,3 +44,32 @@ export const requestContext = new AsyncLocalStorage<RequestContext>();
 export function getRequestAccessToken(): string | undefined {
   return requestContext.getStore()?.accessToken;
 }
+
+/**
+ * Get the dry-run recorder for the current request, if the request is a dry run.
+ */
+export function getDryRunRecorder(): RecordedRequest[] | undefined {
+  return requestContext.getStore()?.dryRunRecorder;
+}
+
+/**
+ * Run fn while appending the state-changing requests the client actually sends to writes.
+ * Dry-run requests are recorded elsewhere and never show up here. The array is filled
+ * even when fn throws.
+ */
+export async function collectSentWrites<T>(writes: RecordedRequest[], fn: () => Promise<T>): Promise<T> {
+  return requestContext.run({ ...requestContext.getStore(), sentWrites: writes }, fn);
+}
+
+/**
+ * Run fn while appending the method and path of every backend request the client sends
+ * to calls. The array is filled even when fn throws.
+ */
+export async function collectBackendCalls<T>(calls: RecordedRequest[], fn: () => Promise<T>): Promise<T> {
+  return backendCalls.run(calls, fn);
+}
+
+/** Note a backend request for the audit log of the current tool call, if any. */
+export function recordBackendCall(method: HttpMethod, path: string): void {
+  backendCalls.getStore()?.push({ method, path });
+}
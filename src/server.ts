@@ -1,21 +1,24 @@
 import "dotenv/config";
-import { createRequire } from "module";
-import { randomBytes, createHash } from "crypto";
+import http from "http";
+import { randomBytes, randomUUID, createHash, timingSafeEqual } from "crypto";
 import type { Request, Response, NextFunction, Express } from "express";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import { loadConfig, GriphookConfig } from "./config.js";
 import { GriphookClient } from "./client.js";
 import { registerTools } from "./tools.js";
+import { PolicyLedger } from "./policy.js";
 import { registerResources } from "./resources.js";
-import { requestContext } from "./requestContext.js";
+import { RequestContext, requestContext } from "./requestContext.js";
+import { SessionEntry, SessionStore } from "./httpSessions.js";
+import { RateLimitDecision, RateLimiter } from "./rateLimit.js";
+import { activeSessions, cacheLookups, jwksVerificationFailures, metrics, tokenRefreshes } from "./metrics.js";
+import { HealthReport, runHealthChecks, version } from "./health.js";
 import axios from "axios";
-import { createRemoteJWKSet, jwtVerify } from "jose";
-
-const require = createRequire(import.meta.url);
-const { version } = require("../package.json") as { version: string };
+import { createRemoteJWKSet, decodeJwt, jwtVerify } from "jose";
 
 /**
  * RFC 9728 Protected Resource Metadata
@@ -75,13 +78,16 @@ async function verifyBearerAccessToken(
   const tokenCacheKey = createHash("sha256").update(accessToken).digest("hex");
   const cachedUntil = verifiedAccessTokenCache.get(tokenCacheKey);
   if (cachedUntil && Date.now() < cachedUntil - TOKEN_REFRESH_BUFFER_MS) {
+    cacheLookups.inc({ cache: "verified_access_token", result: "hit" });
     return true;
   }
+  cacheLookups.inc({ cache: "verified_access_token", result: "miss" });
 
   try {
     const oidcConfig = await axios.get(config.oauth.openIdDiscoveryUrl, { timeout: 10000 });
     const jwksUri = oidcConfig.data.jwks_uri as string | undefined;
     if (!jwksUri) {
+      jwksVerificationFailures.inc({ reason: "no_jwks_uri" });
       return false;
     }
 
@@ -97,11 +103,38 @@ async function verifyBearerAccessToken(
     const expiresAt = payload.exp ? payload.exp * 1000 : Date.now() + (5 * 60 * 1000);
     verifiedAccessTokenCache.set(tokenCacheKey, expiresAt);
     return true;
-  } catch {
+  } catch (err) {
+    jwksVerificationFailures.inc({ reason: axios.isAxiosError(err) ? "discovery" : "invalid_token" });
     return false;
   }
 }
 
+/**
+ * Identify the user an access token was issued to (its subject), so HTTP sessions stay
+ * bound to that user across token refreshes. Opaque tokens identify only themselves.
+ */
+function tokenUser(accessToken: string): string {
+  try {
+    const claims = decodeJwt(accessToken);
+    const user = claims.sub ?? claims.preferred_username ?? claims.email;
+    if (typeof user === "string" && user) return user;
+  } catch {
+    // Not a JWT
+  }
+  return `token:${createHash("sha256").update(accessToken).digest("hex")}`;
+}
+
+/** Display name from the access token claims, for the audit log. */
+function tokenUserName(accessToken: string): string | undefined {
+  try {
+    const claims = decodeJwt(accessToken);
+    const name = claims.preferred_username ?? claims.email;
+    return typeof name === "string" && name ? name : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Generate PKCE code verifier and challenge
  */
@@ -998,11 +1031,14 @@ async function getAccessTokenFromRefresh(
   // Check cache first
   const cached = accessTokenCache.get(cacheKey);
   if (cached && Date.now() < cached.expiresAt - TOKEN_REFRESH_BUFFER_MS) {
+    cacheLookups.inc({ cache: "refresh_access_token", result: "hit" });
     return { accessToken: cached.accessToken };
   }
+  cacheLookups.inc({ cache: "refresh_access_token", result: "miss" });
 
   // Exchange refresh token for access token
   if (!config.oauth) {
+    tokenRefreshes.inc({ outcome: "not_configured" });
     return { error: "OAuth not configured" };
   }
 
@@ -1039,6 +1075,7 @@ async function getAccessTokenFromRefresh(
       expiresAt: Date.now() + (expires_in * 1000),
     });
 
+    tokenRefreshes.inc({ outcome: "success" });
     return { accessToken: access_token };
   } catch (err) {
     // Clear cache on error
@@ -1046,11 +1083,13 @@ async function getAccessTokenFromRefresh(
     if (axios.isAxiosError(err)) {
       console.error("[getAccessTokenFromRefresh] Error:", err.response?.status, err.response?.data);
       if (err.response?.status === 400) {
+        tokenRefreshes.inc({ outcome: "invalid_grant" });
         return { error: `Refresh token is invalid or expired: ${JSON.stringify(err.response.data)}` };
       }
     } else {
       console.error("[getAccessTokenFromRefresh] Non-axios error:", err);
     }
+    tokenRefreshes.inc({ outcome: "error" });
     return { error: "Failed to exchange refresh token" };
   }
 }
@@ -1101,17 +1140,112 @@ function createHostedAuthMiddleware(config: GriphookConfig) {
       return;
     }
 
-    // Attach access token to request for downstream use
+    // Attach access token and the user it belongs to for downstream use
     (req as any).stratoToken = result.accessToken;
+    (req as any).stratoUser = tokenUser(result.accessToken);
+    (req as any).stratoUserName = tokenUserName(result.accessToken);
+    next();
+  };
+}
+
+/**
+ * Express middleware limiting requests per client IP in hosted mode. Runs before auth,
+ * so floods of bad tokens are turned away without token verification or refresh calls.
+ */
+function createIpRateLimitMiddleware(limiter: RateLimiter) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const decision = limiter.admitRequest(req.ip ?? "unknown");
+    if (!decision.allowed) return rejectRateLimited(res, decision, (req as any).body);
+    next();
+  };
+}
+
+/**
+ * Express middleware limiting tool calls per authenticated user in hosted mode. Must run
+ * after the auth middleware, which sets the user.
+ */
+function createToolRateLimitMiddleware(limiter: RateLimiter) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const body = (req as any).body;
+    const user: string | undefined = (req as any).stratoUser;
+    const tools = req.method === "POST" ? toolCallNames(body) : [];
+    if (!user || tools.length === 0) return next();
+
+    const decision = limiter.admitToolCalls(user, tools);
+    if (!decision.allowed) return rejectRateLimited(res, decision, body);
+    // The response stays open until the tool results are sent.
+    res.on("close", decision.release);
     next();
   };
 }
 
-function buildServer(config: ReturnType<typeof loadConfig>) {
+/** Names of the tools called by a JSON-RPC message or batch. */
+function toolCallNames(body: unknown): string[] {
+  return (Array.isArray(body) ? body : [body])
+    .filter((message) => message?.method === "tools/call" && typeof message.params?.name === "string")
+    .map((message) => message.params.name);
+}
+
+function rejectRateLimited(res: Response, decision: Extract<RateLimitDecision, { allowed: false }>, body: unknown) {
+  res.status(429)
+    .set("Retry-After", String(decision.retryAfterSeconds))
+    .json({
+      jsonrpc: "2.0",
+      error: { code: -32000, message: decision.message, data: { retryAfterSeconds: decision.retryAfterSeconds } },
+      id: typeof body === "object" && body !== null && !Array.isArray(body) && "id" in body ? body.id : null,
+    });
+}
+
+const READINESS_CACHE_MS = 5000;
+
+const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** True when no scrape token is configured or the Authorization header carries it. */
+function metricsAuthorized(authorization: string | undefined, token: string | null): boolean {
+  if (!token) return true;
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(authorization ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** Serve /metrics on its own admin port (GRIPHOOK_METRICS_PORT), away from the public MCP port. */
+async function startMetricsServer(config: ReturnType<typeof loadConfig>) {
+  const { port, host, token } = config.metrics;
+  if (!port) return undefined;
+
+  const server = http.createServer((req, res) => {
+    if (req.method !== "GET" || req.url?.split("?")[0] !== "/metrics") {
+      res.writeHead(404).end();
+    } else if (!metricsAuthorized(req.headers.authorization, token)) {
+      res.writeHead(401, { "WWW-Authenticate": "Bearer" }).end();
+    } else {
+      res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE }).end(metrics.render());
+    }
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, resolve);
+  });
+  console.log(`Griphook metrics on http://${host}:${port}/metrics`);
+
+  return async () => {
+    server.close();
+  };
+}
+
+function buildServer(config: ReturnType<typeof loadConfig>, ledger: PolicyLedger) {
   const instructions = [
     "Griphook MCP server exposes the STRATO web app backend. Run 'griphook login' to authenticate via browser.",
     `API base: ${config.apiBaseUrl}. Override with STRATO_API_BASE_URL.`,
     "Domain tools: strato.tokens, strato.swap, strato.lending, strato.cdp, strato.bridge, strato.rewards, strato.admin, strato.events, strato.protocol-fees, strato.rpc.",
+    "Token inputs accept an address, a symbol or an exact name; strato.tokens.resolve searches the token catalog.",
+    "strato.health checks the backend, identity provider and credentials and suggests fixes; run it when calls fail to connect or authenticate.",
+    "strato.subscribe watches events, position thresholds and bridge transfers and pushes matches to this session as logging notifications.",
+    config.readOnly
+      ? "Read-only mode is on: only snapshot tools are available and strato.rpc accepts read methods only."
+      : config.dryRun
+      ? "Dry-run mode is on: state-changing tools return a predicted-effects report and send nothing."
+      : "State-changing tools accept dryRun: true to preview effects before sending.",
     `HTTP transport: ${config.http.enabled ? `POST ${config.http.host}:${config.http.port}${config.http.path}` : "disabled (set GRIPHOOK_HTTP_ENABLED=true)"}.`,
   ].join("\n");
 
@@ -1123,13 +1257,13 @@ function buildServer(config: ReturnType<typeof loadConfig>) {
   const client = new GriphookClient(config);
 
   registerResources(server, config);
-  registerTools(server, client, config);
+  registerTools(server, client, config, ledger);
 
   return server;
 }
 
 async function startStdioServer(config: ReturnType<typeof loadConfig>) {
-  const server = buildServer(config);
+  const server = buildServer(config, new PolicyLedger());
   const transport = new StdioServerTransport();
   await server.connect(transport);
   return async () => {
@@ -1140,15 +1274,84 @@ async function startStdioServer(config: ReturnType<typeof loadConfig>) {
 async function startHttpServer(config: ReturnType<typeof loadConfig>) {
   if (!config.http.enabled) return undefined;
 
-  const server = buildServer(config);
-  const transport = new StreamableHTTPServerTransport();
-  await server.connect(transport);
+  // One transport and MCP server per session, so notifications (subscriptions) reach the
+  // session that asked for them and its state is dropped when the session ends. In hosted mode
+  // a session is bound to the user who opened it.
+  type HttpSession = SessionEntry & { transport: StreamableHTTPServerTransport; server: McpServer; context: RequestContext };
+  const sessions = new SessionStore<HttpSession>(config.http.sessionTtlMs);
+  // Spending limits apply per user, not per session.
+  const ledger = new PolicyLedger();
+
+  async function openSession(req: Request): Promise<HttpSession> {
+    const server = buildServer(config, ledger);
+    const session: HttpSession = {
+      server,
+      user: (req as any).stratoUser,
+      lastSeen: Date.now(),
+      streams: 0,
+      // Kept for the session's lifetime: background polls run with it and see the latest access token.
+      context: {},
+      transport: new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (sessionId) => {
+          sessions.set(sessionId, session);
+          activeSessions.set(sessions.size);
+        },
+      }),
+    };
+    session.transport.onclose = () => {
+      if (session.transport.sessionId) sessions.delete(session.transport.sessionId);
+      activeSessions.set(sessions.size);
+    };
+    await server.connect(session.transport);
+    return session;
+  }
+
+  function findSession(req: Request, res: Response): HttpSession | undefined {
+    const found = sessions.lookup(req.header("mcp-session-id"), (req as any).stratoUser);
+    if ("session" in found) return found.session;
+    res.status(found.status).json({
+      jsonrpc: "2.0",
+      error: { code: -32001, message: found.message },
+      id: null,
+    });
+    return undefined;
+  }
+
+  function handle(session: HttpSession, req: Request, res: Response, body?: unknown) {
+    session.context.accessToken = (req as any).stratoToken;
+    session.context.user = (req as any).stratoUser;
+    session.context.userName = (req as any).stratoUserName;
+    session.lastSeen = Date.now();
+    if (req.method === "GET") {
+      session.streams += 1;
+      res.on("close", () => {
+        session.streams -= 1;
+        session.lastSeen = Date.now();
+      });
+    }
+    requestContext.run(session.context, () => {
+      session.transport.handleRequest(req, res, body);
+    });
+  }
+
+  // Shared by all sessions, so opening more sessions does not raise a user's limits.
+  const limiter = config.hosted ? new RateLimiter(config.rateLimits) : undefined;
+
+  // Closing the server closes its transport, which removes the session and stops its subscriptions.
+  const sweep = setInterval(() => {
+    for (const session of sessions.expired()) void session.server.close();
+    limiter?.prune();
+  }, Math.min(config.http.sessionTtlMs, 60_000));
+  sweep.unref();
 
   // In hosted mode, we need to allow the public hostname in addition to localhost
   const allowedHosts = config.hosted
     ? [config.http.host, "localhost", "127.0.0.1", new URL(config.hosted.publicUrl).hostname]
     : undefined;
   const app = createMcpExpressApp({ host: config.http.host, allowedHosts });
+  // Behind a local reverse proxy (nginx), rate limit on the client address it forwards.
+  if (config.hosted) app.set("trust proxy", "loopback");
 
   // Register login pages (works in both hosted and local modes if OAuth is configured)
   registerLoginRoutes(app, config);
@@ -1165,26 +1368,66 @@ async function startHttpServer(config: ReturnType<typeof loadConfig>) {
       res.json(metadata);
     });
 
-    // Apply auth middleware to MCP endpoints
+    // Apply rate limits and auth middleware to MCP endpoints
+    if (limiter) app.use([config.http.path, config.http.ssePath], createIpRateLimitMiddleware(limiter));
     app.use(config.http.path, createHostedAuthMiddleware(config));
     app.use(config.http.ssePath, createHostedAuthMiddleware(config));
+    if (limiter) app.use([config.http.path, config.http.ssePath], createToolRateLimitMiddleware(limiter));
 
     console.log(`Hosted mode enabled: ${config.hosted.publicUrl}`);
     console.log(`OAuth metadata: ${config.hosted.publicUrl}/.well-known/oauth-protected-resource`);
   }
 
-  // Wrap MCP request handlers with request context to pass the access token
-  app.post(config.http.path, (req, res) => {
-    const accessToken = (req as any).stratoToken;
-    requestContext.run({ accessToken }, () => {
-      transport.handleRequest(req, res, (req as any).body);
-    });
+  // Liveness: the process is up. Readiness: the backend and identity provider are reachable.
+  // Readiness results are reused for a few seconds so probes cannot flood either of them.
+  app.get("/healthz", (_req, res) => {
+    res.json({ status: "ok", version, uptimeSeconds: Math.round(process.uptime()) });
+  });
+  let readiness: { report: Promise<HealthReport>; at: number } | undefined;
+  app.get("/readyz", async (_req, res) => {
+    if (!readiness || Date.now() - readiness.at > READINESS_CACHE_MS) {
+      readiness = { report: runHealthChecks(config, { credentials: false }), at: Date.now() };
+    }
+    const report = { ...await readiness.report, uptimeSeconds: Math.round(process.uptime()) };
+    res.status(report.status === "failed" ? 503 : 200).json(report);
   });
-  app.get(config.http.ssePath, (req, res) => {
-    const accessToken = (req as any).stratoToken;
-    requestContext.run({ accessToken }, () => {
-      transport.handleRequest(req, res);
+
+  // Without an admin port, /metrics shares the MCP port and requires its own bearer token.
+  if (!config.metrics.port && config.metrics.token) {
+    app.get("/metrics", (req, res) => {
+      if (!metricsAuthorized(req.headers.authorization, config.metrics.token)) {
+        res.status(401).set("WWW-Authenticate", "Bearer").end();
+        return;
+      }
+      res.type(METRICS_CONTENT_TYPE).send(metrics.render());
     });
+  }
+
+  // Wrap MCP request handlers with the session's request context to pass the access token.
+  // An initialize request without a session id opens a new session.
+  app.post(config.http.path, async (req, res) => {
+    const body = (req as any).body;
+    const opening = !req.header("mcp-session-id") && isInitializeRequest(body);
+    // Each session holds an MCP server and its subscriptions, so one user cannot open them without bound.
+    const user: string | undefined = (req as any).stratoUser;
+    if (opening && user && sessions.countFor(user) >= config.http.maxSessionsPerUser) {
+      return rejectRateLimited(res, {
+        allowed: false,
+        message: `Too many open sessions (limit ${config.http.maxSessionsPerUser}). Close a session with DELETE or wait for idle ones to expire.`,
+        retryAfterSeconds: Math.ceil(config.http.sessionTtlMs / 1000),
+      }, body);
+    }
+    const session = opening ? await openSession(req) : findSession(req, res);
+    if (session) handle(session, req, res, body);
+  });
+  // Standard clients open the notification stream with GET on the MCP endpoint itself.
+  app.get([config.http.path, config.http.ssePath], (req, res) => {
+    const session = findSession(req, res);
+    if (session) handle(session, req, res);
+  });
+  app.delete(config.http.path, (req, res) => {
+    const session = findSession(req, res);
+    if (session) handle(session, req, res);
   });
 
   const listener = app.listen(config.http.port, config.http.host, () => {
@@ -1195,7 +1438,8 @@ async function startHttpServer(config: ReturnType<typeof loadConfig>) {
 
   return async () => {
     listener.close();
-    await server.close();
+    clearInterval(sweep);
+    await Promise.allSettled(sessions.values().map((session) => session.server.close()));
   };
 }
 
@@ -1219,6 +1463,15 @@ export async function start() {
     console.error("Failed to start Griphook MCP HTTP server:", err);
   }
 
+  try {
+    const closeMetrics = await startMetricsServer(config);
+    if (closeMetrics) {
+      closers.push(closeMetrics);
+    }
+  } catch (err) {
+    console.error("Failed to start Griphook metrics server:", err);
+  }
+
   process.on("SIGINT", async () => {
     await Promise.allSettled(closers.map((close) => close()));
     process.exit(0);
@@ -0,0 +1,61 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GriphookClient } from "./client.js";
+import { SubscriptionManager, detectThreshold, diffStatuses, readBlockNumber } from "./subscriptions.js";
+
+test("triggers threshold notifications on edges only", () => {
+  assert.equal(detectThreshold(undefined, true), "entered");
+  assert.equal(detectThreshold(undefined, false), undefined);
+  assert.equal(detectThreshold(true, true), undefined);
+  assert.equal(detectThreshold(true, false), "cleared");
+  assert.equal(detectThreshold(false, true), "entered");
+});
+
+test("reports new and changed bridge statuses after the baseline", () => {
+  const baseline = new Map([["0x1", "pending"]]);
+  assert.deepEqual(diffStatuses(undefined, baseline), []);
+  assert.deepEqual(diffStatuses(baseline, new Map([["0x1", "completed"], ["0x2", "pending"]])), [
+    { id: "0x1", from: "pending", to: "completed" },
+    { id: "0x2", to: "pending" },
+  ]);
+  assert.equal(readBlockNumber({ block_number: "42" }), 42);
+  assert.equal(readBlockNumber({}), undefined);
+});
+
+test("pushes events newer than the baseline block to the session", async () => {
+  let events = [{ block_number: 10, event_name: "Transfer", address: "aaaa" }];
+  const requests: Record<string, unknown>[] = [];
+  const client = {
+    async request(_method: string, _path: string, options: { params: Record<string, unknown> }) {
+      requests.push(options.params);
+      return events;
+    },
+  } as unknown as GriphookClient;
+  const sent: { params: { data: { message: string } }; sessionId?: string }[] = [];
+  const server = {
+    server: {},
+    isConnected: () => true,
+    async sendLoggingMessage(params: { data: { message: string } }, sessionId?: string) {
+      sent.push({ params, sessionId });
+    },
+  } as unknown as McpServer;
+
+  const manager = new SubscriptionManager(server, client, { pollIntervalMs: 60_000, maxPerSession: 1 });
+  const subscription = await manager.add({ kind: "events", eventNames: ["Transfer"] }, {}, "session-1");
+  assert.equal(requests[0].order, "block_number.desc");
+  assert.equal(sent.length, 0);
+  await assert.rejects(manager.add({ kind: "healthFactor", below: 1.2 }, {}, "session-1"), /At most 1/);
+
+  events = [{ block_number: 11, event_name: "Transfer", address: "aaaa" }, { block_number: 12, event_name: "Transfer", address: "bbbb" }];
+  await manager.pollAll();
+  assert.equal(requests[1].and, "(block_number.gte.11)");
+  assert.deepEqual(sent.map((entry) => [entry.params.data.message, entry.sessionId]), [
+    ["Transfer on aaaa in block 11", "session-1"],
+    ["Transfer on bbbb in block 12", "session-1"],
+  ]);
+  assert.equal(manager.list()[0].recent.length, 2);
+
+  assert.equal(manager.remove(subscription.id), true);
+  assert.deepEqual(manager.list(), []);
+});
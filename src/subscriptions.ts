@@ -0,0 +1,313 @@
+import { randomUUID } from "crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import { bridgeStage, bridgeStatus, bridgeTransactionId } from "./bridgeTracker.js";
+import { GriphookClient, safeFetch } from "./client.js";
+import type { SubscriptionConfig } from "./config.js";
+import { loadVaults, measureVault } from "./cdpRisk.js";
+import { buildEventParams } from "./eventQuery.js";
+import { loadLendingState, measureLending } from "./lendingSimulator.js";
+import { RequestContext, requestContext } from "./requestContext.js";
+import { readRecords, readString } from "./tokens.js";
+
+/** Events fetched per subscription and poll; the rest are picked up on the next poll. */
+const EVENT_BATCH = 100;
+/** Matches kept per subscription for strato.subscriptions. */
+const RECENT_MATCHES = 20;
+const LOGGER = "griphook.subscriptions";
+
+export type SubscriptionSpec =
+  | { kind: "events"; contracts?: string[]; eventNames?: string[] }
+  | { kind: "healthFactor"; below: number }
+  | { kind: "cdpRatio"; asset?: string; marginPercent: number }
+  | { kind: "bridge"; txType: "deposit" | "withdrawal" };
+
+export type SubscriptionMatch = {
+  at: string;
+  message: string;
+  data?: unknown;
+};
+
+export type SubscriptionInfo = {
+  id: string;
+  spec: SubscriptionSpec;
+  createdAt: string;
+  lastPolledAt: string | null;
+  lastError: string | null;
+  recent: SubscriptionMatch[];
+};
+
+type Finding = { level: LoggingLevel; message: string; data?: unknown };
+
+type ActiveSubscription = {
+  id: string;
+  spec: SubscriptionSpec;
+  createdAt: Date;
+  /** Detector state carried between polls; undefined until the first poll. */
+  state: unknown;
+  lastPolledAt?: Date;
+  lastError?: string;
+  recent: SubscriptionMatch[];
+};
+
+/**
+ * Edge trigger for a threshold condition: "entered" when it starts holding (including on
+ * the first observation), "cleared" when it stops, undefined otherwise.
+ */
+export function detectThreshold(previous: boolean | undefined, active: boolean): "entered" | "cleared" | undefined {
+  if (active && previous !== true) return "entered";
+  if (!active && previous === true) return "cleared";
+  return undefined;
+}
+
+export type StatusChange = { id: string; from?: string; to: string };
+
+/**
+ * Compare transaction statuses with the previous poll. The first poll (previous undefined)
+ * only records a baseline; afterwards new transactions and changed statuses are reported.
+ */
+export function diffStatuses(previous: Map<string, string> | undefined, current: Map<string, string>): StatusChange[] {
+  if (!previous) return [];
+  const changes: StatusChange[] = [];
+  for (const [id, status] of current) {
+    const before = previous.get(id);
+    if (before !== status) changes.push({ id, ...(before === undefined ? {} : { from: before }), to: status });
+  }
+  return changes;
+}
+
+/** Block number of an event row, when it has one. */
+export function readBlockNumber(event: Record<string, unknown>): number | undefined {
+  const value = Number(event.block_number ?? event.blockNumber);
+  return Number.isSafeInteger(value) && value >= 0 ? value : undefined;
+}
+
+function describeSpec(spec: SubscriptionSpec): string {
+  switch (spec.kind) {
+    case "events":
+      return `events${spec.eventNames?.length ? ` ${spec.eventNames.join("/")}` : ""}${spec.contracts?.length ? ` on ${spec.contracts.join(", ")}` : ""}`;
+    case "healthFactor":
+      return `lending health factor below ${spec.below}`;
+    case "cdpRatio":
+      return `CDP vault${spec.asset ? ` ${spec.asset}` : "s"} within ${spec.marginPercent}% of liquidation`;
+    case "bridge":
+      return `bridge ${spec.txType} status changes`;
+  }
+}
+
+/**
+ * Background watches for one MCP session. Every subscription is polled against the
+ * backend on a fixed interval and each match is pushed to the session as a logging
+ * notification (logger "griphook.subscriptions"). Polls run with the request context of
+ * the call that created the subscription, so hosted sessions keep their credentials.
+ * Everything stops when the session's server closes.
+ */
+export class SubscriptionManager {
+  private subscriptions = new Map<string, ActiveSubscription>();
+  private timer: NodeJS.Timeout | undefined;
+  private polling = false;
+  private context: RequestContext = {};
+  private sessionId: string | undefined;
+
+  constructor(private server: McpServer, private client: GriphookClient, private options: SubscriptionConfig) {}
+
+  /**
+   * Add a subscription and poll it once, so the caller sees its baseline. context is the
+   * store of the creating request; sessionId addresses the notifications.
+   */
+  async add(spec: SubscriptionSpec, context: RequestContext | undefined, sessionId: string | undefined): Promise<SubscriptionInfo> {
+    if (this.subscriptions.size >= this.options.maxPerSession) {
+      throw new Error(`At most ${this.options.maxPerSession} subscriptions per session; remove one with strato.unsubscribe first`);
+    }
+    this.context = context ?? this.context;
+    this.sessionId = sessionId ?? this.sessionId;
+
+    const subscription: ActiveSubscription = { id: randomUUID(), spec, createdAt: new Date(), state: undefined, recent: [] };
+    this.subscriptions.set(subscription.id, subscription);
+    await this.pollSubscription(subscription);
+    this.start();
+    return this.describe(subscription);
+  }
+
+  remove(id: string): boolean {
+    const removed = this.subscriptions.delete(id);
+    if (this.subscriptions.size === 0) this.stop();
+    return removed;
+  }
+
+  list(): SubscriptionInfo[] {
+    return [...this.subscriptions.values()].map((subscription) => this.describe(subscription));
+  }
+
+  /** Poll every subscription once. Overlapping calls are skipped. */
+  async pollAll(): Promise<void> {
+    if (this.polling) return;
+    if (!this.server.isConnected()) {
+      this.close();
+      return;
+    }
+    this.polling = true;
+    try {
+      for (const subscription of this.subscriptions.values()) {
+        await this.pollSubscription(subscription);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /** Drop every subscription and stop polling. */
+  close(): void {
+    this.subscriptions.clear();
+    this.stop();
+  }
+
+  private start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => { void this.pollAll(); }, this.options.pollIntervalMs);
+    this.timer.unref();
+    // Stop with the session. Protocol.onclose is ours to set; keep any earlier handler.
+    const protocol = this.server.server;
+    const previous = protocol.onclose;
+    protocol.onclose = () => {
+      previous?.();
+      this.close();
+    };
+  }
+
+  private stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private describe(subscription: ActiveSubscription): SubscriptionInfo {
+    return {
+      id: subscription.id,
+      spec: subscription.spec,
+      createdAt: subscription.createdAt.toISOString(),
+      lastPolledAt: subscription.lastPolledAt?.toISOString() ?? null,
+      lastError: subscription.lastError ?? null,
+      recent: subscription.recent,
+    };
+  }
+
+  private async pollSubscription(subscription: ActiveSubscription): Promise<void> {
+    let findings: Finding[];
+    try {
+      findings = await requestContext.run({ ...this.context }, () => this.check(subscription));
+      subscription.lastError = undefined;
+    } catch (err) {
+      subscription.lastError = err instanceof Error ? err.message : String(err);
+      return;
+    } finally {
+      subscription.lastPolledAt = new Date();
+    }
+
+    for (const finding of findings) {
+      const match = { at: new Date().toISOString(), message: finding.message, data: finding.data };
+      subscription.recent = [...subscription.recent, match].slice(-RECENT_MATCHES);
+      await this.server.sendLoggingMessage({
+        level: finding.level,
+        logger: LOGGER,
+        data: { subscriptionId: subscription.id, kind: subscription.spec.kind, watch: describeSpec(subscription.spec), ...match },
+      }, this.sessionId).catch(() => undefined);
+    }
+  }
+
+  private async check(subscription: ActiveSubscription): Promise<Finding[]> {
+    const { spec } = subscription;
+    switch (spec.kind) {
+      case "events":
+        return this.checkEvents(subscription, spec);
+      case "healthFactor": {
+        const metrics = measureLending(await loadLendingState(this.client));
+        const active = metrics.healthFactor !== null && Number(metrics.healthFactor) < spec.below;
+        const edge = detectThreshold(subscription.state as boolean | undefined, active);
+        subscription.state = active;
+        if (!edge) return [];
+        return [{
+          level: edge === "entered" ? "warning" : "notice",
+          message: edge === "entered"
+            ? `Lending health factor ${metrics.healthFactor} is below ${spec.below}`
+            : `Lending health factor recovered to ${metrics.healthFactor ?? "n/a (no debt)"}`,
+          data: { healthFactor: metrics.healthFactor, ltvPercent: metrics.ltvPercent, debt: metrics.debt },
+        }];
+      }
+      case "cdpRatio": {
+        const previous = (subscription.state as Map<string, boolean> | undefined) ?? new Map<string, boolean>();
+        const next = new Map<string, boolean>();
+        const findings: Finding[] = [];
+        for (const { state } of await loadVaults(this.client, spec.asset)) {
+          if (state.debt === 0n) continue;
+          const metrics = measureVault(state, Math.round(spec.marginPercent * 100));
+          next.set(state.asset, metrics.atRisk);
+          const edge = detectThreshold(previous.get(state.asset), metrics.atRisk);
+          if (!edge) continue;
+          const label = state.symbol ?? state.asset;
+          findings.push({
+            level: edge === "entered" ? "warning" : "notice",
+            message: edge === "entered"
+              ? `CDP vault ${label} at ${metrics.collateralizationRatioPercent}% is within ${spec.marginPercent}% of liquidation (${metrics.liquidationRatioPercent}%)`
+              : `CDP vault ${label} recovered to ${metrics.collateralizationRatioPercent}%`,
+            data: { asset: state.asset, ...metrics },
+          });
+        }
+        subscription.state = next;
+        return findings;
+      }
+      case "bridge": {
+        const data = await safeFetch(this.client, "get", `/bridge/transactions/${spec.txType}`);
+        if (data === undefined) throw new Error(`/bridge/transactions/${spec.txType} is not available`);
+        const current = new Map<string, string>();
+        for (const entry of readRecords(data)) {
+          const id = bridgeTransactionId(entry);
+          const status = bridgeStatus(entry);
+          if (id && status) current.set(id, status);
+        }
+        const changes = diffStatuses(subscription.state as Map<string, string> | undefined, current);
+        subscription.state = current;
+        return changes.map((change) => {
+          const stage = bridgeStage(change.to, spec.txType);
+          return {
+            level: stage === "failed" ? "warning" : "notice",
+            message: `Bridge ${spec.txType} ${change.id}: ${change.from ? `${change.from} -> ` : ""}${change.to} (${stage})`,
+            data: { ...change, stage },
+          };
+        });
+      }
+    }
+  }
+
+  /** Events in blocks after the last one seen. The first poll only records the latest block. */
+  private async checkEvents(subscription: ActiveSubscription, spec: Extract<SubscriptionSpec, { kind: "events" }>): Promise<Finding[]> {
+    const filters = { contracts: spec.contracts, eventNames: spec.eventNames };
+    const lastBlock = subscription.state as number | undefined;
+    if (lastBlock === undefined) {
+      const latest = readRecords(await this.client.request("get", "/events", {
+        params: { ...buildEventParams(filters), order: "block_number.desc", limit: 1 },
+      }));
+      subscription.state = latest.length > 0 ? readBlockNumber(latest[0]) ?? 0 : 0;
+      return [];
+    }
+
+    const events = readRecords(await this.client.request("get", "/events", {
+      params: { ...buildEventParams({ ...filters, fromBlock: lastBlock + 1 }), order: "block_number.asc", limit: EVENT_BATCH },
+    }));
+    const blocks = events.map(readBlockNumber).filter((block): block is number => block !== undefined && block > lastBlock);
+    if (blocks.length === 0) return [];
+    // A full batch may have cut the last block short; leave that block for the next poll.
+    const top = Math.max(...blocks);
+    const cutoff = events.length === EVENT_BATCH && Math.min(...blocks) < top ? top - 1 : top;
+
+    const findings: Finding[] = [];
+    for (const event of events) {
+      const block = readBlockNumber(event);
+      if (block === undefined || block <= lastBlock || block > cutoff) continue;
+      const name = readString(event, ["event_name", "eventName", "name"]) ?? "event";
+      const contract = readString(event, ["address", "contract_address"]);
+      findings.push({ level: "info", message: `${name}${contract ? ` on ${contract}` : ""} in block ${block}`, data: event });
+    }
+    subscription.state = cutoff;
+    return findings;
+  }
+}
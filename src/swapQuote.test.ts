@@ -0,0 +1,58 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { GriphookClient } from "./client.js";
+import { PoolCurve, applySlippage, quoteExactIn, quotePool } from "./swapQuote.js";
+
+const E18 = 10n ** 18n;
+
+const constantProduct: PoolCurve = {
+  stable: false,
+  reserveIn: 1000n * E18,
+  reserveOut: E18 / 2n,
+  feeBps: 30,
+  decimalsIn: 18,
+  decimalsOut: 18,
+  amplification: 100n,
+};
+
+test("quotes constant-product pools with fee and price impact", () => {
+  const quote = quoteExactIn(constantProduct, 10n * E18);
+  assert.equal(quote.fee, 3n * 10n ** 16n);
+  assert.equal(quote.amountOut, 4_935_790_171_985_306n);
+  assert.equal(quote.priceImpactBps, 98);
+  assert.equal(applySlippage(quote.amountOut, 50), 4_911_111_221_125_379n);
+  assert.throws(() => quoteExactIn({ ...constantProduct, reserveOut: 0n }, E18), /no liquidity/);
+});
+
+test("quotes stable pools close to 1:1 across decimals", () => {
+  const stable: PoolCurve = {
+    stable: true,
+    reserveIn: 1_000_000n * E18,
+    reserveOut: 1_000_000n * 10n ** 6n,
+    feeBps: 4,
+    decimalsIn: 18,
+    decimalsOut: 6,
+    amplification: 100n,
+  };
+  const quote = quoteExactIn(stable, 1000n * E18);
+  // 1000 in, 0.04% fee, almost no curve slippage in a balanced pool.
+  assert.ok(quote.amountOut > 999_500_000n && quote.amountOut < 999_600_000n, `got ${quote.amountOut}`);
+  assert.equal(quote.priceImpactBps, 0);
+
+  const product = quoteExactIn({ ...stable, stable: false, reserveOut: 1_000_000n * E18, decimalsOut: 18 }, 1000n * E18);
+  assert.ok(quote.amountOut * 10n ** 12n > product.amountOut);
+});
+
+test("orients pools by the input token and reads embedded reserves", async () => {
+  const client = { async request() { return { customDecimals: 18 }; } } as unknown as GriphookClient;
+  const pool = {
+    address: "cccc000000000000000000000000000000000003",
+    tokenA: { address: "aaaa000000000000000000000000000000000001", poolBalance: (E18 / 2n).toString() },
+    tokenB: { address: "bbbb000000000000000000000000000000000002", poolBalance: (1000n * E18).toString() },
+    swapFeeRate: 30,
+  };
+  const quote = await quotePool(client, pool, "0xBBBB000000000000000000000000000000000002", 10n * E18, 50);
+  assert.equal(quote?.isAToB, false);
+  assert.equal(quote?.amountOut, 4_935_790_171_985_306n);
+  assert.equal(await quotePool(client, pool, "dddd000000000000000000000000000000000004", E18, 50), undefined);
+});
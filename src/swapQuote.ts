@@ -0,0 +1,264 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { GriphookClient, safeFetch } from "./client.js";
+import { readBaseUnits } from "./amounts.js";
+import { DEFAULT_DECIMALS, TokenInfo, fetchTokenInfo, normalizeAddress, readRecords, readTokenAddress } from "./tokens.js";
+
+const BPS = 10_000n;
+
+/** Swap fee (bps) assumed for pools that do not report swapFeeRate. */
+export const DEFAULT_SWAP_FEE_BPS = 30;
+
+/** Amplification coefficient assumed for stable pools that do not report one. */
+export const DEFAULT_AMPLIFICATION = 100n;
+
+/** Stable-curve math works on reserves scaled to this many decimals. */
+const STABLE_PRECISION = 18;
+
+/** Reserves and parameters of one pool, oriented in the swap direction. */
+export type PoolCurve = {
+  stable: boolean;
+  reserveIn: bigint;
+  reserveOut: bigint;
+  feeBps: number;
+  /** Only used by stable pools, to compare reserves at the same scale. */
+  decimalsIn: number;
+  decimalsOut: number;
+  amplification: bigint;
+};
+
+export type CurveQuote = {
+  amountOut: bigint;
+  /** Fee taken from amountIn, in input token base units. */
+  fee: bigint;
+  /** Shortfall of amountOut against the pool's spot price after fees, in bps. */
+  priceImpactBps: number;
+};
+
+function scale(value: bigint, from: number, to: number): bigint {
+  return from <= to ? value * 10n ** BigInt(to - from) : value / 10n ** BigInt(from - to);
+}
+
+/** StableSwap invariant D for two balances (Curve's get_D with n = 2). */
+function stableInvariant(x: bigint, y: bigint, amplification: bigint): bigint {
+  const sum = x + y;
+  if (sum === 0n) return 0n;
+  const ann = amplification * 4n;
+  let d = sum;
+  for (let i = 0; i < 255; i += 1) {
+    const dP = (((d * d) / (x * 2n)) * d) / (y * 2n);
+    const previous = d;
+    d = ((ann * sum + dP * 2n) * d) / ((ann - 1n) * d + 3n * dP);
+    if (d - previous <= 1n && previous - d <= 1n) break;
+  }
+  return d;
+}
+
+/** Balance of the other coin that keeps invariant d when this coin's balance is x. */
+function stableBalance(x: bigint, d: bigint, amplification: bigint): bigint {
+  const ann = amplification * 4n;
+  const c = (((d * d) / (x * 2n)) * d) / (ann * 2n);
+  const b = x + d / ann;
+  let y = d;
+  for (let i = 0; i < 255; i += 1) {
+    const previous = y;
+    y = (y * y + c) / (2n * y + b - d);
+    if (y - previous <= 1n && previous - y <= 1n) break;
+  }
+  return y;
+}
+
+/** Output (before fees are considered) for an input already net of fees. */
+function curveOut(curve: PoolCurve, amountIn: bigint): bigint {
+  if (!curve.stable) {
+    return (amountIn * curve.reserveOut) / (curve.reserveIn + amountIn);
+  }
+  const x = scale(curve.reserveIn, curve.decimalsIn, STABLE_PRECISION);
+  const y = scale(curve.reserveOut, curve.decimalsOut, STABLE_PRECISION);
+  const d = stableInvariant(x, y, curve.amplification);
+  const newY = stableBalance(x + scale(amountIn, curve.decimalsIn, STABLE_PRECISION), d, curve.amplification);
+  const out = y - newY - 1n;
+  return out > 0n ? scale(out, STABLE_PRECISION, curve.decimalsOut) : 0n;
+}
+
+/** What amountIn would return at the pool's current marginal price, with no curve slippage. */
+function spotOut(curve: PoolCurve, amountIn: bigint): bigint {
+  if (!curve.stable) {
+    return (amountIn * curve.reserveOut) / curve.reserveIn;
+  }
+  // Stable pools have no closed-form spot price; measure it with a trade too small to move it.
+  const probe = curve.reserveIn / 1_000_000n > 0n ? curve.reserveIn / 1_000_000n : 1n;
+  return (amountIn * curveOut(curve, probe)) / probe;
+}
+
+/**
+ * Quote an exact-input swap against one pool. The fee is taken from the input
+ * before the curve is applied, as the pool contracts do.
+ */
+export function quoteExactIn(curve: PoolCurve, amountIn: bigint): CurveQuote {
+  if (curve.reserveIn <= 0n || curve.reserveOut <= 0n) {
+    throw new Error("pool has no liquidity");
+  }
+  const fee = (amountIn * BigInt(curve.feeBps)) / BPS;
+  const amountOut = curveOut(curve, amountIn - fee);
+  const ideal = spotOut(curve, amountIn - fee);
+  const impact = ideal > amountOut ? ((ideal - amountOut) * BPS) / ideal : 0n;
+  return { amountOut, fee, priceImpactBps: Number(impact) };
+}
+
+/** Smallest output still accepted at the given slippage tolerance. */
+export function applySlippage(amountOut: bigint, slippageBps: number): bigint {
+  return (amountOut * (BPS - BigInt(slippageBps))) / BPS;
+}
+
+/**
+ * Pool reserve of one side. Pools report it either on the pool (tokenABalance) or on
+ * the embedded token entry (poolBalance).
+ */
+function readReserve(pool: Record<string, unknown>, side: "A" | "B"): bigint | undefined {
+  const token = pool[`token${side}`];
+  const embedded = token && typeof token === "object" ? token as Record<string, unknown> : {};
+  return readBaseUnits(pool[`token${side}Balance`]) ?? readBaseUnits(embedded.poolBalance) ?? readBaseUnits(embedded.balance);
+}
+
+/** One direction of a pool, as read from a /swap-pools entry. */
+export type PoolEdge = Omit<PoolCurve, "decimalsIn" | "decimalsOut"> & {
+  poolAddress: string;
+  isAToB: boolean;
+  tokenIn: string;
+  tokenOut: string;
+};
+
+/**
+ * Orient a /swap-pools entry for selling tokenIn. Returns undefined when tokenIn is not
+ * in the pool or the pool does not report its reserves.
+ */
+export function readPoolEdge(pool: Record<string, unknown>, tokenIn: string): PoolEdge | undefined {
+  const addressA = readTokenAddress(pool.tokenA);
+  const addressB = readTokenAddress(pool.tokenB);
+  const poolAddress = readTokenAddress(pool.address);
+  if (!addressA || !addressB || !poolAddress) return undefined;
+
+  const wanted = normalizeAddress(tokenIn);
+  if (wanted !== normalizeAddress(addressA) && wanted !== normalizeAddress(addressB)) return undefined;
+  const isAToB = wanted === normalizeAddress(addressA);
+
+  const reserveA = readReserve(pool, "A");
+  const reserveB = readReserve(pool, "B");
+  if (reserveA === undefined || reserveB === undefined) return undefined;
+
+  const feeRate = Number(pool.swapFeeRate);
+  return {
+    poolAddress,
+    isAToB,
+    tokenIn: isAToB ? addressA : addressB,
+    tokenOut: isAToB ? addressB : addressA,
+    stable: pool.isStable === true,
+    reserveIn: isAToB ? reserveA : reserveB,
+    reserveOut: isAToB ? reserveB : reserveA,
+    feeBps: Number.isInteger(feeRate) && feeRate >= 0 ? feeRate : DEFAULT_SWAP_FEE_BPS,
+    amplification: readBaseUnits(pool.amplification) ?? readBaseUnits(pool.A) ?? DEFAULT_AMPLIFICATION,
+  };
+}
+
+export type PoolQuote = {
+  poolAddress: string;
+  isAToB: boolean;
+  stable: boolean;
+  feeBps: number;
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+  amountIn: bigint;
+  amountOut: bigint;
+  fee: bigint;
+  priceImpactBps: number;
+  minAmountOut: bigint;
+};
+
+/**
+ * Quote one pool edge with known token metadata. Returns undefined when the pool has
+ * no liquidity.
+ */
+export function quoteEdge(
+  edge: PoolEdge,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  amountIn: bigint,
+  slippageBps: number,
+): PoolQuote | undefined {
+  let quote: CurveQuote;
+  try {
+    quote = quoteExactIn({ ...edge, decimalsIn: tokenIn.decimals, decimalsOut: tokenOut.decimals }, amountIn);
+  } catch {
+    return undefined;
+  }
+  return {
+    poolAddress: edge.poolAddress,
+    isAToB: edge.isAToB,
+    stable: edge.stable,
+    feeBps: edge.feeBps,
+    tokenIn,
+    tokenOut,
+    amountIn,
+    ...quote,
+    minAmountOut: applySlippage(quote.amountOut, slippageBps),
+  };
+}
+
+/**
+ * Quote a swap of amountIn of tokenIn against a pool object from /swap-pools.
+ * Returns undefined when the pool cannot be quoted for tokenIn.
+ */
+export async function quotePool(
+  client: GriphookClient,
+  pool: Record<string, unknown>,
+  tokenIn: string,
+  amountIn: bigint,
+  slippageBps: number,
+): Promise<PoolQuote | undefined> {
+  const edge = readPoolEdge(pool, tokenIn);
+  if (!edge) return undefined;
+  const [infoIn, infoOut] = await Promise.all([tokenInfo(client, edge.tokenIn), tokenInfo(client, edge.tokenOut)]);
+  return quoteEdge(edge, infoIn, infoOut, amountIn, slippageBps);
+}
+
+async function tokenInfo(client: GriphookClient, address: string): Promise<TokenInfo> {
+  return (await fetchTokenInfo(client, address)) ?? { address, decimals: DEFAULT_DECIMALS, decimalsAssumed: true };
+}
+
+/**
+ * Quote tokenIn -> tokenOut against every pool returned by /swap-pools/{tokenIn}/{tokenOut},
+ * best output first.
+ */
+export async function quoteSwap(
+  client: GriphookClient,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  slippageBps: number,
+): Promise<PoolQuote[]> {
+  const pools = readRecords(await safeFetch(client, "get", `/swap-pools/${tokenIn}/${tokenOut}`), { single: true });
+  const quotes = await Promise.all(pools.map((pool) => quotePool(client, pool, tokenIn, amountIn, slippageBps)));
+  return quotes
+    .filter((quote): quote is PoolQuote => quote !== undefined)
+    .sort((a, b) => (a.amountOut === b.amountOut ? 0 : a.amountOut > b.amountOut ? -1 : 1));
+}
+
+/**
+ * Quote a swap through a known pool, as strato.swap.execute does when given slippageBps
+ * instead of minAmountOut.
+ */
+export async function quotePoolSwap(
+  client: GriphookClient,
+  poolAddress: string,
+  isAToB: boolean,
+  amountIn: bigint,
+  slippageBps: number,
+): Promise<PoolQuote> {
+  const pool = await safeFetch<Record<string, unknown>>(client, "get", `/swap-pools/${poolAddress}`);
+  const tokenIn = pool && readTokenAddress(pool[isAToB ? "tokenA" : "tokenB"]);
+  const quote = pool && tokenIn ? await quotePool(client, pool, tokenIn, amountIn, slippageBps) : undefined;
+  if (!quote) {
+    throw new McpError(ErrorCode.InvalidParams, `Cannot quote pool ${poolAddress}: pool not found or reserves unavailable. Pass minAmountOut instead.`);
+  }
+  return quote;
+}
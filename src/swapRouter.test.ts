@@ -0,0 +1,94 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { GriphookClient } from "./client.js";
+import { applySlippage } from "./swapQuote.js";
+import { buildSwapGraph, executeRoute, findBestRoute } from "./swapRouter.js";
+
+const E18 = 10n ** 18n;
+const A = "aaaa000000000000000000000000000000000001";
+const B = "bbbb000000000000000000000000000000000002";
+const C = "cccc000000000000000000000000000000000003";
+const tokens = [
+  { address: A, _symbol: "AST", customDecimals: 18 },
+  { address: B, _symbol: "BST", customDecimals: 18 },
+  { address: C, _symbol: "CST", customDecimals: 18 },
+];
+
+function pool(address: string, tokenA: string, tokenB: string, reserveA: bigint, reserveB: bigint) {
+  return {
+    address,
+    tokenA: { address: tokenA, poolBalance: reserveA.toString() },
+    tokenB: { address: tokenB, poolBalance: reserveB.toString() },
+    swapFeeRate: 30,
+  };
+}
+
+function pools() {
+  return [
+    pool("p1", A, B, 100n * E18, 100n * E18),
+    pool("p2", A, C, 10_000n * E18, 10_000n * E18),
+    pool("p3", C, B, 10_000n * E18, 10_000n * E18),
+  ];
+}
+
+/** Client serving the pools above; onSwap may change them between hops. */
+function fakeClient(state: ReturnType<typeof pools>, onSwap?: (count: number) => void) {
+  const swaps: Record<string, unknown>[] = [];
+  const client = {
+    async request(method: string, path: string, options?: { data?: Record<string, unknown> }) {
+      if (method === "post" && path === "/swap") {
+        swaps.push(options?.data ?? {});
+        onSwap?.(swaps.length);
+        return { status: "success" };
+      }
+      if (path === "/tokens/balance") return [];
+      return state.find((entry) => path === `/swap-pools/${entry.address}`);
+    },
+  } as unknown as GriphookClient;
+  return { client, swaps };
+}
+
+test("routes through an intermediate token when it pays more", () => {
+  const graph = buildSwapGraph(pools(), tokens);
+  const direct = findBestRoute(graph, A, B, 10n * E18, 1);
+  const routed = findBestRoute(graph, A, B, 10n * E18, 3);
+  assert.deepEqual(direct?.hops.map((hop) => hop.poolAddress), ["p1"]);
+  assert.deepEqual(routed?.hops.map((hop) => hop.poolAddress), ["p2", "p3"]);
+  assert.ok(routed!.amountOut > direct!.amountOut);
+  assert.equal(routed?.hops[0].tokenOut.symbol, "CST");
+  assert.equal(findBestRoute(graph, A, "dddd000000000000000000000000000000000004", E18, 3), undefined);
+});
+
+test("sends every hop and enforces the overall minimum on the last one", async () => {
+  const state = pools();
+  const graph = buildSwapGraph(state, tokens);
+  const route = findBestRoute(graph, A, B, 10n * E18, 3)!;
+  const minOut = applySlippage(route.amountOut, 100);
+  const { client, swaps } = fakeClient(state);
+
+  const execution = await executeRoute(client, route, minOut);
+  assert.equal(execution.status, "completed");
+  assert.equal(swaps.length, 2);
+  assert.equal(swaps[1].minAmountOut, minOut.toString());
+  // Balances are not readable here, so the first hop is assumed to return its minimum:
+  // the least amount from which the second hop still meets minOut.
+  assert.equal(execution.hops[0].receivedFrom, "minimum");
+  assert.equal(swaps[1].amountIn, execution.hops[0].minAmountOut);
+  assert.ok(BigInt(execution.hops[0].minAmountOut) < BigInt(execution.hops[0].expectedOut));
+});
+
+test("stops before a hop that could no longer meet the minimum", async () => {
+  const state = pools();
+  const graph = buildSwapGraph(state, tokens);
+  const route = findBestRoute(graph, A, B, 10n * E18, 3)!;
+  const { client, swaps } = fakeClient(state, () => {
+    state[2] = pool("p3", C, B, 10_000n * E18, 5_000n * E18);
+  });
+
+  const execution = await executeRoute(client, route, applySlippage(route.amountOut, 100));
+  assert.equal(execution.status, "stopped");
+  assert.equal(swaps.length, 1);
+  assert.match(execution.reason ?? "", /before hop 2 of 2: .*below minAmountOut/);
+  assert.equal(execution.holding?.token, C);
+  assert.equal(execution.holding?.amount, execution.hops[0].received);
+});
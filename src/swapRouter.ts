@@ -0,0 +1,267 @@
+import { GriphookClient, safeFetch } from "./client.js";
+import { findBalance } from "./dryRun.js";
+import { getDryRunRecorder } from "./requestContext.js";
+import { PoolEdge, PoolQuote, quoteEdge, readPoolEdge } from "./swapQuote.js";
+import { DEFAULT_DECIMALS, TokenInfo, normalizeAddress, readRecords, readTokenAddress, toTokenInfo } from "./tokens.js";
+
+/** Longest route the router searches. */
+export const MAX_ROUTE_HOPS = 4;
+
+export type SwapGraph = {
+  /** Pool edges keyed by the normalized address of the token they sell. */
+  edges: Map<string, PoolEdge[]>;
+  tokens: Map<string, TokenInfo>;
+};
+
+export type SwapRoute = {
+  hops: PoolQuote[];
+  amountIn: bigint;
+  amountOut: bigint;
+};
+
+function routeToken(graph: SwapGraph, address: string): TokenInfo {
+  return graph.tokens.get(normalizeAddress(address)) ?? { address, decimals: DEFAULT_DECIMALS, decimalsAssumed: true };
+}
+
+/**
+ * Build the swap graph from /swap-pools entries and the /swap-pools/tokens list. Token
+ * entries embedded in pools fill in tokens the list does not describe.
+ */
+export function buildSwapGraph(pools: Record<string, unknown>[], tokens: unknown[]): SwapGraph {
+  const graph: SwapGraph = { edges: new Map(), tokens: new Map() };
+  for (const entry of tokens) {
+    const address = readTokenAddress(entry);
+    if (address) graph.tokens.set(normalizeAddress(address), toTokenInfo(address, entry));
+  }
+
+  for (const pool of pools) {
+    for (const side of ["tokenA", "tokenB"]) {
+      const address = readTokenAddress(pool[side]);
+      if (!address) continue;
+      const key = normalizeAddress(address);
+      const known = graph.tokens.get(key);
+      const embedded = toTokenInfo(address, pool[side]);
+      if (!known || (known.decimalsAssumed && !embedded.decimalsAssumed)) graph.tokens.set(key, embedded);
+
+      const edge = readPoolEdge(pool, address);
+      if (edge) graph.edges.set(key, [...(graph.edges.get(key) ?? []), edge]);
+    }
+  }
+  return graph;
+}
+
+/**
+ * Find the path from tokenIn to tokenOut with the highest expected output, trying every
+ * pool sequence of at most maxHops that does not revisit a token. Ties go to fewer hops.
+ */
+export function findBestRoute(
+  graph: SwapGraph,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  maxHops: number,
+): SwapRoute | undefined {
+  const target = normalizeAddress(tokenOut);
+  const hops: PoolQuote[] = [];
+  const seen = new Set([normalizeAddress(tokenIn)]);
+  let best: SwapRoute | undefined;
+
+  const visit = (token: string, amount: bigint) => {
+    if (hops.length > 0 && normalizeAddress(token) === target) {
+      if (!best || amount > best.amountOut || (amount === best.amountOut && hops.length < best.hops.length)) {
+        best = { hops: [...hops], amountIn, amountOut: amount };
+      }
+      return;
+    }
+    if (hops.length >= maxHops) return;
+
+    for (const edge of graph.edges.get(normalizeAddress(token)) ?? []) {
+      const next = normalizeAddress(edge.tokenOut);
+      if (seen.has(next)) continue;
+      const quote = quoteEdge(edge, routeToken(graph, edge.tokenIn), routeToken(graph, edge.tokenOut), amount, 0);
+      if (!quote || quote.amountOut === 0n) continue;
+
+      seen.add(next);
+      hops.push(quote);
+      visit(edge.tokenOut, quote.amountOut);
+      hops.pop();
+      seen.delete(next);
+    }
+  };
+
+  visit(tokenIn, amountIn);
+  return best;
+}
+
+/**
+ * Load every pool and swappable token. Pools listed without reserves are fetched
+ * individually so they can still be routed through.
+ */
+export async function loadSwapGraph(client: GriphookClient): Promise<SwapGraph> {
+  const [poolData, tokenData] = await Promise.all([
+    safeFetch(client, "get", "/swap-pools"),
+    safeFetch(client, "get", "/swap-pools/tokens"),
+  ]);
+  const pools = await Promise.all(readRecords(poolData, { single: true }).map(async (pool) => {
+    const tokenA = readTokenAddress(pool.tokenA);
+    if (!tokenA || readPoolEdge(pool, tokenA) || typeof pool.address !== "string") return pool;
+    return (await safeFetch<Record<string, unknown>>(client, "get", `/swap-pools/${pool.address}`)) ?? pool;
+  }));
+  return buildSwapGraph(pools, Array.isArray(tokenData) ? tokenData : []);
+}
+
+type PathStep = { edge: PoolEdge; tokenIn: TokenInfo; tokenOut: TokenInfo };
+
+/**
+ * Fetch the current state of each pool on a path. Returns undefined when a pool can no
+ * longer be read or has lost its reserves.
+ */
+async function loadPath(client: GriphookClient, path: PoolQuote[]): Promise<PathStep[] | undefined> {
+  const pools = await Promise.all(path.map((hop) => safeFetch<Record<string, unknown>>(client, "get", `/swap-pools/${hop.poolAddress}`)));
+  const steps: PathStep[] = [];
+  for (const [index, hop] of path.entries()) {
+    const pool = pools[index];
+    const edge = pool && readPoolEdge(pool, hop.tokenIn.address);
+    if (!edge) return undefined;
+    steps.push({ edge, tokenIn: hop.tokenIn, tokenOut: hop.tokenOut });
+  }
+  return steps;
+}
+
+function quotePath(steps: PathStep[], amountIn: bigint): SwapRoute | undefined {
+  const hops: PoolQuote[] = [];
+  let amount = amountIn;
+  for (const { edge, tokenIn, tokenOut } of steps) {
+    const quote = quoteEdge(edge, tokenIn, tokenOut, amount, 0);
+    if (!quote) return undefined;
+    hops.push(quote);
+    amount = quote.amountOut;
+  }
+  return { hops, amountIn, amountOut: amount };
+}
+
+/** Smallest input (at most upper) for which the steps still return minAmountOut. */
+function minimumInput(steps: PathStep[], minAmountOut: bigint, upper: bigint): bigint {
+  let low = 0n;
+  let high = upper;
+  while (low < high) {
+    const middle = (low + high) / 2n;
+    if ((quotePath(steps, middle)?.amountOut ?? 0n) >= minAmountOut) high = middle;
+    else low = middle + 1n;
+  }
+  return high;
+}
+
+export type HopReport = {
+  poolAddress: string;
+  isAToB: boolean;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  expectedOut: string;
+  minAmountOut: string;
+  received?: string;
+  /** How received was determined: the wallet balance change, the hop minimum when the balance could not be read, or the quote in a dry run. */
+  receivedFrom?: "balance" | "minimum" | "quote";
+  transaction?: unknown;
+};
+
+export type RouteExecution = {
+  status: "completed" | "stopped";
+  amountIn: string;
+  expectedOut: string;
+  minAmountOut: string;
+  /** Hops that were sent, followed by the hop the route stopped at (if any). */
+  hops: HopReport[];
+  amountOut?: string;
+  reason?: string;
+  /** When stopped after the first hop: the intermediate token now held from this route. */
+  holding?: { token: string; symbol?: string; amount: string };
+};
+
+async function readBalance(client: GriphookClient, token: string): Promise<bigint | undefined> {
+  return findBalance(await safeFetch(client, "get", "/tokens/balance"), token);
+}
+
+/**
+ * Send the hops of a route one by one. Before each hop the rest of the route is quoted
+ * again from the amount actually received, and the route stops (without sending) when
+ * it could no longer deliver minAmountOut. Each hop's own minimum is the least output
+ * from which the remaining hops still reach minAmountOut at current reserves, so the
+ * last hop enforces minAmountOut exactly.
+ */
+export async function executeRoute(
+  client: GriphookClient,
+  route: SwapRoute,
+  minAmountOut: bigint,
+): Promise<RouteExecution> {
+  const dryRun = getDryRunRecorder() !== undefined;
+  const report: RouteExecution = {
+    status: "completed",
+    amountIn: route.amountIn.toString(),
+    expectedOut: route.amountOut.toString(),
+    minAmountOut: minAmountOut.toString(),
+    hops: [],
+  };
+
+  const stop = (index: number, amount: bigint, reason: string): RouteExecution => {
+    report.status = "stopped";
+    report.reason = `Stopped before hop ${index + 1} of ${route.hops.length}: ${reason}`;
+    if (index > 0) {
+      const token = route.hops[index].tokenIn;
+      report.holding = { token: token.address, symbol: token.symbol, amount: amount.toString() };
+    }
+    return report;
+  };
+
+  let amount = route.amountIn;
+  for (const [index, planned] of route.hops.entries()) {
+    const steps = await loadPath(client, route.hops.slice(index));
+    const remaining = steps && quotePath(steps, amount);
+    if (!steps || !remaining) {
+      return stop(index, amount, `pool ${planned.poolAddress} can no longer be quoted`);
+    }
+    if (remaining.amountOut < minAmountOut) {
+      return stop(index, amount, `the rest of the route now returns ${remaining.amountOut}, below minAmountOut ${minAmountOut}`);
+    }
+
+    const hop = remaining.hops[0];
+    const hopMin = steps.length === 1 ? minAmountOut : minimumInput(steps.slice(1), minAmountOut, hop.amountOut);
+    const entry: HopReport = {
+      poolAddress: hop.poolAddress,
+      isAToB: hop.isAToB,
+      tokenIn: hop.tokenIn.address,
+      tokenOut: hop.tokenOut.address,
+      amountIn: amount.toString(),
+      expectedOut: hop.amountOut.toString(),
+      minAmountOut: hopMin.toString(),
+    };
+    report.hops.push(entry);
+
+    const before = dryRun ? undefined : await readBalance(client, hop.tokenOut.address);
+    try {
+      entry.transaction = await client.request("post", "/swap", {
+        data: { poolAddress: hop.poolAddress, isAToB: hop.isAToB, amountIn: amount.toString(), minAmountOut: hopMin.toString() },
+      });
+    } catch (err) {
+      // Nothing has moved yet on the first hop, so the error can surface as-is.
+      if (index === 0) throw err;
+      report.hops.pop();
+      return stop(index, amount, `swap failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    if (dryRun) {
+      amount = hop.amountOut;
+      entry.receivedFrom = "quote";
+    } else {
+      const after = before === undefined ? undefined : await readBalance(client, hop.tokenOut.address);
+      const received = before !== undefined && after !== undefined && after > before ? after - before : undefined;
+      amount = received ?? hopMin;
+      entry.receivedFrom = received === undefined ? "minimum" : "balance";
+    }
+    entry.received = amount.toString();
+  }
+
+  report.amountOut = amount.toString();
+  return report;
+}
@@ -0,0 +1,49 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { GriphookClient } from "./client.js";
+import { TokenRegistry, searchTokens } from "./tokenRegistry.js";
+
+const catalog = [
+  { address: "aaaa000000000000000000000000000000000001", _name: "USD Strato", _symbol: "USDST", customDecimals: 18, status: 2 },
+  { address: "bbbb000000000000000000000000000000000002", _name: "Ether Strato", _symbol: "ETHST", customDecimals: 18, status: 2 },
+  { address: "cccc000000000000000000000000000000000003", _name: "USD Coin", _symbol: "USDC", customDecimals: 6, status: 2 },
+  { address: "dddd000000000000000000000000000000000004", _name: "USD Coin (legacy)", _symbol: "USDC", customDecimals: 6, status: 3 },
+  { address: "eeee000000000000000000000000000000000005", _name: "Gold", _symbol: "GOLDST", customDecimals: 18, status: 2 },
+  { address: "ffff000000000000000000000000000000000006", _name: "Gold (pending)", _symbol: "GOLDST", customDecimals: 18, status: 1 },
+  { address: "1234000000000000000000000000000000000007", _name: "Gold", _symbol: "GOLDST", customDecimals: 18, status: 2 },
+];
+
+function registry(): { tokens: TokenRegistry; calls: () => number } {
+  let calls = 0;
+  const client = {
+    async request() {
+      calls += 1;
+      return catalog;
+    },
+  } as unknown as GriphookClient;
+  return { tokens: new TokenRegistry(client, 60_000), calls: () => calls };
+}
+
+test("resolves symbols and names to addresses", async () => {
+  const { tokens, calls } = registry();
+  assert.equal(await tokens.resolveAddress("usdst"), catalog[0].address);
+  assert.equal(await tokens.resolveAddress("Ether Strato"), catalog[1].address);
+  assert.equal(await tokens.resolveAddress(`0x${catalog[4].address}`), `0x${catalog[4].address}`);
+  assert.equal(calls(), 1);
+});
+
+test("prefers the single active token and reports real ambiguity", async () => {
+  const { tokens } = registry();
+  assert.equal(await tokens.resolveAddress("USDC"), catalog[2].address);
+  await assert.rejects(tokens.resolveAddress("GOLDST"), /ambiguous.*eeee.*ffff.*1234/);
+  await assert.rejects(tokens.resolveAddress("ETHS"), /Unknown token 'ETHS'\. Did you mean: ETHST/);
+});
+
+test("ranks fuzzy matches", async () => {
+  const { tokens } = registry();
+  const list = await tokens.list();
+  assert.deepEqual(searchTokens(list, "usd").map((match) => match.symbol), ["USDC", "USDC", "USDST"]);
+  assert.equal(searchTokens(list, "ethzt")[0]?.symbol, "ETHST");
+  assert.equal(searchTokens(list, "ether")[0]?.matchedOn, "name");
+  assert.deepEqual(searchTokens(list, "zzz"), []);
+});
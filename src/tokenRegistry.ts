@@ -0,0 +1,191 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod";
+import type { GriphookClient } from "./client.js";
+import { interceptTools } from "./intercept.js";
+import { cacheLookups } from "./metrics.js";
+import { TokenInfo, normalizeAddress, toTokenInfo } from "./tokens.js";
+import { getToolMetadata } from "./toolMetadata.js";
+
+export type TokenMatch = TokenInfo & {
+  /** Higher is better; 100 is an exact symbol match. */
+  score: number;
+  matchedOn: "address" | "symbol" | "name";
+};
+
+/** Token status values used by the backend (see strato.tokens.set-status). */
+const ACTIVE_STATUS = 2;
+
+type CatalogToken = TokenInfo & { status?: number };
+
+const ADDRESS_PATTERN = /^(0x)?[0-9a-fA-F]{40}$/;
+
+export function isAddress(value: string): boolean {
+  return ADDRESS_PATTERN.test(value.trim());
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function scoreText(query: string, text: string | undefined, exact: number): number {
+  if (!text) return 0;
+  const value = text.toLowerCase();
+  if (value === query) return exact;
+  if (value.startsWith(query)) return exact - 30;
+  if (value.includes(query)) return exact - 50;
+  const distance = editDistance(query, value);
+  return distance <= Math.max(1, Math.floor(query.length / 4)) ? exact - 60 - distance : 0;
+}
+
+/**
+ * Rank tokens against a free-text query: exact symbol, then exact name, then prefixes,
+ * substrings and near-miss spellings.
+ */
+export function searchTokens(tokens: TokenInfo[], query: string, limit = 10): TokenMatch[] {
+  const wanted = query.trim().toLowerCase();
+  if (!wanted) return [];
+
+  if (isAddress(wanted)) {
+    const address = normalizeAddress(wanted);
+    return tokens
+      .filter((token) => normalizeAddress(token.address) === address)
+      .map((token) => ({ ...token, score: 100, matchedOn: "address" as const }));
+  }
+
+  const matches: TokenMatch[] = [];
+  for (const token of tokens) {
+    const bySymbol = scoreText(wanted, token.symbol, 100);
+    const byName = scoreText(wanted, token.name, 90);
+    if (bySymbol === 0 && byName === 0) continue;
+    matches.push(bySymbol >= byName
+      ? { ...token, score: bySymbol, matchedOn: "symbol" }
+      : { ...token, score: byName, matchedOn: "name" });
+  }
+  return matches
+    .sort((a, b) => b.score - a.score || (a.symbol ?? "").localeCompare(b.symbol ?? ""))
+    .slice(0, limit);
+}
+
+function describeToken(token: TokenInfo): string {
+  return `${token.symbol ?? "?"}${token.name ? ` "${token.name}"` : ""} (${token.address})`;
+}
+
+/**
+ * Cached view of the /tokens catalog that turns symbols and names into addresses.
+ * The catalog is shared by every caller and refreshed after the TTL.
+ */
+export class TokenRegistry {
+  private cache: { tokens: CatalogToken[]; fetchedAt: number } | undefined;
+  private pending: Promise<CatalogToken[]> | undefined;
+
+  constructor(private client: GriphookClient, private ttlMs: number) {}
+
+  async list(): Promise<CatalogToken[]> {
+    if (this.cache && Date.now() - this.cache.fetchedAt < this.ttlMs) {
+      cacheLookups.inc({ cache: "token_catalog", result: "hit" });
+      return this.cache.tokens;
+    }
+    cacheLookups.inc({ cache: "token_catalog", result: "miss" });
+    this.pending ??= this.fetch().finally(() => { this.pending = undefined; });
+    return this.pending;
+  }
+
+  private async fetch(): Promise<CatalogToken[]> {
+    const data = await this.client.request<unknown>("get", "/tokens", {
+      params: { select: "address,_name,_symbol,customDecimals,status" },
+    });
+    const rows = Array.isArray(data) ? data : [];
+    const tokens = rows
+      .filter((row): row is Record<string, unknown> => Boolean(row) && typeof row === "object" && typeof row.address === "string")
+      .map((row) => ({ ...toTokenInfo(row.address as string, row), status: Number(row.status) }));
+    this.cache = { tokens, fetchedAt: Date.now() };
+    return tokens;
+  }
+
+  async search(query: string, limit?: number): Promise<TokenMatch[]> {
+    return searchTokens(await this.list(), query, limit);
+  }
+
+  /**
+   * Resolve an address, symbol or name to a token address. Addresses pass through
+   * untouched; symbols and names must match exactly one token (case-insensitive),
+   * or exactly one active token when legacy or pending tokens share the symbol.
+   */
+  async resolveAddress(value: string): Promise<string> {
+    const query = value.trim();
+    if (isAddress(query)) return query;
+
+    const tokens = await this.list();
+    const wanted = query.toLowerCase();
+    const bySymbol = tokens.filter((token) => token.symbol?.toLowerCase() === wanted);
+    const candidates = bySymbol.length > 0 ? bySymbol : tokens.filter((token) => token.name?.toLowerCase() === wanted);
+
+    if (candidates.length === 1) return candidates[0].address;
+    const active = candidates.filter((token) => token.status === ACTIVE_STATUS);
+    if (active.length === 1) return active[0].address;
+
+    if (candidates.length > 1) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Token '${query}' is ambiguous: ${candidates.map(describeToken).join(", ")}. Pass the address instead.`,
+      );
+    }
+
+    const suggestions = searchTokens(tokens, query, 5);
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown token '${query}'.${suggestions.length > 0 ? ` Did you mean: ${suggestions.map(describeToken).join(", ")}?` : ""} Use strato.tokens.resolve to search.`,
+    );
+  }
+}
+
+/** Input fields that hold a token address on any tool. */
+const TOKEN_ADDRESS_FIELDS = ["tokenA", "tokenB", "asset", "stratoToken", "targetStratoToken", "collateralAsset", "token", "tokenAddress"];
+
+const RESOLVE_HINT = "Token address, symbol (e.g. USDST) or exact name";
+
+/**
+ * Let token address inputs also take a symbol or name, resolved through the client's
+ * token registry before anything else sees the input. Fields are the shared names in
+ * TOKEN_ADDRESS_FIELDS plus any tool-specific tokenFields from toolMetadata.
+ */
+export function withTokenResolution(server: McpServer, client: GriphookClient): McpServer {
+  return interceptTools(server, (name, { config, handler }) => {
+    const shape = config.inputSchema.shape as Record<string, z.ZodType>;
+    const fields = [...TOKEN_ADDRESS_FIELDS, ...(getToolMetadata(name).tokenFields ?? [])].filter((field) => field in shape);
+    if (fields.length === 0) return { config, handler };
+
+    const overrides: Record<string, z.ZodType> = {};
+    for (const field of fields) {
+      const original = shape[field];
+      overrides[field] = original.describe(original.description ? `${original.description}. ${RESOLVE_HINT}` : RESOLVE_HINT);
+    }
+
+    return {
+      config: { ...config, inputSchema: config.inputSchema.extend(overrides) },
+      handler: async (input, extra) => {
+        const resolved: Record<string, unknown> = { ...input };
+        for (const field of fields) {
+          const value = input[field];
+          if (typeof value === "string" && value.length > 0) {
+            resolved[field] = await client.tokens.resolveAddress(value);
+          } else if (Array.isArray(value)) {
+            resolved[field] = await Promise.all(value.map((entry) => typeof entry === "string" ? client.tokens.resolveAddress(entry) : entry));
+          }
+        }
+        return handler(resolved, extra);
+      },
+    };
+  });
+}
@@ -0,0 +1,102 @@
+import { GriphookClient, safeFetch } from "./client.js";
+import { formatUnits } from "./amounts.js";
+
+/** Decimals assumed when the backend does not report customDecimals. */
+export const DEFAULT_DECIMALS = 18;
+
+export type TokenInfo = {
+  address: string;
+  symbol?: string;
+  name?: string;
+  decimals: number;
+  /** Set when decimals were not reported and DEFAULT_DECIMALS was assumed. */
+  decimalsAssumed?: boolean;
+};
+
+export function normalizeAddress(address: string): string {
+  return address.toLowerCase().replace(/^0x/, "");
+}
+
+/** Entries of a backend list response, sent as a plain array or under data. */
+export function readList(data: unknown): unknown[] {
+  if (Array.isArray(data)) return data;
+  return Array.isArray((data as { data?: unknown })?.data) ? (data as { data: unknown[] }).data : [];
+}
+
+/**
+ * Rows of a backend list response (see readList). Entries that are not objects are
+ * dropped. With single, a lone object counts as a one-row list.
+ */
+export function readRecords(data: unknown, options: { single?: boolean } = {}): Record<string, unknown>[] {
+  const lone = options.single && data && typeof data === "object" && !Array.isArray(data)
+    && !Array.isArray((data as { data?: unknown }).data);
+  return (lone ? [data] : readList(data)).filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object");
+}
+
+/** The first of keys holding a non-empty string or a number, as a string. */
+export function readString(record: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value.length > 0) return value;
+    if (typeof value === "number") return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * Read a token address from either a plain string or a nested token object ({ address }).
+ */
+export function readTokenAddress(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (value && typeof value === "object" && typeof (value as { address?: unknown }).address === "string") {
+    return (value as { address: string }).address;
+  }
+  return undefined;
+}
+
+export function toTokenInfo(address: string, raw: unknown): TokenInfo {
+  const record = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const decimals = Number(record.customDecimals ?? record.decimals);
+  const symbol = record._symbol ?? record.symbol;
+  const name = record._name ?? record.name;
+  const known = Number.isInteger(decimals) && decimals >= 0;
+  return {
+    address,
+    symbol: typeof symbol === "string" ? symbol : undefined,
+    name: typeof name === "string" ? name : undefined,
+    decimals: known ? decimals : DEFAULT_DECIMALS,
+    ...(known ? {} : { decimalsAssumed: true }),
+  };
+}
+
+/**
+ * Fetch token metadata from /tokens/{address}. Returns undefined when the token is unknown.
+ */
+export async function fetchTokenInfo(client: GriphookClient, address: string): Promise<TokenInfo | undefined> {
+  const data = await safeFetch(client, "get", `/tokens/${address}`);
+  if (data === undefined || data === null) return undefined;
+  return toTokenInfo(address, Array.isArray(data) ? data[0] : data);
+}
+
+/**
+ * Add a `<field>Formatted` value next to base-unit fields of backend entries that carry
+ * their token's decimals (directly or under `token`). Entries without decimals are left as-is.
+ */
+export function withFormattedAmounts(entries: unknown, fields: string[]): unknown {
+  if (!Array.isArray(entries)) return entries;
+  return entries.map((entry) => {
+    if (!entry || typeof entry !== "object") return entry;
+    const record = entry as Record<string, unknown>;
+    const info = toTokenInfo("", record.token && typeof record.token === "object" ? record.token : record);
+    if (info.decimalsAssumed) return entry;
+
+    const formatted: Record<string, string> = {};
+    for (const field of fields) {
+      const value = record[field];
+      if (typeof value === "string" && /^\d+$/.test(value)) {
+        formatted[`${field}Formatted`] = formatUnits(BigInt(value), info.decimals);
+      }
+    }
+    return { ...record, ...formatted };
+  });
+}
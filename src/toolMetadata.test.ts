@@ -0,0 +1,56 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { GriphookClient } from "./client.js";
+import { loadConfig } from "./config.js";
+import { getToolAnnotations, toolMetadata } from "./toolMetadata.js";
+import { registerTools } from "./tools.js";
+
+function collectTools(env: Record<string, string> = {}): Map<string, ToolAnnotations | undefined> {
+  Object.assign(process.env, env);
+  try {
+    const config = loadConfig();
+    const tools = new Map<string, ToolAnnotations | undefined>();
+    const collector = {
+      registerTool(name: string, metadata: { annotations?: ToolAnnotations }) {
+        tools.set(name, metadata.annotations);
+      },
+    } as unknown as McpServer;
+    registerTools(collector, new GriphookClient(config), config);
+    return tools;
+  } finally {
+    for (const key of Object.keys(env)) delete process.env[key];
+  }
+}
+
+test("every registered tool has metadata and annotations", () => {
+  const tools = collectTools();
+  for (const [name, annotations] of tools) {
+    assert.ok(name in toolMetadata, `${name} is missing from toolMetadata`);
+    assert.deepEqual(annotations, getToolAnnotations(name));
+  }
+  for (const name of Object.keys(toolMetadata)) {
+    assert.ok(tools.has(name), `${name} is in toolMetadata but not registered`);
+  }
+});
+
+test("read and write tools get matching hints", () => {
+  assert.deepEqual(getToolAnnotations("strato.lending"), {
+    readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true,
+  });
+  assert.deepEqual(getToolAnnotations("strato.cdp.set-global-paused"), {
+    readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true,
+  });
+  assert.equal(getToolAnnotations("strato.rpc").readOnlyHint, false);
+  assert.equal(getToolAnnotations("strato.rpc", true).readOnlyHint, true);
+});
+
+test("read-only mode registers only read-only tools", () => {
+  const tools = collectTools({ GRIPHOOK_READ_ONLY: "true" });
+  assert.ok(tools.has("strato.rpc"));
+  for (const [name, annotations] of tools) {
+    assert.equal(annotations?.readOnlyHint, true, name);
+  }
+  assert.equal(tools.size, Object.values(toolMetadata).filter((m) => m.readOnly || m.readOnlyCapable).length);
+});
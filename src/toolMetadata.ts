@@ -0,0 +1,266 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import type { GriphookConfig } from "./config.js";
+import { interceptTools } from "./intercept.js";
+
+/**
+ * Where the token moved by a tool comes from.
+ * - field: an input field holds the token address
+ * - pool: the token is one side of the swap pool in input.poolAddress ("in"/"out" follow input.isAToB)
+ * - symbol: the tool always moves a fixed token (e.g. borrowing USDST)
+ * - decimalsField: a token being created, whose decimals are given by an input field
+ */
+export type TokenSource =
+  | { field: string }
+  | { pool: "in" | "out" | "a" | "b" | "lp" }
+  | { symbol: string }
+  | { decimalsField: string };
+
+export type ValueFlow = {
+  token: TokenSource;
+  /** Input field holding the base-unit amount. Absent for "max"/"all" tools whose amount is decided on-chain. */
+  amount?: string;
+  /** Input field holding the recipient, when funds leave the caller's control. */
+  destination?: string;
+};
+
+export type ToolMetadata = {
+  /** Only reads backend or chain state. Read-only mode registers just these tools. */
+  readOnly?: boolean;
+  /** Can write, but restricts itself to reads in read-only mode, so it stays registered there. */
+  readOnlyCapable?: boolean;
+  /** Requires an admin account on the backend. */
+  adminOnly?: boolean;
+  /** Whether a write can destroy or overwrite state (MCP destructiveHint). Defaults to true for writes. */
+  destructive?: boolean;
+  /** Whether repeating a write with the same inputs has no further effect (MCP idempotentHint). Defaults to false. */
+  idempotent?: boolean;
+  /**
+   * Set on tools that move funds; describes which inputs carry the token, amount and destination.
+   * Tools that spend more than one token (adding liquidity) list one flow per token.
+   */
+  movesValue?: ValueFlow | ValueFlow[];
+  /** Token address inputs beyond the shared names (tokenA, asset, ...); these also accept symbols and names. */
+  tokenFields?: string[];
+  /** Base-unit amount inputs and the token they are denominated in. These also accept human-readable amounts. */
+  amounts?: Record<string, TokenSource>;
+};
+
+const USDST: TokenSource = { symbol: "USDST" };
+const SUSDST: TokenSource = { symbol: "sUSDST" };
+
+/** Every tool registered by tools.ts. Annotations, read-only mode and value checks all read from here. */
+export const toolMetadata: Record<string, ToolMetadata> = {
+  "strato.tokens": { readOnly: true },
+  "strato.swap": { readOnly: true },
+  "strato.lending": { readOnly: true },
+  "strato.cdp": { readOnly: true },
+  "strato.liquidations.scan": { readOnly: true },
+  "strato.bridge": { readOnly: true },
+  "strato.bridge.track": { readOnly: true },
+  "strato.rewards": { readOnly: true },
+  "strato.portfolio": { readOnly: true },
+  "strato.oracle": { readOnly: true, tokenFields: ["assets"] },
+  "strato.oracle.history": { readOnly: true },
+  "strato.oracle.staleness": { readOnly: true, tokenFields: ["assets"] },
+  "strato.history": { readOnly: true },
+  "strato.admin": { readOnly: true },
+  "strato.events": { readOnly: true },
+  "strato.subscribe": { readOnly: true },
+  "strato.unsubscribe": { readOnly: true },
+  "strato.subscriptions": { readOnly: true },
+  "strato.protocol-fees": { readOnly: true },
+  "strato.health": { readOnly: true },
+  "strato.rpc": { readOnlyCapable: true },
+
+  "strato.tokens.resolve": { readOnly: true },
+  "strato.tokens.create": {
+    adminOnly: true,
+    destructive: false,
+    amounts: { initialSupply: { decimalsField: "customDecimals" } },
+  },
+  "strato.tokens.transfer": {
+    tokenFields: ["address"],
+    movesValue: { token: { field: "address" }, amount: "value", destination: "to" },
+    amounts: { value: { field: "address" } },
+  },
+  "strato.tokens.transfer-from": {
+    tokenFields: ["address"],
+    movesValue: { token: { field: "address" }, amount: "value", destination: "to" },
+    amounts: { value: { field: "address" } },
+  },
+  "strato.tokens.approve": {
+    tokenFields: ["address"],
+    idempotent: true,
+    movesValue: { token: { field: "address" }, amount: "value", destination: "spender" },
+    amounts: { value: { field: "address" } },
+  },
+  "strato.tokens.set-status": { adminOnly: true, idempotent: true, tokenFields: ["address"] },
+
+  "strato.swap.quote": {
+    readOnly: true,
+    tokenFields: ["tokenIn", "tokenOut"],
+    amounts: { amountIn: { field: "tokenIn" } },
+  },
+  "strato.swap.create-pool": { destructive: false },
+  "strato.swap.execute": {
+    movesValue: { token: { pool: "in" }, amount: "amountIn" },
+    amounts: { amountIn: { pool: "in" }, minAmountOut: { pool: "out" } },
+  },
+  "strato.swap.route-execute": {
+    tokenFields: ["tokenIn", "tokenOut"],
+    movesValue: { token: { field: "tokenIn" }, amount: "amountIn" },
+    amounts: { amountIn: { field: "tokenIn" }, minAmountOut: { field: "tokenOut" } },
+  },
+  "strato.swap.add-liquidity": {
+    destructive: false,
+    movesValue: [{ token: { pool: "b" }, amount: "tokenBAmount" }, { token: { pool: "a" }, amount: "maxTokenAAmount" }],
+    amounts: { tokenBAmount: { pool: "b" }, maxTokenAAmount: { pool: "a" } },
+  },
+  "strato.swap.add-liquidity-single": {
+    destructive: false,
+    movesValue: { token: { pool: "in" }, amount: "singleTokenAmount" },
+    amounts: { singleTokenAmount: { pool: "in" } },
+  },
+  "strato.swap.remove-liquidity": {
+    movesValue: { token: { pool: "lp" }, amount: "lpTokenAmount" },
+    amounts: { lpTokenAmount: { pool: "lp" } },
+  },
+
+  "strato.lending.simulate": { readOnly: true },
+  "strato.lending.supply-collateral": {
+    destructive: false,
+    movesValue: { token: { field: "asset" }, amount: "amount" },
+    amounts: { amount: { field: "asset" } },
+  },
+  "strato.lending.withdraw-collateral": {
+    movesValue: { token: { field: "asset" }, amount: "amount" },
+    amounts: { amount: { field: "asset" } },
+  },
+  "strato.lending.withdraw-collateral-max": { movesValue: { token: { field: "asset" } } },
+  "strato.lending.borrow": { movesValue: { token: USDST, amount: "amount" }, amounts: { amount: USDST } },
+  "strato.lending.borrow-max": { movesValue: { token: USDST } },
+  "strato.lending.repay": { movesValue: { token: USDST, amount: "amount" }, amounts: { amount: USDST } },
+  "strato.lending.repay-all": { idempotent: true, movesValue: { token: USDST } },
+  "strato.lending.deposit-liquidity": {
+    destructive: false,
+    movesValue: { token: USDST, amount: "amount" },
+    amounts: { amount: USDST },
+  },
+  "strato.lending.withdraw-liquidity": { movesValue: { token: USDST, amount: "amount" }, amounts: { amount: USDST } },
+  "strato.lending.withdraw-liquidity-all": { idempotent: true, movesValue: { token: USDST } },
+  "strato.lending.safety-stake": {
+    destructive: false,
+    movesValue: { token: USDST, amount: "amount" },
+    amounts: { amount: USDST },
+  },
+  "strato.lending.safety-cooldown": { destructive: false },
+  "strato.lending.safety-redeem": {
+    movesValue: { token: SUSDST, amount: "sharesAmount" },
+    amounts: { sharesAmount: SUSDST },
+  },
+  "strato.lending.safety-redeem-all": { idempotent: true, movesValue: { token: SUSDST } },
+  "strato.lending.liquidate": {
+    movesValue: { token: USDST, amount: "repayAmount" },
+    amounts: { repayAmount: USDST, minCollateralOut: { field: "collateralAsset" } },
+  },
+  "strato.lending.configure-asset": { adminOnly: true, idempotent: true },
+  "strato.lending.sweep-reserves": {
+    adminOnly: true,
+    movesValue: { token: USDST, amount: "amount" },
+    amounts: { amount: USDST },
+  },
+  "strato.lending.set-debt-ceilings": { adminOnly: true, idempotent: true },
+  "strato.lending.pause": { adminOnly: true, idempotent: true },
+  "strato.lending.unpause": { adminOnly: true, idempotent: true },
+
+  "strato.cdp.position": {
+    readOnly: true,
+    amounts: { deposit: { field: "asset" }, withdraw: { field: "asset" }, mint: USDST, repay: USDST },
+  },
+  "strato.cdp.deposit": {
+    destructive: false,
+    movesValue: { token: { field: "asset" }, amount: "amount" },
+    amounts: { amount: { field: "asset" } },
+  },
+  "strato.cdp.withdraw": {
+    movesValue: { token: { field: "asset" }, amount: "amount" },
+    amounts: { amount: { field: "asset" } },
+  },
+  "strato.cdp.withdraw-max": { movesValue: { token: { field: "asset" } } },
+  "strato.cdp.mint": { movesValue: { token: USDST, amount: "amount" }, amounts: { amount: USDST } },
+  "strato.cdp.mint-max": { movesValue: { token: USDST } },
+  "strato.cdp.repay": { movesValue: { token: USDST, amount: "amount" }, amounts: { amount: USDST } },
+  "strato.cdp.repay-all": { idempotent: true, movesValue: { token: USDST } },
+  "strato.cdp.liquidate": { movesValue: { token: USDST, amount: "debtToCover" }, amounts: { debtToCover: USDST } },
+  "strato.cdp.set-collateral-config": { adminOnly: true, idempotent: true },
+  "strato.cdp.set-collateral-config-batch": { adminOnly: true, idempotent: true, tokenFields: ["assets"] },
+  "strato.cdp.set-asset-paused": { adminOnly: true, idempotent: true },
+  "strato.cdp.set-asset-supported": { adminOnly: true, idempotent: true },
+  "strato.cdp.set-global-paused": { adminOnly: true, idempotent: true },
+  "strato.cdp.open-junior-note": {
+    destructive: false,
+    movesValue: { token: USDST, amount: "amountUSDST" },
+    amounts: { amountUSDST: USDST },
+  },
+  "strato.cdp.top-up-junior-note": {
+    destructive: false,
+    movesValue: { token: USDST, amount: "amountUSDST" },
+    amounts: { amountUSDST: USDST },
+  },
+  "strato.cdp.claim-junior-note": { destructive: false, idempotent: true },
+
+  "strato.bridge.request-withdrawal": {
+    movesValue: { token: { field: "stratoToken" }, amount: "stratoTokenAmount", destination: "externalRecipient" },
+    amounts: { stratoTokenAmount: { field: "stratoToken" } },
+  },
+  "strato.bridge.request-auto-save": { destructive: false, idempotent: true },
+
+  "strato.rewards.claim": { destructive: false, idempotent: true },
+  "strato.rewards.claim-all-activities": { destructive: false, idempotent: true },
+  "strato.rewards.claim-activity": { destructive: false, idempotent: true },
+
+  "strato.admin.add-admin": { adminOnly: true, destructive: false, idempotent: true },
+  "strato.admin.remove-admin": { adminOnly: true, idempotent: true },
+  "strato.admin.vote": { adminOnly: true, destructive: false },
+  "strato.admin.vote-by-id": { adminOnly: true, destructive: false },
+  "strato.admin.dismiss-issue": { adminOnly: true },
+
+  "strato.oracle.set-price": { adminOnly: true, idempotent: true, amounts: { price: { symbol: "USD" } } },
+};
+
+export function getToolMetadata(name: string): ToolMetadata {
+  return toolMetadata[name] ?? {};
+}
+
+/**
+ * MCP tool annotations derived from the metadata. Every tool talks to the STRATO
+ * backend, so all of them are open-world. In read-only mode, tools that restrict
+ * themselves to reads (strato.rpc) are reported as read-only.
+ */
+export function getToolAnnotations(name: string, readOnlyMode = false): ToolAnnotations {
+  const metadata = getToolMetadata(name);
+  if (metadata.readOnly || (readOnlyMode && metadata.readOnlyCapable)) {
+    return { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true };
+  }
+  return {
+    readOnlyHint: false,
+    destructiveHint: metadata.destructive ?? true,
+    idempotentHint: metadata.idempotent ?? false,
+    openWorldHint: true,
+  };
+}
+
+/**
+ * Attach metadata-derived annotations to every tool registered through the returned
+ * server. Annotations set explicitly at registration take precedence.
+ */
+export function withAnnotations(server: McpServer, config: GriphookConfig): McpServer {
+  return interceptTools(server, (name, { config: toolConfig, handler }) => ({
+    config: {
+      ...toolConfig,
+      annotations: { ...getToolAnnotations(name, config.readOnly), ...toolConfig.annotations },
+    },
+    handler,
+  }));
+}
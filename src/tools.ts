@@ -1,81 +1,103 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { CallToolResult, McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
 import * as z from "zod";
-import { GriphookClient, HttpMethod } from "./client.js";
+import { GriphookClient, safeFetch } from "./client.js";
 import { GriphookConfig } from "./config.js";
-
-function toContent(payload: unknown, label?: string): CallToolResult {
-  const content: CallToolResult["content"] = [];
-  if (label) {
-    content.push({ type: "text", text: `**${label}**` });
-  }
-  content.push({ type: "text", text: JSON.stringify(payload, null, 2) });
-  return { content };
-}
+import { amountInputSchema, withAmounts } from "./amountInputs.js";
+import { firstBaseUnits, formatUnits, parseUnits, readBaseUnits } from "./amounts.js";
+import { withAudit } from "./audit.js";
+import { preflightWithdrawal } from "./bridgePreflight.js";
+import { BRIDGE_STAGES, BRIDGE_TX_TYPES, BridgeWait, isFinalStage, trackBridgeTransaction, waitForBridgeTransaction } from "./bridgeTracker.js";
+import { applyVaultChange, loadVaults, measureVault, stabilityFeeAprPercent } from "./cdpRisk.js";
+import { withConfirmation } from "./confirmation.js";
+import { lenientOutputSchema, toContent, toStructuredContent } from "./content.js";
+import { withDryRun } from "./dryRun.js";
+import {
+  EventFilters,
+  buildEventParams,
+  decodeCursor,
+  fetchEventPages,
+  readEventContracts,
+  resolveEventContract,
+} from "./eventQuery.js";
+import { formatHealthChecks, runHealthChecks } from "./health.js";
+import { HISTORY_KINDS, fetchHistory, formatStats, resample, summarizeSeries } from "./history.js";
+import { SimulationAction, actionAmount, loadLendingState, measureLending, simulateLending } from "./lendingSimulator.js";
+import { LIQUIDATION_PROTOCOLS, formatHealth, formatUsd, rankOpportunities, scanLiquidations } from "./liquidations.js";
+import { withMetrics } from "./metrics.js";
+import {
+  Freshness,
+  PRICE_DECIMALS,
+  assessFreshness,
+  bucketOhlc,
+  fetchOracleReading,
+  fetchPriceHistory,
+  readTimestamp,
+} from "./oracle.js";
+import { PolicyLedger, withPolicy } from "./policy.js";
+import { HOLDING_CATEGORIES, loadPortfolio, loadPrices, valuePortfolio } from "./portfolio.js";
+import { isReadOnlyRpcMethod, withReadOnly } from "./readOnly.js";
+import { requestContext } from "./requestContext.js";
+import { SubscriptionInfo, SubscriptionManager, SubscriptionSpec } from "./subscriptions.js";
+import { PoolQuote, applySlippage, quotePoolSwap, quoteSwap } from "./swapQuote.js";
+import { MAX_ROUTE_HOPS, SwapRoute, executeRoute, findBestRoute, loadSwapGraph } from "./swapRouter.js";
+import { isAddress, withTokenResolution } from "./tokenRegistry.js";
+import { TokenInfo, fetchTokenInfo, normalizeAddress, readTokenAddress, withFormattedAmounts } from "./tokens.js";
+import { withAnnotations } from "./toolMetadata.js";
+
+/** Backend objects are passed through as-is; output schemas only pin down their container shape. */
+const jsonObject = z.record(z.string(), z.unknown());
+const jsonList = z.array(jsonObject);
+const unavailableError = z.string().describe("Set when none of the tool's endpoints are available on this node");
 
 function buildEnum<T extends string>(values: readonly [T, ...T[]], description?: string) {
   const schema = z.enum(values);
   return description ? schema.describe(description) : schema;
 }
 
-export function registerTools(server: McpServer, client: GriphookClient, config: GriphookConfig) {
-  registerTokensSnapshot(server, client);
-  registerSwapSnapshot(server, client);
-  registerLendingSnapshot(server, client);
-  registerCdpSnapshot(server, client);
-  registerBridgeData(server, client);
-  registerRewardsData(server, client);
-  registerAdminData(server, client);
-  registerEventsSearch(server, client);
-  registerProtocolRevenue(server, client);
-  registerRpcProxy(server, client);
-  registerSwapActions(server, client);
-  registerTokenActions(server, client);
-  registerLendingActions(server, client);
-  registerCdpActions(server, client);
-  registerBridgeActions(server, client);
-  registerRewardsActions(server, client);
-  registerAdminActions(server, client);
-  registerOracleActions(server, client);
-}
-
-function isAuthOrSessionError(err: unknown): boolean {
-  if (!(err instanceof Error)) return false;
-  const message = err.message.toLowerCase();
-  return (
-    message.includes("not logged in") ||
-    message.includes("session expired") ||
-    message.includes("re-authenticate") ||
-    message.includes("unauthorized") ||
-    message.includes("forbidden") ||
-    message.includes("http 401") ||
-    message.includes("http 403")
-  );
-}
-
-function isEndpointUnavailableError(err: unknown): boolean {
-  if (!(err instanceof Error)) return false;
-  const message = err.message.toLowerCase();
-  return (
-    message.includes("http 404") ||
-    message.includes("http 405") ||
-    message.includes("http 501") ||
-    message.includes("not found") ||
-    message.includes("cannot get")
-  );
-}
-
-// Helper to safely fetch an optional endpoint, returning undefined when unavailable.
-// Auth/session failures are always propagated so callers don't get empty snapshots.
-async function safeFetch<T>(client: GriphookClient, method: HttpMethod, path: string, options?: Parameters<typeof client.request>[2]): Promise<T | undefined> {
-  try {
-    return await client.request<T>(method, path, options);
-  } catch (err) {
-    if (isAuthOrSessionError(err) || !isEndpointUnavailableError(err)) {
-      throw err;
-    }
-    return undefined;
-  }
+export function registerTools(server: McpServer, client: GriphookClient, config: GriphookConfig, ledger = new PolicyLedger()) {
+  // Every tool gets annotations from toolMetadata.ts. Token inputs accept symbols and
+  // names, and amount inputs accept human-readable values; both are converted before
+  // anything else sees them. Read-only mode keeps only read tools. The policy file (if
+  // any) hides disallowed tools and checks value-moving calls before the remaining
+  // wrappers run. The audit log and metrics wrap the server itself, so they see the
+  // caller's input and the final result.
+  const audited = withAudit(withMetrics(server), client, config);
+  const base = withAnnotations(withAmounts(withTokenResolution(audited, client), client), config);
+  const guarded = withPolicy(withReadOnly(base, config), client, config, ledger);
+
+  registerTokensSnapshot(guarded, client);
+  registerTokenResolve(guarded, client);
+  registerSwapSnapshot(guarded, client);
+  registerSwapQuote(guarded, client);
+  registerLendingSnapshot(guarded, client);
+  registerLendingSimulate(guarded, client);
+  registerCdpSnapshot(guarded, client);
+  registerCdpPosition(guarded, client);
+  registerLiquidationScan(guarded, client);
+  registerBridgeData(guarded, client);
+  registerRewardsData(guarded, client);
+  registerPortfolio(guarded, client);
+  registerOracleData(guarded, client);
+  registerHistory(guarded, client);
+  registerAdminData(guarded, client);
+  registerEventsSearch(guarded, client);
+  registerSubscriptions(guarded, client, new SubscriptionManager(server, client, config.subscriptions));
+  registerProtocolRevenue(guarded, client);
+  registerHealth(guarded, config);
+  registerRpcProxy(guarded, client, config);
+
+  // State-changing tools accept a dryRun flag (or honor GRIPHOOK_DRY_RUN), and
+  // value-moving tools ask the user for approval. Dry runs never ask.
+  const actions = withConfirmation(withDryRun(guarded, client, config), client, config);
+  registerSwapActions(actions, client);
+  registerTokenActions(actions, client);
+  registerLendingActions(actions, client);
+  registerCdpActions(actions, client);
+  registerBridgeActions(actions, client);
+  registerRewardsActions(actions, client);
+  registerAdminActions(actions, client);
+  registerOracleActions(actions, client);
 }
 
 function registerTokensSnapshot(server: McpServer, client: GriphookClient) {
@@ -89,6 +111,25 @@ function registerTokensSnapshot(server: McpServer, client: GriphookClient) {
     poolAddress: z.string().optional().describe("When set, fetch pool price history for this swap pool"),
   });
   type TokensArgs = z.infer<typeof tokensSchema>;
+  const tokensOutput = lenientOutputSchema({
+    tokens: z.array(z.looseObject({
+      address: z.string(),
+      _name: z.string().nullish(),
+      _symbol: z.string().nullish(),
+      _owner: z.string().nullish(),
+      _totalSupply: z.union([z.string(), z.number()]).nullish(),
+      customDecimals: z.union([z.number(), z.string()]).nullish(),
+      description: z.string().nullish(),
+      status: z.union([z.string(), z.number()]).nullish(),
+      _paused: z.boolean().nullish(),
+    })).describe("Token catalog (GET /tokens)"),
+    balances: jsonList.describe("Current user's token balances (GET /tokens/balance), with balanceFormatted in token units"),
+    voucherBalance: z.unknown().describe("Voucher balance (GET /vouchers/balance)"),
+    stats: jsonObject.describe("Token stats (GET /tokens/stats)"),
+    earningAssets: jsonList.describe("Earning assets (GET /tokens/v2/earning-assets)"),
+    balanceHistory: z.unknown().describe("Balance history for tokenAddress"),
+    poolPriceHistory: z.unknown().describe("Price history for poolAddress"),
+  });
 
   server.registerTool(
     "strato.tokens",
@@ -96,6 +137,7 @@ function registerTokensSnapshot(server: McpServer, client: GriphookClient) {
       title: "Tokens and balances",
       description: "Fetch token catalog, user balances, voucher balance, and earning assets.",
       inputSchema: tokensSchema,
+      outputSchema: tokensOutput,
     },
     async ({ status, includeTokens, includeStats, includeEarningAssets, includeBalances, tokenAddress, poolAddress }: TokensArgs) => {
       const result: Record<string, unknown> = {};
@@ -112,7 +154,7 @@ function registerTokensSnapshot(server: McpServer, client: GriphookClient) {
 
       if (includeBalances) {
         optionalTasks.push(
-          safeFetch(client, "get", "/tokens/balance").then((data) => { if (data !== undefined) result.balances = data; }),
+          safeFetch(client, "get", "/tokens/balance").then((data) => { if (data !== undefined) result.balances = withFormattedAmounts(data, ["balance"]); }),
           safeFetch(client, "get", "/vouchers/balance").then((data) => { if (data !== undefined) result.voucherBalance = data; }),
         );
       }
@@ -142,7 +184,41 @@ function registerTokensSnapshot(server: McpServer, client: GriphookClient) {
       }
 
       await Promise.all(optionalTasks);
-      return toContent(result, "Token snapshot");
+      return toStructuredContent(result, "Token snapshot");
+    },
+  );
+}
+
+function registerTokenResolve(server: McpServer, client: GriphookClient) {
+  const resolveSchema = z.object({
+    query: z.string().min(1).describe("Token symbol, name, part of either, or an address"),
+    limit: z.number().int().min(1).max(50).default(10),
+  });
+  type ResolveArgs = z.infer<typeof resolveSchema>;
+  const resolveOutput = lenientOutputSchema({
+    matches: z.array(z.object({
+      address: z.string(),
+      symbol: z.string().optional(),
+      name: z.string().optional(),
+      decimals: z.number(),
+      score: z.number().describe("100 = exact symbol match; lower for name, prefix, substring and near-miss matches"),
+      matchedOn: z.enum(["address", "symbol", "name"]),
+    })).describe("Best matches first"),
+  });
+
+  server.registerTool(
+    "strato.tokens.resolve",
+    {
+      title: "Resolve token",
+      description: "Find tokens by symbol or name (fuzzy) without loading the full catalog. Token inputs on other tools also accept an exact symbol or name.",
+      inputSchema: resolveSchema,
+      outputSchema: resolveOutput,
+    },
+    async ({ query, limit }: ResolveArgs) => {
+      const matches = (await client.tokens.search(query, limit))
+        .map(({ address, symbol, name, decimals, score, matchedOn }) => ({ address, symbol, name, decimals, score, matchedOn }));
+      const summary = matches.map((match) => `- ${match.symbol ?? "?"}${match.name ? ` (${match.name})` : ""}: ${match.address}`).join("\n");
+      return toStructuredContent({ matches }, `Tokens matching '${query}'`, summary || "- no matches");
     },
   );
 }
@@ -158,6 +234,21 @@ function registerSwapSnapshot(server: McpServer, client: GriphookClient) {
     historyPage: z.number().int().optional(),
   });
   type SwapArgs = z.infer<typeof swapSchema>;
+  const poolSchema = z.looseObject({
+    address: z.string(),
+    tokenA: z.unknown(),
+    tokenB: z.unknown(),
+  });
+  const swapOutput = lenientOutputSchema({
+    pools: z.array(poolSchema).describe("All swap pools (GET /swap-pools)"),
+    swappableTokens: jsonList.describe("Tokens that appear in at least one pool"),
+    pairableTokens: jsonList.describe("Tokens that can be swapped with tokenA"),
+    poolsForPair: z.array(poolSchema).describe("Pools between tokenA and tokenB"),
+    pool: poolSchema.describe("Details of poolAddress"),
+    history: z.unknown().describe("Swap history of poolAddress"),
+    lpPositions: jsonList.describe("Current user's LP positions"),
+    error: unavailableError,
+  });
 
   server.registerTool(
     "strato.swap",
@@ -165,6 +256,7 @@ function registerSwapSnapshot(server: McpServer, client: GriphookClient) {
       title: "Swap pools and liquidity",
       description: "Inspect swap pools, supported tokens, LP positions, history, and specific pool details.",
       inputSchema: swapSchema,
+      outputSchema: swapOutput,
     },
     async ({ tokenA, tokenB, poolAddress, includePositions, includeHistory, historyLimit, historyPage }: SwapArgs) => {
       const result: Record<string, unknown> = {};
@@ -210,9 +302,142 @@ function registerSwapSnapshot(server: McpServer, client: GriphookClient) {
       await Promise.all(optionalTasks);
 
       if (Object.keys(result).length === 0) {
-        return toContent({ error: "Swap endpoints not available on this node" }, "Swap data");
+        return toStructuredContent({ error: "Swap endpoints not available on this node" }, "Swap data");
       }
-      return toContent(result, "Swap data");
+      return toStructuredContent(result, "Swap data");
+    },
+  );
+}
+
+const slippageBpsSchema = z.number().int().min(0).max(5000).describe("Accepted slippage in basis points (50 = 0.5%)");
+
+const maxHopsSchema = z.number().int().min(1).max(MAX_ROUTE_HOPS).describe("Longest route to consider; 1 = direct pools only");
+
+/** Token amount in human units, or undefined when the token's decimals are not known. */
+function formatAmount(value: bigint, token: TokenInfo): string | undefined {
+  return token.decimalsAssumed ? undefined : formatUnits(value, token.decimals);
+}
+
+function describeAmount(value: bigint, token: TokenInfo): string {
+  const formatted = formatAmount(value, token);
+  return formatted === undefined ? `${value} base units` : `${formatted}${token.symbol ? ` ${token.symbol}` : ""}`;
+}
+
+function registerSwapQuote(server: McpServer, client: GriphookClient) {
+  const quoteSchema = z.object({
+    tokenIn: z.string().describe("Token to sell"),
+    tokenOut: z.string().describe("Token to buy"),
+    amountIn: z.string().describe("Amount of tokenIn to sell"),
+    slippageBps: slippageBpsSchema.default(50),
+    maxHops: maxHopsSchema.default(1),
+  });
+  type QuoteArgs = z.infer<typeof quoteSchema>;
+  const tokenSchema = z.object({
+    address: z.string(),
+    symbol: z.string().optional(),
+    decimals: z.number(),
+  });
+  const poolQuoteSchema = z.object({
+    poolAddress: z.string(),
+    isAToB: z.boolean().describe("Pass to strato.swap.execute"),
+    stable: z.boolean().describe("Stable-curve pool (otherwise constant product)"),
+    feeBps: z.number(),
+    amountOut: z.string().describe("Expected output in base units"),
+    amountOutFormatted: z.string().optional(),
+    fee: z.string().describe("Fee taken from amountIn, in base units"),
+    feeFormatted: z.string().optional(),
+    priceImpactBps: z.number().describe("Output shortfall against the pool's spot price after fees"),
+    minAmountOut: z.string().describe("amountOut less slippageBps; pass to strato.swap.execute"),
+    minAmountOutFormatted: z.string().optional(),
+  });
+  const quoteOutput = lenientOutputSchema({
+    tokenIn: tokenSchema,
+    tokenOut: tokenSchema,
+    amountIn: z.string().describe("Base units"),
+    slippageBps: z.number(),
+    amountOut: z.string().describe("Expected output of route, in base units"),
+    amountOutFormatted: z.string().optional(),
+    minAmountOut: z.string().describe("amountOut less slippageBps"),
+    minAmountOutFormatted: z.string().optional(),
+    route: z.array(z.object({
+      poolAddress: z.string(),
+      tokenIn: z.string(),
+      tokenOut: z.string(),
+      isAToB: z.boolean(),
+      amountIn: z.string(),
+      amountOut: z.string(),
+    })).describe("Hops of the best route, in order"),
+    best: poolQuoteSchema.describe("Direct pool with the highest output"),
+    quotes: z.array(poolQuoteSchema).describe("Every direct pool for the pair, best first"),
+  });
+
+  const toQuoteEntry = (quote: PoolQuote) => ({
+    poolAddress: quote.poolAddress,
+    isAToB: quote.isAToB,
+    stable: quote.stable,
+    feeBps: quote.feeBps,
+    amountOut: quote.amountOut.toString(),
+    amountOutFormatted: formatAmount(quote.amountOut, quote.tokenOut),
+    fee: quote.fee.toString(),
+    feeFormatted: formatAmount(quote.fee, quote.tokenIn),
+    priceImpactBps: quote.priceImpactBps,
+    minAmountOut: quote.minAmountOut.toString(),
+    minAmountOutFormatted: formatAmount(quote.minAmountOut, quote.tokenOut),
+  });
+
+  server.registerTool(
+    "strato.swap.quote",
+    {
+      title: "Quote swap",
+      description: "Quote selling amountIn of tokenIn for tokenOut: expected output, fee and price impact for each pool of the pair (computed from pool reserves), and a minAmountOut for the given slippage. With maxHops > 1, also route through intermediate tokens when that pays more.",
+      inputSchema: quoteSchema,
+      outputSchema: quoteOutput,
+    },
+    async ({ tokenIn, tokenOut, amountIn, slippageBps, maxHops }: QuoteArgs) => {
+      const amount = BigInt(amountIn);
+      const quotes = await quoteSwap(client, tokenIn, tokenOut, amount, slippageBps);
+      const best = quotes[0];
+      let route: SwapRoute | undefined = best && { hops: [best], amountIn: amount, amountOut: best.amountOut };
+      if (maxHops > 1) {
+        const routed = findBestRoute(await loadSwapGraph(client), tokenIn, tokenOut, amount, maxHops);
+        if (routed && (!route || routed.amountOut > route.amountOut)) route = routed;
+      }
+      if (!route) {
+        throw new McpError(ErrorCode.InvalidParams, `No swap ${maxHops > 1 ? `route within ${maxHops} hops` : "pool with reserves"} found for ${tokenIn} -> ${tokenOut}`);
+      }
+
+      const first = route.hops[0];
+      const last = route.hops[route.hops.length - 1];
+      const minAmountOut = applySlippage(route.amountOut, slippageBps);
+      const path = [first.tokenIn, ...route.hops.map((hop) => hop.tokenOut)].map((token) => token.symbol ?? token.address).join(" -> ");
+      const toToken = ({ address, symbol, decimals }: TokenInfo) => ({ address, symbol, decimals });
+      const summary = [
+        `- route: ${path} (${route.hops.length} hop${route.hops.length === 1 ? "" : "s"})`,
+        `- expected: ${describeAmount(amount, first.tokenIn)} -> ${describeAmount(route.amountOut, last.tokenOut)}`,
+        `- minAmountOut at ${slippageBps} bps slippage: ${describeAmount(minAmountOut, last.tokenOut)} (${minAmountOut})`,
+        ...(best ? [`- best direct pool ${best.poolAddress}: fee ${describeAmount(best.fee, best.tokenIn)} (${best.feeBps} bps), price impact ${best.priceImpactBps} bps`] : []),
+        `- direct pools quoted: ${quotes.length}`,
+      ].join("\n");
+      return toStructuredContent({
+        tokenIn: toToken(first.tokenIn),
+        tokenOut: toToken(last.tokenOut),
+        amountIn,
+        slippageBps,
+        amountOut: route.amountOut.toString(),
+        amountOutFormatted: formatAmount(route.amountOut, last.tokenOut),
+        minAmountOut: minAmountOut.toString(),
+        minAmountOutFormatted: formatAmount(minAmountOut, last.tokenOut),
+        route: route.hops.map((hop) => ({
+          poolAddress: hop.poolAddress,
+          tokenIn: hop.tokenIn.address,
+          tokenOut: hop.tokenOut.address,
+          isAToB: hop.isAToB,
+          amountIn: hop.amountIn.toString(),
+          amountOut: hop.amountOut.toString(),
+        })),
+        best: best && toQuoteEntry(best),
+        quotes: quotes.map(toQuoteEntry),
+      }, "Swap quote", summary);
     },
   );
 }
@@ -299,18 +524,74 @@ function registerSwapActions(server: McpServer, client: GriphookClient) {
     poolAddress: z.string().describe("Pool address"),
     isAToB: z.boolean().describe("Swap direction (true = token A to B)"),
     amountIn: z.string().describe("Input token amount"),
-    minAmountOut: z.string().describe("Minimum acceptable output"),
+    minAmountOut: z.string().optional().describe("Minimum acceptable output (or pass slippageBps)"),
+    slippageBps: slippageBpsSchema.optional().describe("Derive minAmountOut from a quote of the pool's current reserves, accepting this slippage in basis points"),
   });
   server.registerTool(
     "strato.swap.execute",
     {
       title: "Execute swap",
-      description: "Swap within an existing pool.",
+      description: "Swap within an existing pool. Pass minAmountOut, or slippageBps to derive it from the pool's current reserves (see strato.swap.quote).",
       inputSchema: swapSchema,
     },
-    async (input: z.infer<typeof swapSchema>) => {
-      const data = await client.request("post", "/swap", { data: input });
-      return toContent(data, "Swap transaction");
+    async ({ slippageBps, ...input }: z.infer<typeof swapSchema>) => {
+      if ((input.minAmountOut === undefined) === (slippageBps === undefined)) {
+        throw new McpError(ErrorCode.InvalidParams, "Pass exactly one of minAmountOut or slippageBps");
+      }
+      if (slippageBps === undefined) {
+        const data = await client.request("post", "/swap", { data: input });
+        return toContent(data, "Swap transaction");
+      }
+
+      const quote = await quotePoolSwap(client, input.poolAddress, input.isAToB, BigInt(input.amountIn), slippageBps);
+      // A zero minimum would accept any output, which is what slippage protection is meant to prevent.
+      if (quote.minAmountOut === 0n) {
+        throw new McpError(ErrorCode.InvalidParams, `amountIn ${input.amountIn} is too small: the quoted minimum output is 0. Pass minAmountOut explicitly.`);
+      }
+      const data = await client.request("post", "/swap", { data: { ...input, minAmountOut: quote.minAmountOut.toString() } });
+      const result = toContent(data, "Swap transaction");
+      result.content.push({
+        type: "text",
+        text: `**Slippage**\n- expected: ${describeAmount(quote.amountOut, quote.tokenOut)}\n- minAmountOut at ${slippageBps} bps: ${describeAmount(quote.minAmountOut, quote.tokenOut)} (${quote.minAmountOut})`,
+      });
+      return result;
+    },
+  );
+
+  const routeSchema = z.object({
+    tokenIn: z.string().describe("Token to sell"),
+    tokenOut: z.string().describe("Token to buy"),
+    amountIn: z.string().describe("Amount of tokenIn to sell"),
+    minAmountOut: z.string().optional().describe("Minimum acceptable output of the whole route (or pass slippageBps)"),
+    slippageBps: slippageBpsSchema.optional().describe("Derive the overall minAmountOut from the route quote, accepting this slippage in basis points"),
+    maxHops: maxHopsSchema.default(3),
+  });
+  server.registerTool(
+    "strato.swap.route-execute",
+    {
+      title: "Execute routed swap",
+      description: "Swap tokenIn for tokenOut along the best route over up to maxHops pools (see strato.swap.quote with maxHops). Hops run in sequence; before each hop the rest of the route is re-quoted and the route stops, reporting what is held, if it could no longer meet minAmountOut.",
+      inputSchema: routeSchema,
+    },
+    async ({ tokenIn, tokenOut, amountIn, minAmountOut, slippageBps, maxHops }: z.infer<typeof routeSchema>) => {
+      if ((minAmountOut === undefined) === (slippageBps === undefined)) {
+        throw new McpError(ErrorCode.InvalidParams, "Pass exactly one of minAmountOut or slippageBps");
+      }
+      const graph = await loadSwapGraph(client);
+      const route = findBestRoute(graph, tokenIn, tokenOut, BigInt(amountIn), maxHops);
+      if (!route) {
+        throw new McpError(ErrorCode.InvalidParams, `No swap route within ${maxHops} hops found for ${tokenIn} -> ${tokenOut}`);
+      }
+      const minOut = minAmountOut !== undefined ? BigInt(minAmountOut) : applySlippage(route.amountOut, slippageBps ?? 0);
+      if (minOut === 0n) {
+        throw new McpError(ErrorCode.InvalidParams, `amountIn ${amountIn} is too small: the route minimum output is 0. Pass minAmountOut explicitly.`);
+      }
+
+      const execution = await executeRoute(client, route, minOut);
+      if (execution.status === "stopped") {
+        return { ...toContent(execution, `Swap route stopped (${execution.hops.length} of ${route.hops.length} hops sent)`), isError: true };
+      }
+      return toContent(execution, `Swap route completed (${route.hops.length} hop${route.hops.length === 1 ? "" : "s"})`);
     },
   );
 }
@@ -319,8 +600,20 @@ function registerLendingSnapshot(server: McpServer, client: GriphookClient) {
   const lendingSchema = z.object({
     includeInterest: z.boolean().default(false),
     includeNearUnhealthy: z.boolean().default(false),
+    marginPercent: z.number().min(0).max(100).default(20).describe("With includeNearUnhealthy: list loans within this many percent of liquidation"),
   });
   type LendingArgs = z.infer<typeof lendingSchema>;
+  const lendingOutput = lenientOutputSchema({
+    pools: z.unknown().describe("Lending pool state (GET /lending/pools)"),
+    liquidity: jsonObject.describe("Current user's liquidity position and pool liquidity"),
+    collateral: jsonList.describe("Collateral assets with the current user's supplied amounts"),
+    loans: z.unknown().describe("Current user's loan (GET /lending/loans)"),
+    liquidatable: jsonList.describe("Loans that can be liquidated now"),
+    safety: jsonObject.describe("Safety module state (sUSDST)"),
+    nearUnhealthy: jsonList.describe("Loans within marginPercent of liquidation"),
+    interest: z.unknown().describe("Interest rate data"),
+    error: unavailableError,
+  });
 
   server.registerTool(
     "strato.lending",
@@ -328,8 +621,9 @@ function registerLendingSnapshot(server: McpServer, client: GriphookClient) {
       title: "Lending dashboard",
       description: "Fetch lending pools, loans, liquidity, collateral, liquidations, and safety module state.",
       inputSchema: lendingSchema,
+      outputSchema: lendingOutput,
     },
-    async ({ includeInterest, includeNearUnhealthy }: LendingArgs) => {
+    async ({ includeInterest, includeNearUnhealthy, marginPercent }: LendingArgs) => {
       const result: Record<string, unknown> = {};
       const optionalTasks: Promise<void>[] = [];
 
@@ -345,7 +639,7 @@ function registerLendingSnapshot(server: McpServer, client: GriphookClient) {
 
       if (includeNearUnhealthy) {
         optionalTasks.push(
-          safeFetch(client, "get", "/lending/liquidate/near-unhealthy", { params: { margin: 0.2 } }).then((data) => { if (data) result.nearUnhealthy = data; }),
+          safeFetch(client, "get", "/lending/liquidate/near-unhealthy", { params: { margin: marginPercent / 100 } }).then((data) => { if (data) result.nearUnhealthy = data; }),
         );
       }
 
@@ -358,9 +652,87 @@ function registerLendingSnapshot(server: McpServer, client: GriphookClient) {
       await Promise.all(optionalTasks);
 
       if (Object.keys(result).length === 0) {
-        return toContent({ error: "Lending endpoints not available on this node" }, "Lending data");
+        return toStructuredContent({ error: "Lending endpoints not available on this node" }, "Lending data");
+      }
+      return toStructuredContent(result, "Lending data");
+    },
+  );
+}
+
+function registerLendingSimulate(server: McpServer, client: GriphookClient) {
+  const assetField = z.string().describe("Collateral asset address or symbol");
+  const amountField = amountInputSchema.describe("Base units or a token amount (\"1.5 ETHST\")");
+  const simulateSchema = z.object({
+    actions: z.array(z.discriminatedUnion("type", [
+      z.object({ type: z.literal("supply"), asset: assetField, amount: amountField }),
+      z.object({ type: z.literal("withdraw"), asset: assetField, amount: amountField }),
+      z.object({ type: z.literal("borrow"), amount: amountField.describe("USDST to borrow") }),
+      z.object({ type: z.literal("repay"), amount: amountField.describe("USDST to repay") }),
+      z.object({ type: z.literal("price"), asset: assetField, changePercent: z.number().min(-100).max(1000).describe("Price shock, e.g. -30") }),
+    ])).default([]).describe("Hypothetical actions applied in order to the current position"),
+  });
+  type SimulateArgs = z.infer<typeof simulateSchema>;
+  const metricsSchema = z.object({
+    healthFactor: z.string().nullable().describe("Collateral value weighted by liquidationThreshold over debt; null without debt, below 1 is liquidatable"),
+    ltvPercent: z.string(),
+    collateralValue: z.string().describe("USD"),
+    debt: z.string().describe("USDST"),
+    borrowCapacity: z.string().describe("USDST that could still be borrowed under the per-asset ltv"),
+    positions: z.array(z.object({
+      asset: z.string(),
+      symbol: z.string().optional(),
+      amount: z.string(),
+      price: z.string().describe("USD per token"),
+      value: z.string().describe("USD"),
+      liquidationPrice: z.string().nullable().describe("Price of this asset (others unchanged) at which the health factor reaches 1"),
+    })),
+  });
+  const simulateOutput = lenientOutputSchema({
+    before: metricsSchema,
+    after: metricsSchema,
+    warnings: z.array(z.string()),
+  });
+
+  server.registerTool(
+    "strato.lending.simulate",
+    {
+      title: "Simulate lending position",
+      description: "What-if analysis of the current lending position: apply hypothetical supply, withdraw, borrow, repay and price-shock actions and compare health factor, LTV, liquidation prices and borrow capacity before and after. Nothing is sent.",
+      inputSchema: simulateSchema,
+      outputSchema: simulateOutput,
+    },
+    async ({ actions }: SimulateArgs) => {
+      const state = await loadLendingState(client);
+      const planned: SimulationAction[] = [];
+      let simulation: ReturnType<typeof simulateLending>;
+      try {
+        for (const [index, action] of actions.entries()) {
+          const field = `actions[${index}].amount`;
+          if (action.type === "borrow" || action.type === "repay") {
+            planned.push({ type: action.type, amount: actionAmount(state, field, action.amount) });
+            continue;
+          }
+          const asset = await client.tokens.resolveAddress(action.asset);
+          planned.push(action.type === "price"
+            ? { type: "price", asset, changeBps: Math.round(action.changePercent * 100) }
+            : { type: action.type, asset, amount: actionAmount(state, field, action.amount, asset) });
+        }
+        simulation = simulateLending(state, planned);
+      } catch (err) {
+        if (err instanceof McpError) throw err;
+        throw new McpError(ErrorCode.InvalidParams, err instanceof Error ? err.message : String(err));
       }
-      return toContent(result, "Lending data");
+
+      const before = measureLending(state);
+      const after = measureLending(simulation.state);
+      const { warnings } = simulation;
+      const summary = [
+        `- health factor: ${before.healthFactor ?? "n/a (no debt)"} -> ${after.healthFactor ?? "n/a (no debt)"}`,
+        `- LTV: ${before.ltvPercent}% -> ${after.ltvPercent}%`,
+        `- borrow capacity: ${before.borrowCapacity} -> ${after.borrowCapacity} USDST`,
+        ...warnings.map((warning) => `- warning: ${warning}`),
+      ].join("\n");
+      return toStructuredContent({ before, after, warnings }, "Lending simulation", summary);
     },
   );
 }
@@ -372,6 +744,17 @@ function registerCdpSnapshot(server: McpServer, client: GriphookClient) {
     includeInterest: z.boolean().default(false),
   });
   type CdpArgs = z.infer<typeof cdpSchema>;
+  const cdpOutput = lenientOutputSchema({
+    vaults: jsonList.describe("Current user's vaults (GET /cdp/vaults)"),
+    assets: jsonList.describe("Supported collateral assets"),
+    badDebt: z.unknown().describe("Outstanding bad debt"),
+    vault: jsonObject.describe("Current user's vault for asset"),
+    assetConfig: jsonObject.describe("Collateral config for asset (liquidationRatio, stability fee, ...)"),
+    assetDebt: jsonObject.describe("Debt totals and ceiling for asset"),
+    stats: jsonObject.describe("Protocol-wide CDP stats"),
+    interest: z.unknown().describe("Stability fee data"),
+    error: unavailableError,
+  });
 
   server.registerTool(
     "strato.cdp",
@@ -379,6 +762,7 @@ function registerCdpSnapshot(server: McpServer, client: GriphookClient) {
       title: "CDP overview",
       description: "Fetch CDP vaults, assets, debt metrics, bad debt, and interest/stats.",
       inputSchema: cdpSchema,
+      outputSchema: cdpOutput,
     },
     async ({ asset, includeStats, includeInterest }: CdpArgs) => {
       const result: Record<string, unknown> = {};
@@ -414,9 +798,202 @@ function registerCdpSnapshot(server: McpServer, client: GriphookClient) {
       await Promise.all(optionalTasks);
 
       if (Object.keys(result).length === 0) {
-        return toContent({ error: "CDP endpoints not available on this node" }, "CDP data");
+        return toStructuredContent({ error: "CDP endpoints not available on this node" }, "CDP data");
+      }
+      return toStructuredContent(result, "CDP data");
+    },
+  );
+}
+
+function registerCdpPosition(server: McpServer, client: GriphookClient) {
+  const positionSchema = z.object({
+    asset: z.string().optional().describe("Collateral asset to inspect (all vaults when omitted; required for what-if inputs)"),
+    deposit: z.string().optional().describe("What-if: collateral to deposit"),
+    withdraw: z.string().optional().describe("What-if: collateral to withdraw"),
+    mint: z.string().optional().describe("What-if: USDST to mint"),
+    repay: z.string().optional().describe("What-if: USDST to repay"),
+    priceChangePercent: z.number().min(-100).max(1000).optional().describe("What-if: collateral price shock, e.g. -20"),
+    marginPercent: z.number().min(0).max(1000).default(10).describe("Flag vaults whose collateralization is within this many percent above liquidationRatio"),
+  });
+  type PositionArgs = z.infer<typeof positionSchema>;
+  const metricsShape = {
+    collateral: z.string(),
+    price: z.string().describe("USD per collateral token"),
+    collateralValue: z.string().describe("USD"),
+    debt: z.string().describe("USDST, including accrued stability fee"),
+    collateralizationRatioPercent: z.string().nullable(),
+    liquidationRatioPercent: z.string(),
+    liquidationPrice: z.string().nullable().describe("Collateral price at which the vault reaches liquidationRatio"),
+    maxMint: z.string().describe("USDST"),
+    maxWithdraw: z.string().describe("Collateral tokens"),
+    atRisk: z.boolean().describe("Collateralization within marginPercent of liquidationRatio"),
+  };
+  const metricsSchema = z.object(metricsShape);
+  const positionOutput = lenientOutputSchema({
+    vaults: z.array(z.object({
+      asset: z.string(),
+      symbol: z.string().optional(),
+      ...metricsShape,
+      stabilityFeeAprPercent: z.string().optional(),
+      accruedStabilityFee: z.string().optional().describe("USDST, when the backend reports it"),
+    })).describe("Current vaults; maxMint and maxWithdraw come from /cdp/get-max-mint and /cdp/get-max-withdraw when available"),
+    whatIf: z.object({
+      asset: z.string(),
+      before: metricsSchema,
+      after: metricsSchema,
+      warnings: z.array(z.string()),
+    }).describe("Effect of the what-if inputs on the asset's vault"),
+  });
+
+  server.registerTool(
+    "strato.cdp.position",
+    {
+      title: "CDP vault risk",
+      description: "Per collateral asset: collateralization ratio, liquidation price, stability fee, max mintable and max withdrawable, flagging vaults near liquidationRatio. With asset plus deposit/withdraw/mint/repay/priceChangePercent, also shows the vault before and after those hypothetical changes. Nothing is sent.",
+      inputSchema: positionSchema,
+      outputSchema: positionOutput,
+    },
+    async ({ asset, deposit, withdraw, mint, repay, priceChangePercent, marginPercent }: PositionArgs) => {
+      const changes = { deposit, withdraw, mint, repay };
+      const hasWhatIf = priceChangePercent !== undefined || Object.values(changes).some((value) => value !== undefined);
+      if (hasWhatIf && !asset) {
+        throw new McpError(ErrorCode.InvalidParams, "asset is required for what-if inputs");
+      }
+      const marginBps = Math.round(marginPercent * 100);
+      const snapshots = await loadVaults(client, asset);
+
+      const vaults = await Promise.all(snapshots.map(async ({ state, accruedFee, stabilityFeeRate }) => {
+        const metrics = measureVault(state, marginBps);
+        const [maxMint, maxWithdraw] = await Promise.all([
+          safeFetch(client, "post", "/cdp/get-max-mint", { data: { asset: state.asset } }),
+          safeFetch(client, "post", "/cdp/get-max-withdraw", { data: { asset: state.asset } }),
+        ]);
+        const readMax = (data: unknown) => readBaseUnits(data) ?? (data && typeof data === "object" ? firstBaseUnits(data as Record<string, unknown>, ["maxAmount", "amount", "max"]) : undefined);
+        const backendMint = readMax(maxMint);
+        const backendWithdraw = readMax(maxWithdraw);
+        return {
+          asset: state.asset,
+          symbol: state.symbol,
+          ...metrics,
+          ...(backendMint !== undefined ? { maxMint: formatUnits(backendMint, 18) } : {}),
+          ...(backendWithdraw !== undefined ? { maxWithdraw: formatUnits(backendWithdraw, state.decimals) } : {}),
+          stabilityFeeAprPercent: stabilityFeeRate === undefined ? undefined : stabilityFeeAprPercent(stabilityFeeRate),
+          accruedStabilityFee: accruedFee === undefined ? undefined : formatUnits(accruedFee, 18),
+        };
+      }));
+
+      const result: Record<string, unknown> = { vaults };
+      const ratio = (percent: string | null) => (percent === null ? "n/a (no debt)" : `${percent}%`);
+      const lines = vaults.map((vault) =>
+        `- ${vault.symbol ?? vault.asset}: ratio ${ratio(vault.collateralizationRatioPercent)} (liquidation at ${vault.liquidationRatioPercent}%), liquidation price ${vault.liquidationPrice ?? "n/a"}${vault.atRisk ? " [AT RISK]" : ""}`);
+
+      if (hasWhatIf && snapshots[0]) {
+        const { state } = snapshots[0];
+        const toBase = (value: string | undefined) => (value === undefined ? undefined : BigInt(value));
+        const { vault: changed, warnings } = applyVaultChange(state, {
+          deposit: toBase(deposit),
+          withdraw: toBase(withdraw),
+          mint: toBase(mint),
+          repay: toBase(repay),
+          priceChangeBps: priceChangePercent === undefined ? undefined : Math.round(priceChangePercent * 100),
+        });
+        const before = measureVault(state, marginBps);
+        const after = measureVault(changed, marginBps);
+        result.whatIf = { asset: state.asset, before, after, warnings };
+        lines.push(
+          `- what-if ratio: ${ratio(before.collateralizationRatioPercent)} -> ${ratio(after.collateralizationRatioPercent)}, liquidation price ${before.liquidationPrice ?? "n/a"} -> ${after.liquidationPrice ?? "n/a"}`,
+          ...warnings.map((warning) => `- warning: ${warning}`),
+        );
       }
-      return toContent(result, "CDP data");
+      return toStructuredContent(result, "CDP positions", lines.join("\n") || "- no vaults");
+    },
+  );
+}
+
+function registerLiquidationScan(server: McpServer, client: GriphookClient) {
+  const scanSchema = z.object({
+    protocol: buildEnum(["all", ...LIQUIDATION_PROTOCOLS], "Which positions to scan").default("all"),
+    marginPercent: z.number().min(0).max(100).default(20).describe("Also list lending loans within this many percent of liquidation; 0 lists only liquidatable loans"),
+    minProfit: z.string().regex(/^\d+(\.\d+)?$/).optional().describe("Only return opportunities with at least this estimated profit in USD"),
+    limit: z.number().int().min(1).max(500).default(50),
+  });
+  type ScanArgs = z.infer<typeof scanSchema>;
+  const scanOutput = lenientOutputSchema({
+    opportunities: z.array(z.object({
+      protocol: buildEnum(LIQUIDATION_PROTOCOLS),
+      id: z.string().describe("Loan id (lending) or borrower (CDP)"),
+      borrower: z.string().optional(),
+      collateralAsset: z.string(),
+      symbol: z.string().optional(),
+      liquidatable: z.boolean().describe("False for loans that are only near liquidation"),
+      healthFactor: z.string().nullable().describe("Below 1 is liquidatable; for CDP, collateralization over the liquidation ratio"),
+      debt: z.string().describe("USDST"),
+      price: z.string().describe("Oracle price of the collateral in USD"),
+      bonusPercent: z.string().describe("Lending liquidation bonus or CDP liquidation penalty"),
+      closeFactorPercent: z.string(),
+      closeFactorAssumed: z.boolean().optional().describe("The backend reported no close factor; the full debt was assumed"),
+      maxRepay: z.string().describe("USDST repayable in one liquidation"),
+      collateralOut: z.string().describe("Collateral received for maxRepay, bonus included"),
+      collateralValue: z.string().describe("USD value of collateralOut"),
+      profit: z.string().describe("collateralValue minus maxRepay, in USD, before gas"),
+      profitPercent: z.string().nullable(),
+      tool: z.string().describe("Tool that executes this liquidation"),
+      args: jsonObject.describe("Arguments for tool (amounts in base units)"),
+    })),
+    scanned: z.number().describe("Opportunities found before minProfit and limit"),
+    unavailable: z.array(z.string()).describe("Endpoints that could not be read"),
+  });
+
+  server.registerTool(
+    "strato.liquidations.scan",
+    {
+      title: "Liquidation scanner",
+      description: "Find liquidatable (and, within marginPercent, nearly liquidatable) lending loans and CDP positions, estimate the maximum repayable debt, the collateral received with the bonus or penalty and the net profit at oracle prices, and rank them by profit. Returns ready-to-use arguments for strato.lending.liquidate or strato.cdp.liquidate. Nothing is sent.",
+      inputSchema: scanSchema,
+      outputSchema: scanOutput,
+    },
+    async ({ protocol, marginPercent, minProfit, limit }: ScanArgs) => {
+      const protocols = protocol === "all" ? LIQUIDATION_PROTOCOLS : [protocol];
+      const [{ candidates, unavailable }, symbols] = await Promise.all([
+        scanLiquidations(client, protocols, marginPercent),
+        tokenSymbols(client),
+      ]);
+      const floor = minProfit === undefined ? undefined : parseUnits(minProfit, PRICE_DECIMALS);
+      const ranked = rankOpportunities(candidates);
+      const opportunities = ranked
+        .filter((opportunity) => floor === undefined || opportunity.profit >= floor)
+        .slice(0, limit)
+        .map((opportunity) => ({
+          protocol: opportunity.protocol,
+          id: opportunity.id,
+          ...(opportunity.borrower ? { borrower: opportunity.borrower } : {}),
+          collateralAsset: opportunity.collateralAsset,
+          symbol: opportunity.symbol ?? symbols.get(opportunity.collateralAsset),
+          liquidatable: opportunity.liquidatable,
+          healthFactor: formatHealth(opportunity.health),
+          debt: formatUnits(opportunity.debt, 18),
+          price: formatUnits(opportunity.price, PRICE_DECIMALS),
+          bonusPercent: formatUnits(BigInt(opportunity.bonusBps), 2),
+          closeFactorPercent: formatUnits(BigInt(opportunity.closeFactorBps), 2),
+          ...(opportunity.closeFactorAssumed ? { closeFactorAssumed: true } : {}),
+          maxRepay: formatUnits(opportunity.maxRepay, 18),
+          collateralOut: formatUnits(opportunity.collateralOut, opportunity.decimals),
+          collateralValue: formatUsd(opportunity.collateralValue),
+          profit: formatUsd(opportunity.profit),
+          profitPercent: opportunity.maxRepay > 0n ? formatUnits((opportunity.profit * 10_000n) / opportunity.maxRepay, 2) : null,
+          tool: opportunity.protocol === "lending" ? "strato.lending.liquidate" : "strato.cdp.liquidate",
+          args: opportunity.protocol === "lending"
+            ? { id: opportunity.id, collateralAsset: opportunity.collateralAsset, repayAmount: opportunity.maxRepay.toString() }
+            : { collateralAsset: opportunity.collateralAsset, borrower: opportunity.id, debtToCover: opportunity.maxRepay.toString() },
+        }));
+
+      const summary = [
+        `- ${opportunities.length} of ${ranked.length} opportunities${minProfit ? ` with profit >= ${minProfit} USD` : ""}`,
+        ...opportunities.slice(0, 10).map((opportunity) =>
+          `- ${opportunity.protocol} ${opportunity.id}: repay ${opportunity.maxRepay} USDST for ${opportunity.collateralOut} ${opportunity.symbol ?? opportunity.collateralAsset}, profit ${opportunity.profit} USD${opportunity.liquidatable ? "" : " [not yet liquidatable]"}`),
+        ...(unavailable.length > 0 ? [`- unavailable: ${unavailable.join(", ")}`] : []),
+      ].join("\n");
+      return toStructuredContent({ opportunities, scanned: ranked.length, unavailable }, "Liquidation opportunities", summary);
     },
   );
 }
@@ -431,6 +1008,13 @@ function registerBridgeData(server: McpServer, client: GriphookClient) {
     includeSummary: z.boolean().default(false),
   });
   type BridgeArgs = z.infer<typeof bridgeSchema>;
+  const bridgeOutput = lenientOutputSchema({
+    networks: z.unknown().describe("Bridge network configs (GET /bridge/networkConfigs)"),
+    bridgeableTokens: jsonList.describe("Tokens bridgeable to chainId"),
+    transactions: z.unknown().describe("Deposit or withdrawal transactions for txType"),
+    withdrawalSummary: jsonObject.describe("Current user's withdrawal summary"),
+    error: unavailableError,
+  });
 
   server.registerTool(
     "strato.bridge",
@@ -438,6 +1022,7 @@ function registerBridgeData(server: McpServer, client: GriphookClient) {
       title: "Bridge networks and activity",
       description: "Fetch bridge network configs, bridgeable tokens, deposit/withdrawal history, and withdrawal summary.",
       inputSchema: bridgeSchema,
+      outputSchema: bridgeOutput,
     },
     async ({ chainId, txType, limit, offset, context, includeSummary }: BridgeArgs) => {
       const result: Record<string, unknown> = {};
@@ -471,9 +1056,81 @@ function registerBridgeData(server: McpServer, client: GriphookClient) {
       await Promise.all(optionalTasks);
 
       if (Object.keys(result).length === 0) {
-        return toContent({ error: "Bridge endpoints not available on this node" }, "Bridge data");
+        return toStructuredContent({ error: "Bridge endpoints not available on this node" }, "Bridge data");
       }
-      return toContent(result, "Bridge data");
+      return toStructuredContent(result, "Bridge data");
+    },
+  );
+
+  const trackSchema = z.object({
+    id: z.string().min(1).describe("Request ID returned by strato.bridge.request-withdrawal, or a STRATO or external transaction hash"),
+    txType: buildEnum(BRIDGE_TX_TYPES).optional().describe("Search only deposits or withdrawals; both when omitted. Required when a request ID is both a deposit and a withdrawal ID"),
+    wait: z.boolean().default(false).describe("Keep polling until the transaction is finalized or failed"),
+    timeoutSeconds: z.number().int().min(1).max(3600).default(300).describe("Longest time to wait"),
+    pollSeconds: z.number().int().min(2).max(300).default(10).describe("Time between polls while waiting"),
+  });
+  type TrackArgs = z.infer<typeof trackSchema>;
+  const trackOutput = lenientOutputSchema({
+    id: z.string(),
+    found: z.boolean(),
+    txType: buildEnum(BRIDGE_TX_TYPES).optional(),
+    stage: buildEnum(BRIDGE_STAGES).nullable().describe("requested, pendingApproval, finalized or failed; unknown for unrecognized statuses; null when not found"),
+    status: z.string().nullable().describe("Status as reported by the backend"),
+    final: z.boolean().describe("The transaction is finalized or failed"),
+    timedOut: z.boolean().describe("wait was set and the timeout passed first"),
+    waitedSeconds: z.number(),
+    transaction: jsonObject.optional(),
+  });
+
+  server.registerTool(
+    "strato.bridge.track",
+    {
+      title: "Track bridge transaction",
+      description: "Find a bridge deposit or withdrawal by request ID or transaction hash and report where it is in its lifecycle (requested, pendingApproval, finalized, failed). With wait, polls until it is final or the timeout passes, sending progress notifications.",
+      inputSchema: trackSchema,
+      outputSchema: trackOutput,
+    },
+    async ({ id, txType, wait, timeoutSeconds, pollSeconds }: TrackArgs, extra) => {
+      const progressToken = extra?._meta?.progressToken;
+      const outcome: BridgeWait = wait
+        ? await waitForBridgeTransaction(client, id, txType, {
+          timeoutMs: timeoutSeconds * 1000,
+          intervalMs: pollSeconds * 1000,
+          signal: extra?.signal,
+          onProgress: async (tracked, elapsedMs) => {
+            if (progressToken === undefined || !extra) return;
+            await extra.sendNotification({
+              method: "notifications/progress",
+              params: {
+                progressToken,
+                progress: Math.floor(elapsedMs / 1000),
+                total: timeoutSeconds,
+                message: tracked ? `${tracked.txType} ${tracked.stage} (${tracked.status ?? "no status"})` : "not found yet",
+              },
+            }).catch(() => undefined);
+          },
+        })
+        : { tracked: await trackBridgeTransaction(client, id, txType), timedOut: false, waitedMs: 0 };
+
+      const { tracked, timedOut } = outcome;
+      const result = {
+        id,
+        found: tracked !== undefined,
+        ...(tracked ? { txType: tracked.txType } : {}),
+        stage: tracked?.stage ?? null,
+        status: tracked?.status ?? null,
+        final: tracked ? isFinalStage(tracked.stage) : false,
+        timedOut,
+        waitedSeconds: Math.round(outcome.waitedMs / 1000),
+        ...(tracked ? { transaction: tracked.transaction } : {}),
+      };
+      const summary = [
+        tracked
+          ? `- ${tracked.txType} ${id}: ${tracked.stage}${tracked.status ? ` (status ${tracked.status})` : ""}`
+          : `- ${id}: not found in ${txType ? `${txType}` : "deposit or withdrawal"} transactions`,
+        ...(timedOut ? [`- not final after ${timeoutSeconds}s`] : []),
+      ].join("\n");
+      return toStructuredContent(result, "Bridge transaction", summary);
     },
   );
 }
@@ -486,6 +1143,15 @@ function registerRewardsData(server: McpServer, client: GriphookClient) {
     leaderboardOffset: z.number().int().optional(),
   });
   type RewardsArgs = z.infer<typeof rewardsSchema>;
+  const rewardsOutput = lenientOutputSchema({
+    pools: jsonList.describe("Reward pools (GET /rewards/pools)"),
+    pending: z.unknown().describe("Current user's pending rewards"),
+    overview: jsonObject.describe("Rewards program overview"),
+    activities: jsonList.describe("Reward activities"),
+    userActivities: z.unknown().describe("Activity data for userAddress"),
+    leaderboard: z.unknown().describe("Rewards leaderboard"),
+    error: unavailableError,
+  });
 
   server.registerTool(
     "strato.rewards",
@@ -493,6 +1159,7 @@ function registerRewardsData(server: McpServer, client: GriphookClient) {
       title: "Rewards overview",
       description: "Fetch rewards overview, activities, user rewards, pending balances, and leaderboard.",
       inputSchema: rewardsSchema,
+      outputSchema: rewardsOutput,
     },
     async ({ userAddress, includeLeaderboard, leaderboardLimit, leaderboardOffset }: RewardsArgs) => {
       const result: Record<string, unknown> = {};
@@ -521,9 +1188,318 @@ function registerRewardsData(server: McpServer, client: GriphookClient) {
       await Promise.all(optionalTasks);
 
       if (Object.keys(result).length === 0) {
-        return toContent({ error: "Rewards endpoints not available on this node" }, "Rewards data");
+        return toStructuredContent({ error: "Rewards endpoints not available on this node" }, "Rewards data");
       }
-      return toContent(result, "Rewards data");
+      return toStructuredContent(result, "Rewards data");
+    },
+  );
+}
+
+function registerPortfolio(server: McpServer, client: GriphookClient) {
+  const portfolioSchema = z.object({});
+  const portfolioOutput = lenientOutputSchema({
+    holdings: z.array(z.object({
+      category: buildEnum(HOLDING_CATEGORIES),
+      asset: z.string().optional(),
+      symbol: z.string().optional(),
+      amount: z.string(),
+      priceUsd: z.string().nullable().describe("USD per token; null when no price was found"),
+      valueUsd: z.string().nullable(),
+      source: z.string().optional().describe("Pool or vault the holding belongs to"),
+    })),
+    totals: z.record(z.string(), z.string()).describe("USD per category; lendingBorrow and cdpDebt are liabilities"),
+    assetsUsd: z.string(),
+    liabilitiesUsd: z.string(),
+    netWorthUsd: z.string(),
+    unpriced: z.array(z.string()).describe("Holdings left out of the totals because no price was found"),
+    unavailable: z.array(z.string()).describe("Endpoints that could not be read"),
+  });
+
+  server.registerTool(
+    "strato.portfolio",
+    {
+      title: "Portfolio",
+      description: "Everything the current user owns and owes across STRATO: wallet balances, LP positions (as underlying tokens), lending collateral and debt, CDP collateral and debt, staked sUSDST and pending rewards, valued in USD with oracle prices, plus net worth.",
+      inputSchema: portfolioSchema,
+      outputSchema: portfolioOutput,
+    },
+    async () => {
+      const { holdings, unavailable } = await loadPortfolio(client);
+      const valuation = valuePortfolio(holdings, await loadPrices(client, holdings));
+      const summary = [
+        `- net worth: ${valuation.netWorthUsd} USD (assets ${valuation.assetsUsd}, liabilities ${valuation.liabilitiesUsd})`,
+        ...HOLDING_CATEGORIES
+          .filter((category) => holdings.some((holding) => holding.category === category))
+          .map((category) => `- ${category}: ${valuation.totals[category]} USD`),
+        ...(valuation.unpriced.length ? [`- unpriced: ${valuation.unpriced.join(", ")}`] : []),
+        ...(unavailable.length ? [`- unavailable: ${unavailable.join(", ")}`] : []),
+      ].join("\n");
+      return toStructuredContent({ ...valuation, unavailable }, "Portfolio", summary);
+    },
+  );
+}
+
+/** Bucket sizes, in seconds, accepted by the history tools. */
+const INTERVALS = { "5m": 300, "15m": 900, "1h": 3600, "4h": 14_400, "1d": 86_400 } as const;
+
+const intervalSchema = buildEnum(Object.keys(INTERVALS) as [keyof typeof INTERVALS]);
+
+/** Symbols of catalog tokens by normalized address; empty when the catalog is unavailable. */
+async function tokenSymbols(client: GriphookClient): Promise<Map<string, string>> {
+  const tokens = await client.tokens.list().catch(() => []);
+  return new Map(tokens.flatMap((token) => (token.symbol ? [[normalizeAddress(token.address), token.symbol] as const] : [])));
+}
+
+/** Collateral assets of the CDP (/cdp/assets) and lending (/lending/collateral) protocols. */
+async function collateralAssets(client: GriphookClient): Promise<string[]> {
+  const lists = await Promise.all([safeFetch(client, "get", "/cdp/assets"), safeFetch(client, "get", "/lending/collateral")]);
+  const assets = new Map<string, string>();
+  for (const list of lists) {
+    for (const entry of Array.isArray(list) ? list : []) {
+      const record = entry && typeof entry === "object" ? entry as Record<string, unknown> : {};
+      const asset = readTokenAddress(record.asset) ?? readTokenAddress(record.address);
+      if (asset) assets.set(normalizeAddress(asset), asset);
+    }
+  }
+  return [...assets.values()];
+}
+
+function parseTimeInput(field: string, value: string | undefined): Date | undefined {
+  if (value === undefined) return undefined;
+  const time = readTimestamp(value.trim());
+  if (!time) throw new McpError(ErrorCode.InvalidParams, `${field}: expected an ISO date or unix timestamp, got '${value}'`);
+  return time;
+}
+
+function registerOracleData(server: McpServer, client: GriphookClient) {
+  const maxAgeSchema = z.number().int().positive().default(3600).describe("A price older than this many seconds is stale");
+  const readingSchema = z.object({
+    asset: z.string(),
+    symbol: z.string().optional(),
+    price: z.string().nullable().describe("USD per token; null when the oracle has no price"),
+    updatedAt: z.string().nullable(),
+    ageSeconds: z.number().nullable(),
+    stale: z.boolean().nullable().describe("Null when the oracle does not report an update time"),
+  });
+  type Reading = { asset: string; symbol?: string; price: string | null } & Freshness;
+
+  const readPrices = async (assets: string[], maxAgeSeconds: number): Promise<Reading[]> => {
+    const now = new Date();
+    const [symbols, readings] = await Promise.all([
+      tokenSymbols(client),
+      Promise.all(assets.map((asset) => fetchOracleReading(client, asset))),
+    ]);
+    return assets.map((asset, index) => ({
+      asset,
+      symbol: symbols.get(normalizeAddress(asset)),
+      price: readings[index] ? formatUnits(readings[index].price, PRICE_DECIMALS) : null,
+      ...assessFreshness(readings[index], maxAgeSeconds, now),
+    }));
+  };
+  const describeReading = (reading: Reading) => {
+    const age = reading.ageSeconds === null ? "update time unknown" : `updated ${reading.ageSeconds}s ago`;
+    return `- ${reading.symbol ?? reading.asset}: ${reading.price ?? "no price"} (${age})${reading.stale ? " [STALE]" : ""}`;
+  };
+
+  const priceSchema = z.object({
+    assets: z.array(z.string()).min(1).max(50).describe("Assets to price"),
+    maxAgeSeconds: maxAgeSchema,
+  });
+  type PriceArgs = z.infer<typeof priceSchema>;
+  const priceOutput = lenientOutputSchema({ prices: z.array(readingSchema) });
+
+  server.registerTool(
+    "strato.oracle",
+    {
+      title: "Oracle prices",
+      description: "Current oracle prices (USD per token) for one or more assets, with when each was last updated and whether it is stale.",
+      inputSchema: priceSchema,
+      outputSchema: priceOutput,
+    },
+    async ({ assets, maxAgeSeconds }: PriceArgs) => {
+      const prices = await readPrices(assets, maxAgeSeconds);
+      return toStructuredContent({ prices }, "Oracle prices", prices.map(describeReading).join("\n"));
+    },
+  );
+
+  const historySchema = z.object({
+    asset: z.string().describe("Asset to fetch price history for"),
+    from: z.string().optional().describe("Start of the range: ISO date or unix timestamp"),
+    to: z.string().optional().describe("End of the range: ISO date or unix timestamp"),
+    interval: intervalSchema.optional().describe("Bucket the history into OHLC candles of this size"),
+    limit: z.number().int().min(1).max(1000).default(200).describe("Most recent points or candles to return"),
+  });
+  type HistoryArgs = z.infer<typeof historySchema>;
+  const historyOutput = lenientOutputSchema({
+    asset: z.string(),
+    points: z.array(z.object({ time: z.string(), price: z.string() })).describe("Raw updates, when no interval is given"),
+    candles: z.array(z.object({
+      start: z.string(),
+      open: z.string(),
+      high: z.string(),
+      low: z.string(),
+      close: z.string(),
+      count: z.number(),
+    })).describe("OHLC candles, when interval is given"),
+    first: z.string().nullable(),
+    last: z.string().nullable(),
+    changePercent: z.string().nullable().describe("From the first to the last price in the range"),
+    total: z.number().describe("Price updates in the range before limit was applied"),
+  });
+
+  server.registerTool(
+    "strato.oracle.history",
+    {
+      title: "Oracle price history",
+      description: "Oracle price history of an asset over a time range, as raw updates or OHLC candles.",
+      inputSchema: historySchema,
+      outputSchema: historyOutput,
+    },
+    async ({ asset, from, to, interval, limit }: HistoryArgs) => {
+      const start = parseTimeInput("from", from);
+      const end = parseTimeInput("to", to);
+      if (start && end && start > end) throw new McpError(ErrorCode.InvalidParams, "from must be before to");
+
+      const points = await fetchPriceHistory(client, asset, start, end);
+      const price = (value: bigint) => formatUnits(value, PRICE_DECIMALS);
+      const first = points[0]?.price;
+      const last = points[points.length - 1]?.price;
+      const result: Record<string, unknown> = {
+        asset,
+        first: first === undefined ? null : price(first),
+        last: last === undefined ? null : price(last),
+        changePercent: first && last !== undefined ? (Number(((last - first) * 1_000_000n) / first) / 10_000).toFixed(2) : null,
+        total: points.length,
+      };
+      if (interval) {
+        result.candles = bucketOhlc(points, INTERVALS[interval]).slice(-limit).map((candle) => ({
+          start: candle.start.toISOString(),
+          open: price(candle.open),
+          high: price(candle.high),
+          low: price(candle.low),
+          close: price(candle.close),
+          count: candle.count,
+        }));
+      } else {
+        result.points = points.slice(-limit).map((point) => ({ time: point.time.toISOString(), price: price(point.price) }));
+      }
+      const summary = points.length === 0
+        ? "- no price updates in range"
+        : `- ${points.length} updates, ${result.first} -> ${result.last}${result.changePercent === null ? "" : ` (${result.changePercent}%)`}`;
+      return toStructuredContent(result, "Oracle price history", summary);
+    },
+  );
+
+  const stalenessSchema = z.object({
+    assets: z.array(z.string()).max(50).optional().describe("Assets to check; defaults to every CDP and lending collateral asset"),
+    maxAgeSeconds: maxAgeSchema,
+  });
+  type StalenessArgs = z.infer<typeof stalenessSchema>;
+  const stalenessOutput = lenientOutputSchema({
+    maxAgeSeconds: z.number(),
+    stale: z.array(readingSchema).describe("Assets with no price or a price older than maxAgeSeconds"),
+    unknown: z.array(readingSchema).describe("Assets whose update time the oracle does not report"),
+    fresh: z.array(readingSchema),
+  });
+
+  server.registerTool(
+    "strato.oracle.staleness",
+    {
+      title: "Oracle staleness check",
+      description: "Flag assets whose oracle price is missing or older than maxAgeSeconds. Checks every CDP and lending collateral asset unless assets is given.",
+      inputSchema: stalenessSchema,
+      outputSchema: stalenessOutput,
+    },
+    async ({ assets, maxAgeSeconds }: StalenessArgs) => {
+      const readings = await readPrices(assets?.length ? assets : await collateralAssets(client), maxAgeSeconds);
+      const stale = readings.filter((reading) => reading.stale === true);
+      const unknown = readings.filter((reading) => reading.stale === null);
+      const fresh = readings.filter((reading) => reading.stale === false);
+      const summary = [
+        `- ${readings.length} assets checked: ${stale.length} stale, ${unknown.length} without update time, ${fresh.length} fresh`,
+        ...stale.map(describeReading),
+      ].join("\n");
+      return toStructuredContent({ maxAgeSeconds, stale, unknown, fresh }, "Oracle staleness", summary);
+    },
+  );
+}
+
+function registerHistory(server: McpServer, client: GriphookClient) {
+  const historySchema = z.object({
+    kind: buildEnum(HISTORY_KINDS, "balance: one token's balance; netBalance: net worth in USD; borrowing: outstanding debt in USDST"),
+    token: z.string().optional().describe("Token whose balance to chart; required for kind=balance"),
+    from: z.string().optional().describe("Start of the range: ISO date or unix timestamp"),
+    to: z.string().optional().describe("End of the range: ISO date or unix timestamp"),
+    interval: intervalSchema.optional().describe("Resample to the last value in each bucket of this size"),
+    limit: z.number().int().min(1).max(1000).default(200).describe("Most recent points to return; statistics cover the whole range"),
+  });
+  type HistoryArgs = z.infer<typeof historySchema>;
+  const statsSchema = z.object({
+    start: z.string(),
+    end: z.string(),
+    change: z.string(),
+    changePercent: z.string().nullable(),
+    high: z.string(),
+    low: z.string(),
+    average: z.string().describe("Time-weighted average over the range"),
+    maxDrawdown: z.string().describe("Largest fall from a running high to a later low"),
+    maxDrawdownPercent: z.string().nullable(),
+  });
+  const historyOutput = lenientOutputSchema({
+    kind: buildEnum(HISTORY_KINDS),
+    token: z.string().optional(),
+    symbol: z.string().optional(),
+    points: z.array(z.object({ time: z.string(), value: z.string(), raw: z.string().describe("Base units") })),
+    stats: statsSchema.nullable().describe("Null when there are no points in range"),
+    total: z.number().describe("Points in the range before limit was applied"),
+    error: unavailableError,
+  });
+
+  server.registerTool(
+    "strato.history",
+    {
+      title: "Balance and borrowing history",
+      description: "Time series of a token balance, net balance or borrowing for the current user over a time range, optionally resampled, with change, high/low, average and max drawdown.",
+      inputSchema: historySchema,
+      outputSchema: historyOutput,
+    },
+    async ({ kind, token, from, to, interval, limit }: HistoryArgs) => {
+      if (kind === "balance" && !token) throw new McpError(ErrorCode.InvalidParams, "token is required for kind=balance");
+      const start = parseTimeInput("from", from);
+      const end = parseTimeInput("to", to);
+      if (start && end && start > end) throw new McpError(ErrorCode.InvalidParams, "from must be before to");
+
+      const info = kind === "balance" && token ? await fetchTokenInfo(client, token) : undefined;
+      // Net balance is in USD and borrowing in USDST; both use 18 decimals.
+      const decimals = info?.decimals ?? 18;
+      const fetched = await fetchHistory(client, kind, decimals, { token: kind === "balance" ? token : undefined, from: start, to: end });
+      if (fetched === undefined) {
+        return toStructuredContent({ error: "History endpoint not available on this node" }, "History");
+      }
+
+      const points = interval ? resample(fetched, INTERVALS[interval]) : fetched;
+      const stats = summarizeSeries(fetched);
+      const unit = kind === "balance" ? info?.symbol ?? "" : kind === "netBalance" ? "USD" : "USDST";
+      const formatted = stats && formatStats(stats, decimals);
+      const result = {
+        kind,
+        ...(kind === "balance" ? { token, symbol: info?.symbol } : {}),
+        points: points.slice(-limit).map((point) => ({
+          time: point.time.toISOString(),
+          value: formatUnits(point.value, decimals),
+          raw: point.value.toString(),
+        })),
+        stats: formatted ?? null,
+        total: fetched.length,
+      };
+      const summary = formatted
+        ? [
+          `- ${fetched.length} points: ${formatted.start} -> ${formatted.end}${unit ? ` ${unit}` : ""}${formatted.changePercent === null ? "" : ` (${formatted.changePercent}%)`}`,
+          `- high ${formatted.high}, low ${formatted.low}, average ${formatted.average}`,
+          `- max drawdown ${formatted.maxDrawdown}${formatted.maxDrawdownPercent === null ? "" : ` (${formatted.maxDrawdownPercent}%)`}`,
+        ].join("\n")
+        : "- no points in range";
+      return toStructuredContent(result, "History", summary);
     },
   );
 }
@@ -584,22 +1560,172 @@ function registerAdminData(server: McpServer, client: GriphookClient) {
 
 function registerEventsSearch(server: McpServer, client: GriphookClient) {
   const eventsSchema = z.object({
-    order: z.string().optional().describe("Order clause, e.g. block_timestamp.desc"),
-    limit: z.string().optional(),
-    offset: z.string().optional(),
+    contract: z.array(z.string()).optional().describe("Contract addresses or names (from listContracts) that emitted the events"),
+    eventName: z.array(z.string()).optional().describe("Event names, e.g. Transfer"),
+    fromBlock: z.number().int().min(0).optional(),
+    toBlock: z.number().int().min(0).optional(),
+    from: z.string().optional().describe("Earliest block timestamp: ISO date or unix timestamp"),
+    to: z.string().optional().describe("Latest block timestamp: ISO date or unix timestamp"),
+    attributes: z.record(z.string(), z.string()).optional().describe("Equality filters on event attributes, e.g. {\"from\": \"<address>\"}"),
+    order: z.string().regex(/^[a-z_]+\.(asc|desc)$/).default("block_timestamp.desc").describe("Order clause, e.g. block_timestamp.desc"),
+    limit: z.number().int().min(1).max(5000).default(100).describe("Most events to return; further pages are fetched automatically up to this cap"),
+    pageSize: z.number().int().min(1).max(1000).default(100).describe("Events per backend request"),
+    offset: z.number().int().min(0).optional().describe("Events to skip; ignored when cursor is set"),
+    cursor: z.string().optional().describe("nextCursor from a previous call with the same filters"),
+    listContracts: z.boolean().default(false).describe("Also return the contracts that emit events (GET /events/contracts)"),
   });
   type EventsArgs = z.infer<typeof eventsSchema>;
+  const eventsOutput = lenientOutputSchema({
+    events: z.array(z.unknown()),
+    count: z.number(),
+    nextCursor: z.string().optional().describe("Pass as cursor to continue; absent when there are no more events"),
+    contracts: z.array(z.object({ address: z.string(), name: z.string().optional() })).describe("Contracts that emit events"),
+  });
 
   server.registerTool(
     "strato.events",
     {
       title: "Event search",
-      description: "Query chain events through the backend search interface.",
+      description: "Query chain events by contract, event name, block or time range and attribute values. Pages are fetched automatically up to limit; continue with nextCursor.",
       inputSchema: eventsSchema,
+      outputSchema: eventsOutput,
+    },
+    async ({ contract, eventName, fromBlock, toBlock, from, to, attributes, order, limit, pageSize, offset, cursor, listContracts }: EventsArgs) => {
+      const needsContracts = listContracts || (contract ?? []).some((value) => !isAddress(value));
+      const contracts = needsContracts ? readEventContracts(await client.request("get", "/events/contracts")) : [];
+
+      let params: Record<string, string>;
+      let start: number;
+      try {
+        const filters: EventFilters = {
+          contracts: contract?.flatMap((value) => resolveEventContract(contracts, value)),
+          eventNames: eventName,
+          fromBlock,
+          toBlock,
+          from: parseTimeInput("from", from),
+          to: parseTimeInput("to", to),
+          attributes,
+        };
+        if (fromBlock !== undefined && toBlock !== undefined && fromBlock > toBlock) throw new Error("fromBlock must not be after toBlock");
+        if (filters.from && filters.to && filters.from > filters.to) throw new Error("from must be before to");
+        params = { ...buildEventParams(filters), order };
+        start = cursor ? decodeCursor(cursor, params) : offset ?? 0;
+      } catch (err) {
+        if (err instanceof McpError) throw err;
+        throw new McpError(ErrorCode.InvalidParams, err instanceof Error ? err.message : String(err));
+      }
+
+      const page = await fetchEventPages(client, params, { offset: start, pageSize, limit });
+      const result: Record<string, unknown> = { events: page.events, count: page.events.length };
+      if (page.nextCursor) result.nextCursor = page.nextCursor;
+      if (listContracts) result.contracts = contracts;
+      const summary = [
+        `- events: ${page.events.length}${page.nextCursor ? " (more available, pass nextCursor)" : ""}`,
+        ...(listContracts ? [`- contracts: ${contracts.length}`] : []),
+      ].join("\n");
+      return toStructuredContent(result, "Events", summary);
+    },
+  );
+}
+
+function registerSubscriptions(server: McpServer, client: GriphookClient, manager: SubscriptionManager) {
+  const subscribeSchema = z.object({
+    kind: buildEnum(["events", "healthFactor", "cdpRatio", "bridge"], "events: new chain events; healthFactor: lending health factor below a threshold; cdpRatio: CDP vaults near liquidation; bridge: bridge transaction status changes"),
+    contract: z.array(z.string()).optional().describe("kind=events: contract addresses or names"),
+    eventName: z.array(z.string()).optional().describe("kind=events: event names, e.g. Transfer"),
+    below: z.number().positive().optional().describe("kind=healthFactor: notify when the health factor drops below this, e.g. 1.2"),
+    asset: z.string().optional().describe("kind=cdpRatio: collateral asset of one vault; all vaults when omitted"),
+    marginPercent: z.number().min(0).max(1000).default(10).describe("kind=cdpRatio: notify when collateralization is within this many percent above the liquidation ratio"),
+    txType: buildEnum(["deposit", "withdrawal"]).optional().describe("kind=bridge: which bridge transactions to watch"),
+  });
+  type SubscribeArgs = z.infer<typeof subscribeSchema>;
+  const matchSchema = z.object({ at: z.string(), message: z.string(), data: z.unknown().optional() });
+  const subscriptionSchema = z.object({
+    id: z.string(),
+    spec: jsonObject,
+    createdAt: z.string(),
+    lastPolledAt: z.string().nullable(),
+    lastError: z.string().nullable().describe("Error from the most recent poll, if it failed"),
+    recent: z.array(matchSchema).describe("Most recent matches, oldest first"),
+  });
+  const describeSubscription = (info: SubscriptionInfo) =>
+    `- ${info.id}: ${info.spec.kind}, ${info.recent.length} recent matches${info.lastError ? ` (last poll failed: ${info.lastError})` : ""}`;
+
+  const toSpec = async ({ kind, contract, eventName, below, asset, marginPercent, txType }: SubscribeArgs): Promise<SubscriptionSpec> => {
+    switch (kind) {
+      case "events": {
+        const contracts = (contract ?? []).some((value) => !isAddress(value))
+          ? readEventContracts(await client.request("get", "/events/contracts"))
+          : [];
+        return {
+          kind,
+          contracts: contract?.flatMap((value) => resolveEventContract(contracts, value)),
+          eventNames: eventName,
+        };
+      }
+      case "healthFactor":
+        if (below === undefined) throw new Error("below is required for kind=healthFactor");
+        return { kind, below };
+      case "cdpRatio":
+        return { kind, asset, marginPercent };
+      case "bridge":
+        if (!txType) throw new Error("txType is required for kind=bridge");
+        return { kind, txType };
+    }
+  };
+
+  server.registerTool(
+    "strato.subscribe",
+    {
+      title: "Subscribe to changes",
+      description: "Watch for new chain events, a lending health factor below a threshold, CDP vaults near liquidation or bridge status changes. Matches are pushed to this session as logging notifications (logger griphook.subscriptions) until strato.unsubscribe or the session ends.",
+      inputSchema: subscribeSchema,
+      outputSchema: lenientOutputSchema({ subscription: subscriptionSchema }),
+    },
+    async (args: SubscribeArgs, extra) => {
+      if (!extra) {
+        throw new McpError(ErrorCode.InvalidRequest, "Subscriptions need a connected MCP session");
+      }
+      let subscription: SubscriptionInfo;
+      try {
+        subscription = await manager.add(await toSpec(args), requestContext.getStore(), extra.sessionId);
+      } catch (err) {
+        if (err instanceof McpError) throw err;
+        throw new McpError(ErrorCode.InvalidParams, err instanceof Error ? err.message : String(err));
+      }
+      return toStructuredContent({ subscription }, "Subscribed", describeSubscription(subscription));
+    },
+  );
+
+  const unsubscribeSchema = z.object({ id: z.string().describe("Subscription id from strato.subscribe") });
+  type UnsubscribeArgs = z.infer<typeof unsubscribeSchema>;
+  server.registerTool(
+    "strato.unsubscribe",
+    {
+      title: "Unsubscribe",
+      description: "Stop a subscription created with strato.subscribe.",
+      inputSchema: unsubscribeSchema,
+      outputSchema: lenientOutputSchema({ removed: z.boolean() }),
+    },
+    async ({ id }: UnsubscribeArgs) => {
+      const removed = manager.remove(id);
+      if (!removed) throw new McpError(ErrorCode.InvalidParams, `No subscription ${id} in this session`);
+      return toStructuredContent({ removed }, "Unsubscribed", `- ${id}`);
     },
-    async ({ order, limit, offset }: EventsArgs) => {
-      const result = await client.request("get", "/events", { params: { order, limit, offset } });
-      return toContent(result, "Events");
+  );
+
+  server.registerTool(
+    "strato.subscriptions",
+    {
+      title: "Active subscriptions",
+      description: "List this session's subscriptions with their most recent matches.",
+      inputSchema: z.object({}),
+      outputSchema: lenientOutputSchema({ subscriptions: z.array(subscriptionSchema) }),
+    },
+    async () => {
+      const subscriptions = manager.list();
+      const summary = subscriptions.length > 0 ? subscriptions.map(describeSubscription).join("\n") : "- none";
+      return toStructuredContent({ subscriptions }, "Subscriptions", summary);
     },
   );
 }
@@ -637,7 +1763,36 @@ function registerProtocolRevenue(server: McpServer, client: GriphookClient) {
   );
 }
 
-function registerRpcProxy(server: McpServer, client: GriphookClient) {
+function registerHealth(server: McpServer, config: GriphookConfig) {
+  const healthOutput = lenientOutputSchema({
+    status: buildEnum(["ok", "degraded", "failed"]),
+    version: z.string(),
+    uptimeSeconds: z.number(),
+    checks: z.array(z.object({
+      check: z.string(),
+      status: buildEnum(["ok", "warning", "failed"]),
+      detail: z.string(),
+      fix: z.string().optional().describe("What to do about a warning or failure"),
+      latencyMs: z.number().optional(),
+    })),
+  });
+
+  server.registerTool(
+    "strato.health",
+    {
+      title: "Health check",
+      description: "Check that Griphook can reach the STRATO backend (/health), the OpenID discovery document and JWKS, and that the caller's credentials are valid. Failed checks include a suggested fix.",
+      inputSchema: z.object({}),
+      outputSchema: healthOutput,
+    },
+    async () => {
+      const report = await runHealthChecks(config, { credentials: true });
+      return toStructuredContent(report, `Griphook ${report.version}: ${report.status}`, formatHealthChecks(report.checks));
+    },
+  );
+}
+
+function registerRpcProxy(server: McpServer, client: GriphookClient, config: GriphookConfig) {
   const rpcSchema = z.object({
     chainId: z.string().describe("Numeric chain ID, e.g. 1 or 11155111"),
     payload: z.record(z.string(), z.any()).describe("Raw JSON-RPC payload"),
@@ -648,13 +1803,21 @@ function registerRpcProxy(server: McpServer, client: GriphookClient) {
     "strato.rpc",
     {
       title: "RPC proxy",
-      description: "Proxy a JSON-RPC request through the backend RPC router.",
+      description: config.readOnly
+        ? "Proxy a read-only JSON-RPC request (eth_call, eth_getBalance, eth_getLogs, ...) through the backend RPC router."
+        : "Proxy a JSON-RPC request through the backend RPC router.",
       inputSchema: rpcSchema,
     },
     async ({ chainId, payload }: RpcArgs) => {
       if (!payload || typeof payload !== "object") {
         throw new McpError(ErrorCode.InvalidParams, "payload must be a JSON-RPC object");
       }
+      if (config.readOnly && !isReadOnlyRpcMethod(payload.method)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `JSON-RPC method ${JSON.stringify(payload.method)} is not allowed in read-only mode`,
+        );
+      }
       const data = await client.request("post", `/rpc/${chainId}`, { data: payload });
       return toContent(data, `RPC response for chain ${chainId}`);
     },
@@ -1346,12 +2509,17 @@ function registerBridgeActions(server: McpServer, client: GriphookClient) {
     "strato.bridge.request-withdrawal",
     {
       title: "Bridge request withdrawal",
-      description: "Submit a withdrawal request to an external chain.",
+      description: "Submit a withdrawal request to an external chain. The chain, token route, EIP-55 checksummed recipient, balance and limits are checked first, and the expected fee is reported. Follow it with strato.bridge.track.",
       inputSchema: withdrawSchema,
     },
     async (input: z.infer<typeof withdrawSchema>) => {
+      const preflight = await preflightWithdrawal(client, input);
+      if (!preflight.ok) {
+        const failed = preflight.checks.filter((check) => check.status === "failed");
+        throw new McpError(ErrorCode.InvalidParams, `Withdrawal pre-flight failed:\n${failed.map((check) => `- ${check.check}: ${check.detail}`).join("\n")}`);
+      }
       const data = await client.request("post", "/bridge/requestWithdrawal", { data: input });
-      return toContent(data, "Bridge withdrawal request");
+      return toContent({ request: data, preflight }, "Bridge withdrawal request");
     },
   );
 
@@ -1363,7 +2531,7 @@ function registerBridgeActions(server: McpServer, client: GriphookClient) {
     "strato.bridge.request-auto-save",
     {
       title: "Bridge request auto save",
-      description: "Request auto save for a bridge transaction.",
+      description: "Request auto save for a bridge transaction. Follow it with strato.bridge.track using the external tx hash.",
       inputSchema: autoSaveSchema,
     },
     async (input: z.infer<typeof autoSaveSchema>) => {
@@ -0,0 +1,122 @@
+import { GriphookClient, safeFetch } from "./client.js";
+import { formatUnits } from "./amounts.js";
+import { DEFAULT_DECIMALS, TokenInfo, fetchTokenInfo, readTokenAddress, toTokenInfo } from "./tokens.js";
+import { TokenSource, ValueFlow, getToolMetadata } from "./toolMetadata.js";
+
+/** Token moved by a tool. Implicit tokens (e.g. USDST for borrow) may have no address. */
+export type FlowToken = Omit<TokenInfo, "address"> & { address?: string };
+
+export type ResolvedValueFlow = {
+  tool: string;
+  token: FlowToken;
+  /** Absent for "max"/"all" tools whose amount is decided on-chain. */
+  amount?: { raw: string; formatted: string; value: bigint };
+  destination?: string;
+};
+
+async function resolvePoolToken(
+  client: GriphookClient,
+  side: "in" | "out" | "a" | "b" | "lp",
+  input: Record<string, unknown>,
+): Promise<FlowToken | undefined> {
+  if (typeof input.poolAddress !== "string") return undefined;
+  const pool = await safeFetch<Record<string, unknown>>(client, "get", `/swap-pools/${input.poolAddress}`);
+  if (!pool) return undefined;
+
+  const aToB = input.isAToB !== false;
+  const key = side === "lp" ? "lpToken"
+    : side === "a" ? "tokenA"
+    : side === "b" ? "tokenB"
+    : (side === "in") === aToB ? "tokenA" : "tokenB";
+  const address = readTokenAddress(pool[key]);
+  if (!address) return undefined;
+
+  // Pool responses usually embed token metadata; fall back to /tokens/{address} when they
+  // don't include the decimals.
+  const embedded = pool[key];
+  const info = embedded && typeof embedded === "object" ? toTokenInfo(address, embedded) : undefined;
+  if (info && !info.decimalsAssumed) return info;
+  return (await fetchTokenInfo(client, address)) ?? info ?? { address, decimals: DEFAULT_DECIMALS, decimalsAssumed: true };
+}
+
+export async function resolveTokenSource(
+  client: GriphookClient,
+  source: TokenSource,
+  input: Record<string, unknown>,
+): Promise<FlowToken | undefined> {
+  if ("symbol" in source) {
+    return { symbol: source.symbol, decimals: DEFAULT_DECIMALS };
+  }
+  if ("pool" in source) {
+    return resolvePoolToken(client, source.pool, input);
+  }
+  if ("decimalsField" in source) {
+    const decimals = input[source.decimalsField];
+    return typeof decimals === "number" && Number.isInteger(decimals) && decimals >= 0
+      ? { decimals }
+      : { decimals: DEFAULT_DECIMALS, decimalsAssumed: true };
+  }
+  const address = input[source.field];
+  if (typeof address !== "string" || address.length === 0) return undefined;
+  return (await fetchTokenInfo(client, address)) ?? { address, decimals: DEFAULT_DECIMALS, decimalsAssumed: true };
+}
+
+async function resolveFlow(
+  client: GriphookClient,
+  tool: string,
+  flow: ValueFlow,
+  input: Record<string, unknown>,
+): Promise<ResolvedValueFlow> {
+  const token = (await resolveTokenSource(client, flow.token, input)) ?? { decimals: DEFAULT_DECIMALS };
+  const resolved: ResolvedValueFlow = { tool, token };
+
+  const rawAmount = flow.amount ? input[flow.amount] : undefined;
+  if (typeof rawAmount === "string" && /^\d+$/.test(rawAmount)) {
+    const value = BigInt(rawAmount);
+    resolved.amount = { raw: rawAmount, formatted: formatUnits(value, token.decimals), value };
+  }
+
+  const destination = flow.destination ? input[flow.destination] : undefined;
+  if (typeof destination === "string") {
+    resolved.destination = destination;
+  }
+
+  return resolved;
+}
+
+/**
+ * Work out which tokens, how much and to whom a value-moving tool call would send, one
+ * entry per token spent. Returns an empty list for tools that do not move value.
+ */
+export async function resolveValueFlows(
+  client: GriphookClient,
+  tool: string,
+  input: Record<string, unknown>,
+): Promise<ResolvedValueFlow[]> {
+  const declared = getToolMetadata(tool).movesValue;
+  const flows = Array.isArray(declared) ? declared : declared ? [declared] : [];
+  return Promise.all(flows.map((flow) => resolveFlow(client, tool, flow, input)));
+}
+
+export function tokenLabel(token: FlowToken): string {
+  if (token.symbol && token.address) return `${token.symbol} (${token.address})`;
+  return token.symbol ?? token.address ?? "unknown token";
+}
+
+/**
+ * Human-readable summary of a call's value flows, suitable for showing to the user before approval.
+ */
+export function describeValueFlows(flows: ResolvedValueFlow[], title?: string): string {
+  const lines = [`${flows[0]?.tool ?? "unknown tool"}${title ? ` - ${title}` : ""}`];
+  for (const flow of flows) {
+    const symbol = flow.token.symbol ? ` ${flow.token.symbol}` : "";
+    lines.push(flow.amount
+      ? `Amount: ${flow.amount.formatted}${symbol} (${flow.amount.raw} base units)`
+      : "Amount: maximum available (decided on-chain)");
+    lines.push(`Token: ${tokenLabel(flow.token)}`);
+    if (flow.destination) {
+      lines.push(`Destination: ${flow.destination}`);
+    }
+  }
+  return lines.join("\n");
+}